@@ -1,70 +1,95 @@
+import { Readable } from "node:stream";
 import {
   buildSoapEnvelope,
+  parseSoapBody,
   SOAP_NAMESPACES,
   sendSoapRequest
 } from "./soap.js";
+import { streamSoapResult } from "./stream.js";
 import {
-  DataboxError,
-  SessionExpiredError
-} from "../errors.js";
+  databoxEntryResponseSchema,
+  databoxListResponseSchema,
+  parseDataboxEntry,
+  parsePayload
+} from "./payloads.js";
+import { DEFAULT_MAX_WINDOW_DAYS, splitListRequest } from "./windows.js";
+import { SoapInterceptors } from "./interceptors.js";
+import { resolveRetryPolicy, RetryOptions, RetryPolicy } from "./retry.js";
+import { returnCodeError } from "./return-codes.js";
+import { DataboxError } from "../errors.js";
+import { describeDocument } from "../models/content-type.js";
 import {
+  DataboxDocument,
   DataboxEntry,
   DataboxListRequest,
   FileArt,
-  FinanzonlineCredentials,
-  ReadStatus
+  FinanzonlineCredentials
 } from "../models/types.js";
 
-const DATABOX_SERVICE_URL = "https://finanzonline.bmf.gv.at/fon/ws/databox";
-
-interface DataboxListResponse {
-  rc?: number | string;
-  msg?: string;
-  result?: DataboxListEntryRaw | DataboxListEntryRaw[];
-}
-
-interface DataboxEntryResponse {
-  rc?: number | string;
-  msg?: string;
-  result?: string;
-}
-
-interface DataboxListEntryRaw {
-  stnr?: string;
-  name?: string;
-  anbringen?: string;
-  zrvon?: string;
-  zrbis?: string;
-  datbesch?: string;
-  erltyp?: string;
-  fileart?: string;
-  ts_zust?: string;
-  applkey?: string;
-  filebez?: string;
-  status?: string;
-}
+export const DATABOX_SERVICE_URL = "https://finanzonline.bmf.gv.at/fon/ws/databox";
 
 export interface DataboxClientOptions {
   timeoutSeconds?: number;
   fetcher?: typeof fetch;
   serviceUrl?: string;
+  retry?: RetryOptions;
+  interceptors?: SoapInterceptors;
+  maxWindowDays?: number;
+  /** Reject responses that do not match the expected schema instead of warning. */
+  strict?: boolean;
 }
 
 export class DataboxClient {
   private readonly timeoutMs: number;
   private readonly fetcher: typeof fetch | undefined;
   private readonly serviceUrl: string;
+  private readonly retry: RetryPolicy;
+  private readonly interceptors: SoapInterceptors | undefined;
+  private readonly strict: boolean;
+  readonly maxWindowDays: number;
 
   constructor(options: DataboxClientOptions = {}) {
     this.timeoutMs = (options.timeoutSeconds ?? 30) * 1000;
     this.fetcher = options.fetcher;
     this.serviceUrl = options.serviceUrl ?? DATABOX_SERVICE_URL;
+    this.retry = resolveRetryPolicy(options.retry);
+    this.interceptors = options.interceptors;
+    this.maxWindowDays = options.maxWindowDays ?? DEFAULT_MAX_WINDOW_DAYS;
+    this.strict = options.strict ?? false;
   }
 
   async getDatabox(
     sessionId: string,
     credentials: FinanzonlineCredentials,
     request: DataboxListRequest = {}
+  ): Promise<DataboxEntry[]> {
+    const entries: DataboxEntry[] = [];
+    for await (const entry of this.iterateDatabox(sessionId, credentials, request)) {
+      entries.push(entry);
+    }
+    return entries;
+  }
+
+  async *iterateDatabox(
+    sessionId: string,
+    credentials: FinanzonlineCredentials,
+    request: DataboxListRequest = {}
+  ): AsyncGenerator<DataboxEntry> {
+    const seen = new Set<string>();
+    for (const window of splitListRequest(request, this.maxWindowDays)) {
+      for (const entry of await this.queryDatabox(sessionId, credentials, window)) {
+        if (!seen.has(entry.applkey)) {
+          seen.add(entry.applkey);
+          yield entry;
+        }
+      }
+    }
+  }
+
+  async queryDatabox(
+    sessionId: string,
+    credentials: FinanzonlineCredentials,
+    request: DataboxListRequest
   ): Promise<DataboxEntry[]> {
     const body = buildSoapEnvelope(SOAP_NAMESPACES.databox, "getDatabox", {
       tid: credentials.tid,
@@ -75,28 +100,30 @@ export class DataboxClient {
       ts_zust_bis: request.ts_zust_bis
     });
 
-    const response = await sendSoapRequest<DataboxListResponse>({
-      url: this.serviceUrl,
-      action: "getDatabox",
-      body,
-      timeoutMs: this.timeoutMs,
-      ...(this.fetcher ? { fetcher: this.fetcher } : {})
-    });
-
-    const returnCode = normalizeReturnCode(response.rc);
-    if (returnCode === -1) {
-      throw new SessionExpiredError(
-        response.msg ?? "Session expired",
-        returnCode
-      );
-    }
-
-    if (returnCode !== 0) {
-      throw new DataboxError(
-        response.msg ?? "Failed to list databox",
-        returnCode
-      );
-    }
+    const response = await sendSoapRequest(
+      {
+        url: this.serviceUrl,
+        action: "getDatabox",
+        body,
+        timeoutMs: this.timeoutMs,
+        retry: this.retry,
+        ...(this.fetcher ? { fetcher: this.fetcher } : {}),
+        ...(this.interceptors ? { interceptors: this.interceptors } : {})
+      },
+      (payload) => {
+        const response = parsePayload(
+          databoxListResponseSchema,
+          payload,
+          "getDatabox",
+          this.strict
+        );
+        const returnCode = normalizeReturnCode(response.rc);
+        if (returnCode !== 0) {
+          throw returnCodeError("databox", returnCode, response.msg, "Failed to list databox");
+        }
+        return response;
+      }
+    );
 
     const raw = response.result;
     if (!raw) {
@@ -104,7 +131,7 @@ export class DataboxClient {
     }
 
     const entries = Array.isArray(raw) ? raw : [raw];
-    return entries.map(parseEntry);
+    return entries.map((entry) => parseDataboxEntry(entry, this.strict));
   }
 
   async getDataboxEntry(
@@ -119,29 +146,29 @@ export class DataboxClient {
       applkey
     });
 
-    const response = await sendSoapRequest<DataboxEntryResponse>({
-      url: this.serviceUrl,
-      action: "getDataboxEntry",
-      body,
-      timeoutMs: this.timeoutMs,
-      ...(this.fetcher ? { fetcher: this.fetcher } : {})
-    });
+    const response = await sendSoapRequest(
+      {
+        url: this.serviceUrl,
+        action: "getDataboxEntry",
+        body,
+        timeoutMs: this.timeoutMs,
+        retry: this.retry,
+        ...(this.fetcher ? { fetcher: this.fetcher } : {}),
+        ...(this.interceptors ? { interceptors: this.interceptors } : {})
+      },
+      (payload) => {
+        const response = parsePayload(
+          databoxEntryResponseSchema,
+          payload,
+          "getDataboxEntry",
+          this.strict
+        );
+        assertEntryReturnCode(normalizeReturnCode(response.rc), response.msg);
+        return response;
+      }
+    );
 
     const returnCode = normalizeReturnCode(response.rc);
-    if (returnCode === -1) {
-      throw new SessionExpiredError(
-        response.msg ?? "Session expired",
-        returnCode
-      );
-    }
-
-    if (returnCode !== 0) {
-      throw new DataboxError(
-        response.msg ?? "Failed to download databox entry",
-        returnCode
-      );
-    }
-
     if (!response.result) {
       throw new DataboxError("Missing document content", returnCode);
     }
@@ -152,36 +179,85 @@ export class DataboxClient {
 
     return Buffer.from(response.result, "base64");
   }
-}
 
-function parseEntry(raw: DataboxListEntryRaw): DataboxEntry {
-  const datbesch = raw.datbesch ? new Date(`${raw.datbesch}T00:00:00Z`) : new Date(0);
-  const tsZust = raw.ts_zust ? new Date(raw.ts_zust) : new Date(0);
-
-  return {
-    stnr: raw.stnr ?? "",
-    name: raw.name ?? "",
-    anbringen: raw.anbringen ?? "",
-    zrvon: raw.zrvon ?? "",
-    zrbis: raw.zrbis ?? "",
-    datbesch,
-    erltyp: raw.erltyp ?? "",
-    fileart: normalizeFileart(raw.fileart),
-    ts_zust: tsZust,
-    applkey: raw.applkey ?? "",
-    filebez: raw.filebez ?? "",
-    status: normalizeStatus(raw.status)
-  };
+  /**
+   * Like `getDataboxEntry`, plus the MIME type and extension sniffed from the
+   * content. Pass the entry's `fileart` to get a warning when they disagree.
+   */
+  async getDataboxDocument(
+    sessionId: string,
+    credentials: FinanzonlineCredentials,
+    applkey: string,
+    fileart?: FileArt
+  ): Promise<DataboxDocument> {
+    return describeDocument(await this.getDataboxEntry(sessionId, credentials, applkey), fileart);
+  }
+
+  async getDataboxEntryStream(
+    sessionId: string,
+    credentials: FinanzonlineCredentials,
+    applkey: string
+  ): Promise<Readable> {
+    const body = buildSoapEnvelope(SOAP_NAMESPACES.databox, "getDataboxEntry", {
+      tid: credentials.tid,
+      benid: credentials.benid,
+      id: sessionId,
+      applkey
+    });
+
+    const { head, content } = await streamSoapResult(
+      {
+        url: this.serviceUrl,
+        action: "getDataboxEntry",
+        body,
+        timeoutMs: this.timeoutMs,
+        retry: this.retry,
+        ...(this.fetcher ? { fetcher: this.fetcher } : {}),
+        ...(this.interceptors ? { interceptors: this.interceptors } : {})
+      },
+      (result) => {
+        if (!result.content) {
+          const response = parsePayload(
+            databoxEntryResponseSchema,
+            parseSoapBody<unknown>(result.head),
+            "getDataboxEntry",
+            this.strict
+          );
+          assertEntryReturnCode(normalizeReturnCode(response.rc), response.msg);
+          return result;
+        }
+
+        // `streamSoapResult` cancels the unread content when this throws.
+        const returnCode = normalizeReturnCode(extractElementText(result.head, "rc"));
+        if (Number.isFinite(returnCode)) {
+          assertEntryReturnCode(returnCode, extractElementText(result.head, "msg"));
+        }
+        return result;
+      }
+    );
+
+    if (!content) {
+      const returnCode = normalizeReturnCode(extractElementText(head, "rc"));
+      throw new DataboxError("Missing document content", returnCode);
+    }
+    return content;
+  }
 }
 
-function normalizeFileart(value?: string): FileArt {
-  const normalized = (value ?? "").toUpperCase();
-  return normalized === "XML" ? "XML" : "PDF";
+function assertEntryReturnCode(returnCode: number, message: string | null | undefined) {
+  if (returnCode !== 0) {
+    throw returnCodeError(
+      "databox",
+      returnCode,
+      message,
+      "Failed to download databox entry"
+    );
+  }
 }
 
-function normalizeStatus(value?: string): ReadStatus {
-  const normalized = (value ?? "").toUpperCase();
-  return normalized === "READ" ? "READ" : "UNREAD";
+function extractElementText(xml: string, name: string): string | undefined {
+  const match = new RegExp(`<(?:[\\w-]+:)?${name}(?:\\s[^>]*)?>([^<]*)<`).exec(xml);
+  return match?.[1]?.trim();
 }
 
 function normalizeReturnCode(value: number | string | undefined): number {
@@ -0,0 +1,237 @@
+import { Readable } from "node:stream";
+import { DataboxClient } from "./databox.js";
+import { SoapInterceptors } from "./interceptors.js";
+import { FinanzonlineSession } from "./managed.js";
+import { RetryOptions } from "./retry.js";
+import { SessionCache } from "./session-cache.js";
+import { SessionClient } from "./session.js";
+import { splitListRequest } from "./windows.js";
+import { ConfigLoadOptions, loadConfig } from "../config/loader.js";
+import { startOfViennaDay } from "../models/dates.js";
+import { FinanzonlineConfig, FinanzonlineSettings } from "../config/schema.js";
+import {
+  DataboxDocument,
+  DataboxEntry,
+  DataboxFilter,
+  DataboxListRequest,
+  DownloadedDocument,
+  FileArt,
+  FinanzonlineCredentials
+} from "../models/types.js";
+
+export interface FinanzonlineClientOptions {
+  fetcher?: typeof fetch;
+  sessionServiceUrl?: string;
+  databoxServiceUrl?: string;
+  retry?: RetryOptions;
+  interceptors?: SoapInterceptors;
+  maxWindowDays?: number;
+  sessionCache?: SessionCache;
+  /** Overrides `strict_parsing` from the configuration. */
+  strict?: boolean;
+}
+
+export class FinanzonlineClient {
+  readonly credentials: FinanzonlineCredentials;
+  readonly sessionCache: SessionCache | undefined;
+  private readonly sessionClient: SessionClient;
+  private readonly databoxClient: DataboxClient;
+  private session: FinanzonlineSession | undefined;
+
+  constructor(
+    readonly config: FinanzonlineConfig,
+    options: FinanzonlineClientOptions = {}
+  ) {
+    this.credentials = {
+      tid: config.tid,
+      benid: config.benid,
+      pin: config.pin,
+      herstellerid: config.herstellerid
+    };
+
+    this.sessionCache = options.sessionCache ?? sessionCacheFromConfig(config);
+
+    const shared = {
+      strict: options.strict ?? config.strict_parsing,
+      ...(options.fetcher ? { fetcher: options.fetcher } : {}),
+      ...(options.interceptors ? { interceptors: options.interceptors } : {})
+    };
+    const retry = { ...retryOptionsFromConfig(config), ...options.retry };
+    this.sessionClient = new SessionClient({
+      timeoutSeconds: config.session_timeout,
+      retry,
+      ...shared,
+      ...(options.sessionServiceUrl ? { serviceUrl: options.sessionServiceUrl } : {})
+    });
+    this.databoxClient = new DataboxClient({
+      timeoutSeconds: config.query_timeout,
+      retry,
+      ...shared,
+      ...(options.maxWindowDays ? { maxWindowDays: options.maxWindowDays } : {}),
+      ...(options.databoxServiceUrl ? { serviceUrl: options.databoxServiceUrl } : {})
+    });
+  }
+
+  static fromConfig(
+    options: ConfigLoadOptions & FinanzonlineClientOptions = {}
+  ): FinanzonlineClient {
+    const {
+      fetcher,
+      sessionServiceUrl,
+      databoxServiceUrl,
+      retry,
+      interceptors,
+      maxWindowDays,
+      sessionCache,
+      strict,
+      ...loadOptions
+    } = options;
+    const { config } = loadConfig(loadOptions);
+    return new FinanzonlineClient(config, {
+      ...(fetcher ? { fetcher } : {}),
+      ...(retry ? { retry } : {}),
+      ...(interceptors ? { interceptors } : {}),
+      ...(maxWindowDays ? { maxWindowDays } : {}),
+      ...(sessionCache ? { sessionCache } : {}),
+      ...(strict !== undefined ? { strict } : {}),
+      ...(sessionServiceUrl ? { sessionServiceUrl } : {}),
+      ...(databoxServiceUrl ? { databoxServiceUrl } : {})
+    });
+  }
+
+  async list(filter: DataboxFilter = {}): Promise<DataboxEntry[]> {
+    const entries: DataboxEntry[] = [];
+    for await (const entry of this.iterate(filter)) {
+      entries.push(entry);
+    }
+    return entries;
+  }
+
+  async *iterate(filter: DataboxFilter = {}): AsyncGenerator<DataboxEntry> {
+    const status = filter.status ?? "UNREAD";
+    const windows = splitListRequest(
+      buildListRequest(filter),
+      this.databoxClient.maxWindowDays
+    );
+    const seen = new Set<string>();
+
+    for (const window of windows) {
+      const entries = await this.getSession().run((sessionId) =>
+        this.databoxClient.queryDatabox(sessionId, this.credentials, window)
+      );
+      for (const entry of filterByStatus(entries, status)) {
+        if (!seen.has(entry.applkey)) {
+          seen.add(entry.applkey);
+          yield entry;
+        }
+      }
+    }
+  }
+
+  async download(applkey: string): Promise<Buffer> {
+    return this.getSession().run((sessionId) =>
+      this.databoxClient.getDataboxEntry(sessionId, this.credentials, applkey)
+    );
+  }
+
+  async downloadDocument(applkey: string, fileart?: FileArt): Promise<DataboxDocument> {
+    return this.getSession().run((sessionId) =>
+      this.databoxClient.getDataboxDocument(sessionId, this.credentials, applkey, fileart)
+    );
+  }
+
+  async downloadStream(applkey: string): Promise<Readable> {
+    return this.getSession().run((sessionId) =>
+      this.databoxClient.getDataboxEntryStream(sessionId, this.credentials, applkey)
+    );
+  }
+
+  async downloadAll(filter: DataboxFilter = {}): Promise<DownloadedDocument[]> {
+    const entries = await this.list(filter);
+    const documents: DownloadedDocument[] = [];
+
+    for (const entry of entries) {
+      documents.push({ entry, content: await this.download(entry.applkey) });
+    }
+
+    return documents;
+  }
+
+  /** Starts a new session, replacing any active or cached one. */
+  async login(): Promise<string> {
+    return this.getSession().login();
+  }
+
+  /** Logs out the active or cached session instead of keeping it for reuse. */
+  async logout(): Promise<void> {
+    const session = this.getSession();
+    this.session = undefined;
+    await session.logout();
+  }
+
+  async close(): Promise<void> {
+    const session = this.session;
+    this.session = undefined;
+    await session?.close();
+  }
+
+  private getSession(): FinanzonlineSession {
+    this.session ??= new FinanzonlineSession(this.credentials, {
+      sessionClient: this.sessionClient,
+      ...(this.sessionCache ? { cache: this.sessionCache } : {})
+    });
+    return this.session;
+  }
+}
+
+export function sessionCacheFromConfig(config: FinanzonlineSettings): SessionCache | undefined {
+  if (!config.session_cache) {
+    return undefined;
+  }
+  return new SessionCache({
+    ttlSeconds: config.session_cache_ttl,
+    ...(config.session_cache_file ? { filePath: config.session_cache_file } : {})
+  });
+}
+
+export function retryOptionsFromConfig(config: FinanzonlineConfig): RetryOptions {
+  return {
+    maxAttempts: config.retry_attempts,
+    baseDelayMs: config.retry_base_delay * 1000,
+    maxDelayMs: config.retry_max_delay * 1000,
+    jitter: config.retry_jitter,
+    maintenance: {
+      maxAttempts: config.maintenance_retry_attempts,
+      delayMs: config.maintenance_retry_delay * 1000
+    }
+  };
+}
+
+export function buildListRequest(
+  filter: DataboxFilter,
+  now: Date = new Date()
+): DataboxListRequest {
+  const request: DataboxListRequest = {};
+  if (filter.erltyp) {
+    request.erltyp = filter.erltyp;
+  }
+  if (filter.from) {
+    request.ts_zust_von = filter.from;
+  } else if (filter.days) {
+    request.ts_zust_von = startOfViennaDay(now, -filter.days);
+  }
+  if (filter.to) {
+    request.ts_zust_bis = filter.to;
+  }
+  return request;
+}
+
+export function filterByStatus(
+  entries: DataboxEntry[],
+  status: NonNullable<DataboxFilter["status"]>
+): DataboxEntry[] {
+  if (status === "ALL") {
+    return entries;
+  }
+  return entries.filter((entry) => entry.status === status);
+}
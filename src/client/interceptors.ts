@@ -0,0 +1,107 @@
+import fs from "node:fs";
+
+export interface SoapRequestEvent {
+  url: string;
+  action: string;
+  body: string;
+  attempt: number;
+  startedAt: Date;
+}
+
+export interface SoapResponseEvent extends SoapRequestEvent {
+  status: number;
+  responseBody: string;
+  durationMs: number;
+}
+
+export interface SoapErrorEvent extends SoapRequestEvent {
+  error: unknown;
+  durationMs: number;
+}
+
+export interface SoapInterceptors {
+  onRequest?: (event: SoapRequestEvent) => void;
+  onResponse?: (event: SoapResponseEvent) => void;
+  onError?: (event: SoapErrorEvent) => void;
+}
+
+const SECRET_ELEMENT = /<((?:[\w-]+:)?(?:pin|id))(\s[^>]*)?>[^<]*<\/\1>/g;
+const BASE64_RESULT = /<((?:[\w-]+:)?result)(\s[^>]*)?>\s*([A-Za-z0-9+/=\s]{16,})<\/\1>/g;
+
+export function redactSoapXml(xml: string): string {
+  return xml
+    .replace(SECRET_ELEMENT, (_match, tag: string, attrs = "") => `<${tag}${attrs}>***</${tag}>`)
+    .replace(BASE64_RESULT, (_match, tag: string, attrs = "", payload: string) => {
+      const length = payload.replace(/\s+/g, "").length;
+      return `<${tag}${attrs}>[base64 redacted, ${length} chars]</${tag}>`;
+    });
+}
+
+export function combineInterceptors(
+  ...interceptors: (SoapInterceptors | undefined)[]
+): SoapInterceptors {
+  const active = interceptors.filter(
+    (interceptor): interceptor is SoapInterceptors => interceptor !== undefined
+  );
+  return {
+    onRequest: (event) => active.forEach((interceptor) => interceptor.onRequest?.(event)),
+    onResponse: (event) => active.forEach((interceptor) => interceptor.onResponse?.(event)),
+    onError: (event) => active.forEach((interceptor) => interceptor.onError?.(event))
+  };
+}
+
+export function createLoggingInterceptors(
+  write: (line: string) => void
+): SoapInterceptors {
+  return {
+    onRequest: (event) => {
+      write(`--> ${event.action} ${event.url} (attempt ${event.attempt})`);
+      write(redactSoapXml(event.body));
+    },
+    onResponse: (event) => {
+      write(`<-- ${event.action} HTTP ${event.status} in ${event.durationMs}ms`);
+      write(redactSoapXml(event.responseBody));
+    },
+    onError: (event) => {
+      const message = event.error instanceof Error ? event.error.message : String(event.error);
+      write(`<-- ${event.action} failed after ${event.durationMs}ms: ${message}`);
+    }
+  };
+}
+
+export function createTraceFileInterceptors(filePath: string): SoapInterceptors {
+  const append = (record: Record<string, unknown>) => {
+    fs.appendFileSync(filePath, `${JSON.stringify(record)}\n`, { mode: 0o600 });
+  };
+
+  return {
+    onRequest: (event) =>
+      append({
+        type: "request",
+        action: event.action,
+        url: event.url,
+        attempt: event.attempt,
+        at: event.startedAt.toISOString(),
+        body: redactSoapXml(event.body)
+      }),
+    onResponse: (event) =>
+      append({
+        type: "response",
+        action: event.action,
+        url: event.url,
+        attempt: event.attempt,
+        status: event.status,
+        durationMs: event.durationMs,
+        body: redactSoapXml(event.responseBody)
+      }),
+    onError: (event) =>
+      append({
+        type: "error",
+        action: event.action,
+        url: event.url,
+        attempt: event.attempt,
+        durationMs: event.durationMs,
+        error: event.error instanceof Error ? event.error.message : String(event.error)
+      })
+  };
+}
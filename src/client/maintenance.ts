@@ -0,0 +1,159 @@
+import { MaintenanceError, MaintenanceWindow } from "../errors.js";
+import {
+  formatXsdDateTime,
+  fromViennaLocal,
+  LocalDateInput,
+  toViennaParts
+} from "../models/dates.js";
+
+type Day = Pick<LocalDateInput, "year" | "month" | "day">;
+type Role = "start" | "end";
+
+interface TimePoint {
+  day: Day | undefined;
+  hour: number;
+  minute: number;
+  role: Role | undefined;
+}
+
+const DATE_OR_TIME = /(\d{1,2})\.(\d{1,2})\.(\d{4})|\b(\d{1,2}):(\d{2})\b/g;
+const START_WORDS = /\b(?:von|ab|seit|from|since)\b/gi;
+const END_WORDS = /\b(?:bis|until|till)\b/gi;
+const MAX_NOTICE_LENGTH = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  auml: "ä",
+  ouml: "ö",
+  uuml: "ü",
+  Auml: "Ä",
+  Ouml: "Ö",
+  Uuml: "Ü",
+  szlig: "ß"
+};
+
+/**
+ * Reads the announced window from the FinanzOnline maintenance page, e.g.
+ * "Wartungsarbeiten am 18.10.2026 von 22:00 bis 06:00 Uhr". Times are Vienna
+ * local time; an end before the start rolls over to the next day.
+ */
+export function parseMaintenancePage(html: string, now = new Date()): MaintenanceWindow {
+  const notice = htmlToText(html);
+  const points = readTimePoints(notice);
+  const start = points.find((point) => point.role === "start");
+  const end = points.find((point) => point.role === "end");
+  const unassigned = points.filter((point) => point.role === undefined);
+
+  const startPoint = start ?? (unassigned.length > 1 ? unassigned.shift() : undefined);
+  const endPoint = end ?? unassigned.shift();
+  const today = viennaDay(now);
+
+  const startsAt = startPoint ? toDate(startPoint, today) : undefined;
+  let endsAt = endPoint ? toDate(endPoint, startPoint?.day ?? today) : undefined;
+  const reference = startsAt ?? (endPoint?.day ? undefined : now);
+  if (endsAt && endPoint && reference && endsAt.getTime() <= reference.getTime()) {
+    endsAt = toDate({ ...endPoint, day: viennaDay(new Date(endsAt.getTime() + DAY_MS)) }, today);
+  }
+
+  return {
+    ...(startsAt ? { startsAt } : {}),
+    ...(endsAt ? { endsAt } : {}),
+    ...(notice ? { notice: notice.slice(0, MAX_NOTICE_LENGTH) } : {})
+  };
+}
+
+export function maintenanceError(html: string, now = new Date()): MaintenanceError {
+  const window = parseMaintenancePage(html, now);
+  const until = window.endsAt ? ` until ${formatXsdDateTime(window.endsAt)}` : "";
+  return new MaintenanceError(`FinanzOnline is in maintenance mode${until}.`, window);
+}
+
+function readTimePoints(text: string): TimePoint[] {
+  const points: TimePoint[] = [];
+  let day: Day | undefined;
+  let dayRole: Role | undefined;
+  let lastEnd = 0;
+
+  for (const match of text.matchAll(DATE_OR_TIME)) {
+    const role = roleBetween(text.slice(lastEnd, match.index));
+    lastEnd = match.index + match[0].length;
+
+    if (match[3] !== undefined) {
+      day = { year: Number(match[3]), month: Number(match[2]), day: Number(match[1]) };
+      dayRole = role;
+      continue;
+    }
+
+    points.push({
+      day,
+      hour: Number(match[4]),
+      minute: Number(match[5]),
+      role: role ?? dayRole
+    });
+    dayRole = undefined;
+  }
+
+  return points;
+}
+
+/** The role of the last "von"/"bis" style keyword in the text. */
+function roleBetween(text: string): Role | undefined {
+  const start = lastIndex(text, START_WORDS);
+  const end = lastIndex(text, END_WORDS);
+  if (start < 0 && end < 0) {
+    return undefined;
+  }
+  return end > start ? "end" : "start";
+}
+
+function lastIndex(text: string, pattern: RegExp): number {
+  let index = -1;
+  for (const match of text.matchAll(pattern)) {
+    index = match.index;
+  }
+  return index;
+}
+
+function toDate(point: TimePoint, fallbackDay: Day): Date {
+  return fromViennaLocal({ ...(point.day ?? fallbackDay), hour: point.hour, minute: point.minute });
+}
+
+function viennaDay(date: Date): Day {
+  const { year, month, day } = toViennaParts(date);
+  return { year, month, day };
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|head)\b[\s\S]*?<\/\1\s*>/gi, " ")
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&(#\d+|#x[\da-f]+|\w+);/gi, (entity, name: string) => decodeEntity(entity, name))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function decodeEntity(entity: string, name: string): string {
+  if (name.startsWith("#x") || name.startsWith("#X")) {
+    return fromCodePoint(entity, Number.parseInt(name.slice(2), 16));
+  }
+  if (name.startsWith("#")) {
+    return fromCodePoint(entity, Number(name.slice(1)));
+  }
+  return ENTITIES[name] ?? entity;
+}
+
+/** Keeps `entity` as written when it names no character (`&#99999999;`, a surrogate). */
+function fromCodePoint(entity: string, codePoint: number): string {
+  const valid =
+    Number.isInteger(codePoint) &&
+    codePoint > 0 &&
+    codePoint <= 0x10ffff &&
+    (codePoint < 0xd800 || codePoint > 0xdfff);
+  return valid ? String.fromCodePoint(codePoint) : entity;
+}
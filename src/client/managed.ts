@@ -0,0 +1,168 @@
+import { SessionCache } from "./session-cache.js";
+import { SessionClient, SessionClientOptions } from "./session.js";
+import { SessionExpiredError } from "../errors.js";
+import { FinanzonlineCredentials } from "../models/types.js";
+
+export interface ManagedSessionOptions extends SessionClientOptions {
+  sessionClient?: SessionClient;
+  /** Reuse session ids across processes; `close()` then keeps the session open. */
+  cache?: SessionCache;
+}
+
+export interface WithSessionOptions extends ManagedSessionOptions {
+  signals?: NodeJS.Signals[];
+}
+
+export type SessionOperation<T> = (sessionId: string) => Promise<T>;
+
+export class FinanzonlineSession {
+  private readonly sessionClient: SessionClient;
+  private readonly cache: SessionCache | undefined;
+  private pendingLogin: Promise<string> | undefined;
+  private sessionId: string | undefined;
+  private closed = false;
+
+  constructor(
+    private readonly credentials: FinanzonlineCredentials,
+    options: ManagedSessionOptions = {}
+  ) {
+    const { sessionClient, cache, ...clientOptions } = options;
+    this.sessionClient = sessionClient ?? new SessionClient(clientOptions);
+    this.cache = cache;
+  }
+
+  get isActive(): boolean {
+    return this.sessionId !== undefined;
+  }
+
+  async getSessionId(): Promise<string> {
+    if (this.closed) {
+      throw new SessionExpiredError("Session has been closed", -1);
+    }
+
+    if (this.sessionId) {
+      return this.sessionId;
+    }
+
+    const cached = this.cache?.getFresh(this.credentials);
+    if (cached && !this.pendingLogin) {
+      this.sessionId = cached;
+      return cached;
+    }
+
+    return this.login();
+  }
+
+  /** Logs in even if a session is active or cached, replacing it. */
+  async login(): Promise<string> {
+    if (!this.pendingLogin) {
+      this.pendingLogin = this.sessionClient
+        .login(this.credentials)
+        .then((info) => {
+          this.sessionId = info.sessionId;
+          this.cache?.store(this.credentials, info.sessionId);
+          return info.sessionId;
+        })
+        .finally(() => {
+          this.pendingLogin = undefined;
+        });
+    }
+
+    return this.pendingLogin;
+  }
+
+  async run<T>(operation: SessionOperation<T>): Promise<T> {
+    const sessionId = await this.getSessionId();
+
+    try {
+      const result = await operation(sessionId);
+      this.cache?.touch(this.credentials, sessionId);
+      return result;
+    } catch (error) {
+      if (!(error instanceof SessionExpiredError) || this.closed) {
+        throw error;
+      }
+
+      if (this.sessionId === sessionId) {
+        this.sessionId = undefined;
+      }
+      this.cache?.remove(this.credentials, sessionId);
+
+      const renewed = await this.getSessionId();
+      const result = await operation(renewed);
+      this.cache?.touch(this.credentials, renewed);
+      return result;
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.cache) {
+      // Keep the server session alive for the next invocation.
+      this.closed = true;
+      this.sessionId = undefined;
+      await this.pendingLogin?.catch(() => undefined);
+      return;
+    }
+    await this.logout();
+  }
+
+  /** Ends the active or cached session on the server and forgets it. */
+  async logout(): Promise<void> {
+    this.closed = true;
+
+    const sessionId =
+      this.sessionId ??
+      (await this.pendingLogin?.catch(() => undefined)) ??
+      this.cache?.get(this.credentials)?.sessionId;
+    this.sessionId = undefined;
+
+    if (!sessionId) {
+      return;
+    }
+    this.cache?.remove(this.credentials, sessionId);
+
+    try {
+      await this.sessionClient.logout(sessionId, this.credentials);
+    } catch {
+      // Logout is best effort; the server expires the session eventually.
+    }
+  }
+}
+
+export async function withSession<T>(
+  credentials: FinanzonlineCredentials,
+  fn: (session: FinanzonlineSession) => Promise<T>,
+  options: WithSessionOptions = {}
+): Promise<T> {
+  const { signals = [], ...sessionOptions } = options;
+  const session = new FinanzonlineSession(credentials, sessionOptions);
+  const release = closeOnSignals(session, signals);
+
+  try {
+    return await fn(session);
+  } finally {
+    release();
+    await session.close();
+  }
+}
+
+export function closeOnSignals(
+  closeable: { close(): Promise<void> },
+  signals: NodeJS.Signals[]
+): () => void {
+  const onSignal = (signal: NodeJS.Signals) => {
+    void closeable.close().finally(() => {
+      process.exit(signal === "SIGINT" ? 130 : 143);
+    });
+  };
+
+  for (const signal of signals) {
+    process.once(signal, onSignal);
+  }
+
+  return () => {
+    for (const signal of signals) {
+      process.removeListener(signal, onSignal);
+    }
+  };
+}
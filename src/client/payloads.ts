@@ -0,0 +1,176 @@
+import { z } from "zod";
+import { ResponseValidationError } from "../errors.js";
+import { parseXsdDate, parseXsdDateTime } from "../models/dates.js";
+import { DataboxEntry } from "../models/types.js";
+
+// fast-xml-parser turns numeric element text such as `<stnr>999</stnr>` into numbers.
+const asText = (value: unknown) => (typeof value === "number" ? String(value) : value);
+
+const text = z.preprocess(asText, z.string().nullable().transform((value) => value ?? ""));
+
+const requiredText = z.preprocess(asText, z.string().trim().min(1, "Must not be empty"));
+
+const upperCase = (value: unknown) =>
+  typeof value === "string" ? value.trim().toUpperCase() : value;
+
+const returnCode = z.preprocess(
+  (value) => (typeof value === "string" && value.trim() !== "" ? Number(value) : value),
+  z.number().int()
+);
+
+const message = z.preprocess(asText, z.string().nullable().optional());
+
+function xsdDate(parse: (value: string) => Date | null, type: string) {
+  // An empty or nil element means the document has no such date.
+  return z
+    .string()
+    .nullable()
+    .transform((value, ctx) => {
+      if (!value?.trim()) {
+        return null;
+      }
+      const parsed = parse(value);
+      if (!parsed) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Expected an xsd:${type}, received "${value}"`
+        });
+        return z.NEVER;
+      }
+      return parsed;
+    });
+}
+
+export const databoxEntrySchema = z.object({
+  stnr: requiredText,
+  name: text,
+  anbringen: text,
+  zrvon: text,
+  zrbis: text,
+  datbesch: xsdDate(parseXsdDate, "date"),
+  erltyp: requiredText,
+  fileart: z.preprocess(upperCase, z.enum(["PDF", "XML"])),
+  ts_zust: xsdDate(parseXsdDateTime, "dateTime"),
+  applkey: requiredText,
+  filebez: text,
+  status: z.preprocess(upperCase, z.enum(["READ", "UNREAD"]))
+});
+
+type DataboxEntryFields = z.output<typeof databoxEntrySchema>;
+
+/** What lenient parsing substitutes for a field that fails validation. */
+const ENTRY_FALLBACKS: DataboxEntryFields = {
+  stnr: "",
+  name: "",
+  anbringen: "",
+  zrvon: "",
+  zrbis: "",
+  datbesch: null,
+  erltyp: "",
+  fileart: "PDF",
+  ts_zust: null,
+  applkey: "",
+  filebez: "",
+  status: "UNREAD"
+};
+
+export const databoxListResponseSchema = z.object({
+  rc: returnCode,
+  msg: message,
+  // Entries are validated one by one so that errors can name their applkey.
+  result: z.unknown().optional()
+});
+
+export const databoxEntryResponseSchema = z.object({
+  rc: returnCode,
+  msg: message,
+  result: z.preprocess(asText, z.string().optional())
+});
+
+export const loginResponseSchema = z.object({
+  rc: returnCode,
+  msg: message,
+  id: z.preprocess(asText, z.string().optional())
+});
+
+export const logoutResponseSchema = z.object({
+  rc: returnCode,
+  msg: message
+});
+
+/**
+ * Validates a SOAP payload. Strict parsing throws a `ResponseValidationError`;
+ * otherwise a payload that does not match is passed on as received.
+ */
+export function parsePayload<T extends z.ZodTypeAny>(
+  schema: T,
+  payload: unknown,
+  operation: string,
+  strict: boolean
+): z.output<T> {
+  const parsed = schema.safeParse(payload);
+  if (parsed.success) {
+    return parsed.data;
+  }
+  if (strict) {
+    throw validationError(operation, parsed.error);
+  }
+  return payload as z.output<T>;
+}
+
+/**
+ * Turns a raw `getDatabox` result into an entry. Strict parsing rejects any
+ * invalid field; lenient parsing replaces it with a fallback and records a
+ * warning on the entry.
+ */
+export function parseDataboxEntry(raw: unknown, strict: boolean): DataboxEntry {
+  const parsed = databoxEntrySchema.safeParse(raw);
+  if (parsed.success) {
+    return parsed.data;
+  }
+
+  const record = isRecord(raw) ? raw : {};
+  const applkey = asText(record.applkey);
+  if (strict) {
+    throw validationError("getDatabox", parsed.error, {
+      entry: true,
+      ...(typeof applkey === "string" && applkey ? { applkey } : {})
+    });
+  }
+
+  const entry: Record<string, unknown> = {};
+  const warnings: string[] = [];
+  for (const [field, schema] of Object.entries(databoxEntrySchema.shape)) {
+    const result = schema.safeParse(record[field]);
+    if (result.success) {
+      entry[field] = result.data;
+    } else {
+      const fallback = ENTRY_FALLBACKS[field as keyof DataboxEntryFields];
+      entry[field] = fallback;
+      warnings.push(
+        `${field}: ${result.error.issues[0]?.message ?? "Invalid value"} ` +
+          `(using ${JSON.stringify(fallback)})`
+      );
+    }
+  }
+  return { ...(entry as DataboxEntryFields), warnings };
+}
+
+function validationError(
+  operation: string,
+  error: z.ZodError,
+  { entry = false, applkey }: { entry?: boolean; applkey?: string } = {}
+): ResponseValidationError {
+  const fields = [...new Set(error.issues.map((issue) => issue.path.join(".") || "payload"))];
+  const details = error.issues
+    .map((issue) => `${issue.path.join(".") || "payload"}: ${issue.message}`)
+    .join("; ");
+  const subject = entry
+    ? `${operation} entry${applkey ? ` ${applkey}` : ""}`
+    : `${operation} response`;
+  return new ResponseValidationError(`Invalid ${subject}: ${details}`, operation, fields, applkey);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,125 @@
+import {
+  InvalidCredentialsError,
+  MaintenanceError,
+  NetworkError,
+  SessionExpiredError
+} from "../errors.js";
+import { explainError } from "./return-codes.js";
+
+export type ErrorClass = abstract new (...args: never[]) => Error;
+
+export interface MaintenanceRetryPolicy {
+  maxAttempts: number;
+  delayMs: number;
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: number;
+  retryOn: ErrorClass[];
+  maintenance: MaintenanceRetryPolicy;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+  now?: () => Date;
+}
+
+export type RetryOptions = Partial<Omit<RetryPolicy, "maintenance">> & {
+  maintenance?: Partial<MaintenanceRetryPolicy>;
+};
+
+export const NO_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 1,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+  jitter: 0.2,
+  retryOn: [NetworkError],
+  maintenance: { maxAttempts: 1, delayMs: 300_000 }
+};
+
+export function resolveRetryPolicy(options: RetryOptions = {}): RetryPolicy {
+  const { maintenance, ...rest } = options;
+  return {
+    ...NO_RETRY_POLICY,
+    ...stripUndefined(rest),
+    maintenance: { ...NO_RETRY_POLICY.maintenance, ...stripUndefined(maintenance ?? {}) }
+  };
+}
+
+export function isRetryable(error: unknown, policy: RetryPolicy): boolean {
+  // Never retry rejected credentials: repeated failures lock the webservice user.
+  if (error instanceof InvalidCredentialsError || error instanceof MaintenanceError) {
+    return false;
+  }
+
+  // Return codes follow the catalog. An expired session needs a new login, not a resend.
+  const info = explainError(error);
+  if (info) {
+    return info.retryable && !(error instanceof SessionExpiredError);
+  }
+
+  if (error instanceof NetworkError && error.status !== undefined) {
+    const transient = error.status >= 500 || error.status === 408 || error.status === 429;
+    if (!transient) {
+      return false;
+    }
+  }
+
+  return policy.retryOn.some((errorClass) => error instanceof errorClass);
+}
+
+export function computeDelay(attempt: number, policy: RetryPolicy): number {
+  const exponential = policy.baseDelayMs * 2 ** (attempt - 1);
+  const capped = Math.min(policy.maxDelayMs, exponential);
+  const random = (policy.random ?? Math.random)();
+  const factor = 1 + policy.jitter * (2 * random - 1);
+  return Math.max(0, Math.round(capped * factor));
+}
+
+/** Waits for the announced end of the window when the maintenance page names one. */
+export function maintenanceDelay(error: MaintenanceError, policy: RetryPolicy): number {
+  const now = (policy.now ?? (() => new Date()))().getTime();
+  const untilEnd = error.endsAt ? error.endsAt.getTime() - now : 0;
+  return untilEnd > 0 ? untilEnd : policy.maintenance.delayMs;
+}
+
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy
+): Promise<T> {
+  const sleep = policy.sleep ?? defaultSleep;
+  let attempts = 0;
+  let maintenanceAttempts = 0;
+
+  while (true) {
+    try {
+      return await operation(attempts + maintenanceAttempts + 1);
+    } catch (error) {
+      if (error instanceof MaintenanceError) {
+        maintenanceAttempts += 1;
+        if (maintenanceAttempts >= policy.maintenance.maxAttempts) {
+          throw error;
+        }
+        await sleep(maintenanceDelay(error, policy));
+        continue;
+      }
+
+      attempts += 1;
+      if (attempts >= policy.maxAttempts || !isRetryable(error, policy)) {
+        throw error;
+      }
+      await sleep(computeDelay(attempts, policy));
+    }
+  }
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined)
+  ) as Partial<T>;
+}
@@ -0,0 +1,190 @@
+import {
+  DataboxError,
+  FinanzonlineError,
+  InvalidCredentialsError,
+  InvalidDateRangeError,
+  MaintenanceError,
+  NotAuthorizedError,
+  SessionError,
+  SessionExpiredError,
+  UserLockedError
+} from "../errors.js";
+
+export type ReturnCodeService = "session" | "databox";
+
+export interface ReturnCodeInfo {
+  service: ReturnCodeService;
+  code: number;
+  name: string;
+  de: string;
+  en: string;
+  /** `withRetry` retries these; rc=-1 is instead handled by a re-login in the session. */
+  retryable: boolean;
+  action: string;
+  create: (message: string, returnCode: number) => FinanzonlineError;
+}
+
+type CatalogEntry = Omit<ReturnCodeInfo, "service" | "create"> & {
+  create?: ReturnCodeInfo["create"];
+};
+
+// Codes shared by the session and DataBox webservices.
+const COMMON_CODES: CatalogEntry[] = [
+  {
+    code: -1,
+    name: "SESSION_INVALID",
+    de: "Die Session-ID ist ungültig oder abgelaufen.",
+    en: "The session id is invalid or has expired.",
+    retryable: true,
+    action: "Log in again; the client does this once automatically.",
+    create: (message, rc) => new SessionExpiredError(message, rc)
+  },
+  {
+    code: -2,
+    name: "MAINTENANCE",
+    de: "Der Aufruf des Webservices ist derzeit wegen Wartungsarbeiten nicht möglich.",
+    en: "The webservice is currently unavailable due to maintenance.",
+    retryable: true,
+    action: "Try again after the maintenance window (`finanzonline status`).",
+    create: (message, rc) => new MaintenanceError(message, {}, rc)
+  },
+  {
+    code: -3,
+    name: "TECHNICAL_ERROR",
+    de: "Es ist ein technischer Fehler aufgetreten.",
+    en: "A technical error occurred on the server.",
+    retryable: true,
+    action: "Try again later; contact the BMF hotline if it persists."
+  }
+];
+
+const SESSION_CODES: CatalogEntry[] = [
+  {
+    code: -4,
+    name: "INVALID_CREDENTIALS",
+    de: "Die angegebenen Zugangsdaten sind nicht gültig.",
+    en: "The credentials are not valid.",
+    retryable: false,
+    action:
+      "Check tid, benid, PIN and herstellerid. Do not retry blindly: repeated failures lock the user.",
+    create: (message, rc) => new InvalidCredentialsError(message, rc)
+  },
+  {
+    code: -5,
+    name: "USER_LOCKED_FAILED_LOGINS",
+    de: "Der Benutzer wurde wegen zu vieler ungültiger Anmeldeversuche gesperrt.",
+    en: "The user is locked after too many failed login attempts.",
+    retryable: false,
+    action: "Ask the FinanzOnline supervisor of the participant to unlock the webservice user.",
+    create: (message, rc) => new UserLockedError(message, rc)
+  },
+  {
+    code: -6,
+    name: "USER_LOCKED",
+    de: "Der Benutzer ist gesperrt.",
+    en: "The user is locked.",
+    retryable: false,
+    action: "Ask the FinanzOnline supervisor of the participant to unlock the user.",
+    create: (message, rc) => new UserLockedError(message, rc)
+  },
+  {
+    code: -7,
+    name: "NOT_WEBSERVICE_USER",
+    de: "Der Benutzer ist kein Webservice-Benutzer.",
+    en: "The user is not a webservice user.",
+    retryable: false,
+    action:
+      "Create a dedicated webservice user in FinanzOnline (Admin > Benutzer) and use its benid.",
+    create: (message, rc) => new NotAuthorizedError(message, rc)
+  },
+  {
+    code: -8,
+    name: "PARTICIPANT_NOT_AUTHORIZED",
+    de: "Der Teilnehmer ist für FinanzOnline gesperrt oder nicht für Webservices berechtigt.",
+    en: "The participant is locked or not authorized to use webservices.",
+    retryable: false,
+    action: "Check that the participant (tid) may use webservices and is not locked.",
+    create: (message, rc) => new NotAuthorizedError(message, rc)
+  }
+];
+
+const DATABOX_CODES: CatalogEntry[] = [
+  {
+    code: -4,
+    name: "FROM_TOO_OLD",
+    de: "ts_zust_von darf höchstens 31 Tage in der Vergangenheit liegen.",
+    en: "ts_zust_von must not be more than 31 days in the past.",
+    retryable: false,
+    action: "Use a later --from date or --days 31 or less.",
+    create: (message, rc) => new InvalidDateRangeError(message, rc)
+  },
+  {
+    code: -5,
+    name: "RANGE_TOO_LONG",
+    de: "ts_zust_bis darf höchstens 7 Tage nach ts_zust_von liegen.",
+    en: "ts_zust_bis must not be more than 7 days after ts_zust_von.",
+    retryable: false,
+    action: "Use a shorter range; the client splits ranges into 7-day windows by default.",
+    create: (message, rc) => new InvalidDateRangeError(message, rc)
+  },
+  {
+    code: -6,
+    name: "RANGE_INVERTED",
+    de: "ts_zust_von muss vor ts_zust_bis liegen.",
+    en: "ts_zust_von must be before ts_zust_bis.",
+    retryable: false,
+    action: "Swap --from and --to.",
+    create: (message, rc) => new InvalidDateRangeError(message, rc)
+  }
+];
+
+export const RETURN_CODES: readonly ReturnCodeInfo[] = [
+  ...withService("session", [...COMMON_CODES, ...SESSION_CODES]),
+  ...withService("databox", [...COMMON_CODES, ...DATABOX_CODES])
+];
+
+export function describeReturnCode(
+  service: ReturnCodeService,
+  code: number
+): ReturnCodeInfo | undefined {
+  return RETURN_CODES.find((info) => info.service === service && info.code === code);
+}
+
+/** Builds the typed error for a non-zero return code, falling back to the service's base error. */
+export function returnCodeError(
+  service: ReturnCodeService,
+  code: number,
+  serverMessage: string | null | undefined,
+  fallbackMessage: string
+): FinanzonlineError {
+  const info = describeReturnCode(service, code);
+  const message = serverMessage || info?.en || fallbackMessage;
+  return info ? info.create(message, code) : baseError(service)(message, code);
+}
+
+/** Looks up the catalog entry behind an error thrown for a return code. */
+export function explainError(error: unknown): ReturnCodeInfo | undefined {
+  if (!(error instanceof FinanzonlineError)) {
+    return undefined;
+  }
+  const code = (error as { returnCode?: unknown }).returnCode;
+  if (typeof code !== "number") {
+    return undefined;
+  }
+  const service: ReturnCodeService = error instanceof DataboxError ? "databox" : "session";
+  return describeReturnCode(service, code);
+}
+
+function withService(service: ReturnCodeService, entries: CatalogEntry[]): ReturnCodeInfo[] {
+  return entries.map((entry) => ({
+    ...entry,
+    service,
+    create: entry.create ?? baseError(service)
+  }));
+}
+
+function baseError(service: ReturnCodeService): ReturnCodeInfo["create"] {
+  return service === "session"
+    ? (message, rc) => new SessionError(message, rc)
+    : (message, rc) => new DataboxError(message, rc);
+}
@@ -0,0 +1,134 @@
+import fs from "node:fs";
+import path from "node:path";
+import { FinanzonlineCredentials } from "../models/types.js";
+
+export const SESSION_CACHE_FILE_NAME = ".finanzonline-sessions.json";
+
+export const DEFAULT_SESSION_CACHE_TTL_SECONDS = 600;
+
+export interface CachedSession {
+  tid: string;
+  benid: string;
+  sessionId: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+}
+
+export interface SessionCacheOptions {
+  filePath?: string;
+  ttlSeconds?: number;
+  now?: () => Date;
+}
+
+type CacheKey = Pick<FinanzonlineCredentials, "tid" | "benid">;
+
+interface StoredSession {
+  tid: string;
+  benid: string;
+  sessionId: string;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+export function defaultSessionCachePath(env: NodeJS.ProcessEnv = process.env): string {
+  const homeDir = env.HOME ?? env.USERPROFILE ?? process.cwd();
+  return path.join(homeDir, SESSION_CACHE_FILE_NAME);
+}
+
+/**
+ * Session ids shared between CLI invocations, keyed by tid/benid. A session
+ * counts as fresh while it was last used less than `ttlSeconds` ago.
+ */
+export class SessionCache {
+  readonly filePath: string;
+  readonly ttlSeconds: number;
+  private readonly now: () => Date;
+
+  constructor(options: SessionCacheOptions = {}) {
+    this.filePath = options.filePath ?? defaultSessionCachePath();
+    this.ttlSeconds = options.ttlSeconds ?? DEFAULT_SESSION_CACHE_TTL_SECONDS;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  get(key: CacheKey): CachedSession | undefined {
+    const stored = this.read()[cacheKey(key)];
+    if (!stored) {
+      return undefined;
+    }
+    return {
+      ...stored,
+      createdAt: new Date(stored.createdAt),
+      lastUsedAt: new Date(stored.lastUsedAt)
+    };
+  }
+
+  getFresh(key: CacheKey): string | undefined {
+    const cached = this.get(key);
+    return cached && this.isFresh(cached) ? cached.sessionId : undefined;
+  }
+
+  isFresh(cached: CachedSession): boolean {
+    return this.now().getTime() - cached.lastUsedAt.getTime() < this.ttlSeconds * 1000;
+  }
+
+  expiresAt(cached: CachedSession): Date {
+    return new Date(cached.lastUsedAt.getTime() + this.ttlSeconds * 1000);
+  }
+
+  store(key: CacheKey, sessionId: string): void {
+    const at = this.now().toISOString();
+    this.update((entries) => {
+      entries[cacheKey(key)] = {
+        tid: key.tid,
+        benid: key.benid,
+        sessionId,
+        createdAt: at,
+        lastUsedAt: at
+      };
+    });
+  }
+
+  touch(key: CacheKey, sessionId: string): void {
+    this.update((entries) => {
+      const entry = entries[cacheKey(key)];
+      if (entry?.sessionId === sessionId) {
+        entry.lastUsedAt = this.now().toISOString();
+      }
+    });
+  }
+
+  /** Removes the entry; with `sessionId`, only if it still holds that session. */
+  remove(key: CacheKey, sessionId?: string): void {
+    this.update((entries) => {
+      const name = cacheKey(key);
+      if (sessionId === undefined || entries[name]?.sessionId === sessionId) {
+        delete entries[name];
+      }
+    });
+  }
+
+  private read(): Record<string, StoredSession> {
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as unknown;
+      return typeof parsed === "object" && parsed !== null
+        ? (parsed as Record<string, StoredSession>)
+        : {};
+    } catch {
+      // A missing or unreadable cache just means a fresh login.
+      return {};
+    }
+  }
+
+  private update(mutate: (entries: Record<string, StoredSession>) => void): void {
+    const entries = this.read();
+    mutate(entries);
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, `${JSON.stringify(entries, null, 2)}\n`, { mode: 0o600 });
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+function cacheKey(key: CacheKey): string {
+  return `${key.tid}/${key.benid}`;
+}
@@ -3,40 +3,40 @@ import {
   SOAP_NAMESPACES,
   sendSoapRequest
 } from "./soap.js";
-import {
-  InvalidCredentialsError,
-  SessionError
-} from "../errors.js";
+import { SoapInterceptors } from "./interceptors.js";
+import { loginResponseSchema, logoutResponseSchema, parsePayload } from "./payloads.js";
+import { resolveRetryPolicy, RetryOptions, RetryPolicy } from "./retry.js";
+import { returnCodeError } from "./return-codes.js";
+import { SessionError } from "../errors.js";
 import { FinanzonlineCredentials, SessionInfo } from "../models/types.js";
 
-const SESSION_SERVICE_URL = "https://finanzonline.bmf.gv.at:443/fonws/ws/session";
-
-interface LoginResponse {
-  id?: string;
-  rc?: number | string;
-  msg?: string;
-}
-
-interface LogoutResponse {
-  rc?: number | string;
-  msg?: string;
-}
+export const SESSION_SERVICE_URL = "https://finanzonline.bmf.gv.at:443/fonws/ws/session";
 
 export interface SessionClientOptions {
   timeoutSeconds?: number;
   fetcher?: typeof fetch;
   serviceUrl?: string;
+  retry?: RetryOptions;
+  interceptors?: SoapInterceptors;
+  /** Reject responses that do not match the expected schema. */
+  strict?: boolean;
 }
 
 export class SessionClient {
   private readonly timeoutMs: number;
   private readonly fetcher: typeof fetch | undefined;
   private readonly serviceUrl: string;
+  private readonly retry: RetryPolicy;
+  private readonly interceptors: SoapInterceptors | undefined;
+  private readonly strict: boolean;
 
   constructor(options: SessionClientOptions = {}) {
     this.timeoutMs = (options.timeoutSeconds ?? 30) * 1000;
     this.fetcher = options.fetcher;
     this.serviceUrl = options.serviceUrl ?? SESSION_SERVICE_URL;
+    this.retry = resolveRetryPolicy(options.retry);
+    this.interceptors = options.interceptors;
+    this.strict = options.strict ?? false;
   }
 
   async login(credentials: FinanzonlineCredentials): Promise<SessionInfo> {
@@ -47,32 +47,30 @@ export class SessionClient {
       herstellerid: credentials.herstellerid
     });
 
-    const response = await sendSoapRequest<LoginResponse>({
-      url: this.serviceUrl,
-      action: "login",
-      body,
-      timeoutMs: this.timeoutMs,
-      ...(this.fetcher ? { fetcher: this.fetcher } : {})
-    });
+    const response = await sendSoapRequest(
+      {
+        url: this.serviceUrl,
+        action: "login",
+        body,
+        timeoutMs: this.timeoutMs,
+        retry: this.retry,
+        ...(this.fetcher ? { fetcher: this.fetcher } : {}),
+        ...(this.interceptors ? { interceptors: this.interceptors } : {})
+      },
+      (payload) => {
+        const response = parsePayload(loginResponseSchema, payload, "login", this.strict);
+        const returnCode = normalizeReturnCode(response.rc);
+        if (returnCode !== 0) {
+          throw returnCodeError("session", returnCode, response.msg, "Session login failed");
+        }
+        return response;
+      }
+    );
 
     const returnCode = normalizeReturnCode(response.rc);
     const message = response.msg ?? "";
     const sessionId = response.id ?? "";
 
-    if (returnCode === -4) {
-      throw new InvalidCredentialsError(
-        message || "Invalid credentials",
-        returnCode
-      );
-    }
-
-    if (returnCode !== 0) {
-      throw new SessionError(
-        message || "Session login failed",
-        returnCode
-      );
-    }
-
     if (!sessionId) {
       throw new SessionError("Session ID missing in response", returnCode);
     }
@@ -87,13 +85,16 @@ export class SessionClient {
       id: sessionId
     });
 
-    const response = await sendSoapRequest<LogoutResponse>({
+    const payload = await sendSoapRequest<unknown>({
       url: this.serviceUrl,
       action: "logout",
       body,
       timeoutMs: this.timeoutMs,
-      ...(this.fetcher ? { fetcher: this.fetcher } : {})
+      retry: this.retry,
+      ...(this.fetcher ? { fetcher: this.fetcher } : {}),
+      ...(this.interceptors ? { interceptors: this.interceptors } : {})
     });
+    const response = parsePayload(logoutResponseSchema, payload, "logout", this.strict);
 
     const returnCode = normalizeReturnCode(response.rc);
     return returnCode === 0;
@@ -0,0 +1,107 @@
+import { SoapFaultError } from "../errors.js";
+
+type XmlNode = Record<string, unknown>;
+
+const FAULT_ELEMENT = /<((?:[\w.-]+:)?)Fault\b[\s\S]*?<\/\1Fault\s*>/;
+
+/**
+ * Turns a parsed SOAP 1.1 (`faultcode`/`faultstring`/`detail`) or SOAP 1.2
+ * (`Code`/`Reason`/`Detail`) fault into a `SoapFaultError`.
+ */
+export function parseSoapFault(fault: unknown, xml: string, status?: number): SoapFaultError {
+  const node = isNode(fault) ? fault : {};
+  const rawFault = FAULT_ELEMENT.exec(xml)?.[0];
+  const base = {
+    ...(rawFault ? { rawFault } : {}),
+    ...(status !== undefined ? { status } : {})
+  };
+
+  if ("Code" in node || "Reason" in node) {
+    const code = codeNode(node.Code);
+    const detail = normalizeXmlNode(node.Detail);
+    return new SoapFaultError(reasonText(node.Reason) ?? "SOAP fault", textOf(code?.Value), {
+      ...base,
+      soapVersion: "1.2",
+      subcodes: subcodes(code),
+      ...(isPresent(detail) ? { detail } : {})
+    });
+  }
+
+  const detail = normalizeXmlNode(node.detail);
+  const actor = textOf(node.faultactor);
+  return new SoapFaultError(textOf(node.faultstring) ?? "SOAP fault", textOf(node.faultcode), {
+    ...base,
+    soapVersion: "1.1",
+    ...(actor ? { actor } : {}),
+    ...(isPresent(detail) ? { detail } : {})
+  });
+}
+
+/**
+ * Drops attributes such as namespace declarations and `xsi:type`, unwraps
+ * text-only elements and maps `xsi:nil="true"` elements to `null`.
+ */
+export function normalizeXmlNode(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(normalizeXmlNode);
+  }
+  if (!isNode(value)) {
+    return value;
+  }
+  if (value["@_nil"] === "true" || value["@_nil"] === "1") {
+    return null;
+  }
+
+  const entries = Object.entries(value).filter(([key]) => !key.startsWith("@_"));
+  if (entries.length === 0) {
+    return "";
+  }
+  if (entries.length === 1 && entries[0]?.[0] === "#text") {
+    return entries[0][1];
+  }
+  return Object.fromEntries(entries.map(([key, child]) => [key, normalizeXmlNode(child)]));
+}
+
+function reasonText(reason: unknown): string | undefined {
+  if (!isNode(reason)) {
+    return textOf(reason);
+  }
+  const texts = Array.isArray(reason.Text) ? reason.Text : [reason.Text];
+  return textOf(texts[0]);
+}
+
+function subcodes(code: XmlNode | undefined): string[] {
+  const values: string[] = [];
+  let current = codeNode(code?.Subcode);
+  while (current) {
+    const value = textOf(current.Value);
+    if (value) {
+      values.push(value);
+    }
+    current = codeNode(current.Subcode);
+  }
+  return values;
+}
+
+function codeNode(value: unknown): XmlNode | undefined {
+  return isNode(value) ? value : undefined;
+}
+
+function textOf(value: unknown): string | undefined {
+  const normalized = normalizeXmlNode(value);
+  if (typeof normalized === "string") {
+    return normalized.trim() || undefined;
+  }
+  if (typeof normalized === "number" || typeof normalized === "boolean") {
+    return String(normalized);
+  }
+  return undefined;
+}
+
+function isPresent(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== "";
+}
+
+function isNode(value: unknown): value is XmlNode {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
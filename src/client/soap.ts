@@ -6,6 +6,11 @@ import {
   NetworkError,
   SoapFaultError
 } from "../errors.js";
+import { formatXsdDateTime } from "../models/dates.js";
+import { SoapInterceptors } from "./interceptors.js";
+import { maintenanceError } from "./maintenance.js";
+import { RetryPolicy, withRetry } from "./retry.js";
+import { normalizeXmlNode, parseSoapFault } from "./soap-fault.js";
 
 const SOAP_ENV_NS = "http://schemas.xmlsoap.org/soap/envelope/";
 
@@ -15,6 +20,8 @@ export interface SoapRequestOptions {
   body: string;
   timeoutMs: number;
   fetcher?: typeof fetch;
+  retry?: RetryPolicy;
+  interceptors?: SoapInterceptors;
 }
 
 export const SOAP_NAMESPACES = {
@@ -31,7 +38,7 @@ export function buildSoapEnvelope(
     .filter(([, value]) => value !== undefined && value !== null)
     .map(([key, value]) => {
       if (value instanceof Date) {
-        return `<ns:${key}>${escapeXml(value.toISOString())}</ns:${key}>`;
+        return `<ns:${key}>${escapeXml(formatXsdDateTime(value))}</ns:${key}>`;
       }
       return `<ns:${key}>${escapeXml(String(value))}</ns:${key}>`;
     })
@@ -49,12 +56,40 @@ export function buildSoapEnvelope(
   );
 }
 
+/**
+ * `handle` runs inside every attempt, so the errors it throws for a return code
+ * (rc=-2 maintenance, rc=-3 technical error) go through the retry policy too.
+ */
 export async function sendSoapRequest<T>(
-  options: SoapRequestOptions
+  options: SoapRequestOptions,
+  handle: (payload: unknown) => T = (payload) => payload as T
+): Promise<T> {
+  const send = async (attempt: number) =>
+    handle(await sendSoapRequestOnce<unknown>(options, attempt));
+  if (options.retry) {
+    return withRetry(send, options.retry);
+  }
+  return send(1);
+}
+
+async function sendSoapRequestOnce<T>(
+  options: SoapRequestOptions,
+  attempt: number
 ): Promise<T> {
   const fetcher = options.fetcher ?? fetch;
+  const interceptors = options.interceptors;
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), options.timeoutMs);
+  const event = {
+    url: options.url,
+    action: options.action,
+    body: options.body,
+    attempt,
+    startedAt: new Date()
+  };
+  const elapsed = () => Date.now() - event.startedAt.getTime();
+
+  interceptors?.onRequest?.(event);
 
   try {
     const response = await fetcher(options.url, {
@@ -68,74 +103,76 @@ export async function sendSoapRequest<T>(
     });
 
     const text = await response.text();
+    interceptors?.onResponse?.({
+      ...event,
+      status: response.status,
+      responseBody: text,
+      durationMs: elapsed()
+    });
 
     if (isMaintenanceResponse(text)) {
-      throw new MaintenanceError("FinanzOnline is in maintenance mode.");
+      throw maintenanceError(text);
     }
 
     if (!response.ok) {
+      const fault = findSoapFault(text, response.status);
+      if (fault) {
+        throw fault;
+      }
       throw new NetworkError(
-        `SOAP request failed with status ${response.status}`
+        `SOAP request failed with status ${response.status}`,
+        undefined,
+        response.status
       );
     }
 
     return parseSoapBody<T>(text);
   } catch (error) {
-    if (error instanceof MaintenanceError) {
-      throw error;
-    }
+    const mapped = toSoapError(error);
+    interceptors?.onError?.({ ...event, error: mapped, durationMs: elapsed() });
+    throw mapped;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
 
-    if (error instanceof InvalidXmlError) {
-      throw error;
-    }
+function toSoapError(error: unknown): Error {
+  if (error instanceof MaintenanceError) {
+    return error;
+  }
 
-    if (error instanceof SoapFaultError) {
-      throw error;
-    }
+  if (error instanceof InvalidXmlError) {
+    return error;
+  }
 
-    if (error instanceof NetworkError) {
-      throw error;
-    }
+  if (error instanceof SoapFaultError) {
+    return error;
+  }
 
-    if (error instanceof Error && error.name === "AbortError") {
-      throw new NetworkError("SOAP request timed out", error);
-    }
+  if (error instanceof NetworkError) {
+    return error;
+  }
 
-    throw new NetworkError("SOAP request failed", error);
-  } finally {
-    clearTimeout(timeout);
+  if (error instanceof Error && error.name === "AbortError") {
+    return new NetworkError("SOAP request timed out", error);
   }
+
+  return new NetworkError("SOAP request failed", error);
 }
 
-export function parseSoapBody<T>(xml: string, expectedKey?: string): T {
+export function parseSoapBody<T>(xml: string, expectedKey?: string, status?: number): T {
   try {
-    const parser = new XMLParser({
-      ignoreAttributes: false,
-      removeNSPrefix: true
-    });
-
-    const parsed = parser.parse(xml);
-    const envelope = parsed?.Envelope;
-    const body = envelope?.Body;
+    const body = readSoapBody(xml);
 
     if (!body || typeof body !== "object") {
       throw new InvalidXmlError("SOAP response missing Body", xml.slice(0, 200));
     }
 
     if (body.Fault) {
-      const fault = body.Fault;
-      const faultString =
-        typeof fault.faultstring === "string"
-          ? fault.faultstring
-          : "SOAP fault";
-      const faultCode =
-        typeof fault.faultcode === "string" ? fault.faultcode : undefined;
-      throw new SoapFaultError(faultString, faultCode);
+      throw parseSoapFault(body.Fault, xml, status);
     }
 
-    const candidateKeys = Object.keys(body).filter((key) => key !== "Fault");
-    const responseKey =
-      expectedKey ?? (candidateKeys.length > 0 ? candidateKeys[0] : undefined);
+    const responseKey = expectedKey ?? selectPayloadKey(body);
 
     if (!responseKey || !(responseKey in body)) {
       throw new InvalidXmlError(
@@ -144,7 +181,7 @@ export function parseSoapBody<T>(xml: string, expectedKey?: string): T {
       );
     }
 
-    return body[responseKey] as T;
+    return normalizeXmlNode(body[responseKey]) as T;
   } catch (error) {
     if (error instanceof FinanzonlineError) {
       throw error;
@@ -158,6 +195,32 @@ export function parseSoapBody<T>(xml: string, expectedKey?: string): T {
   }
 }
 
+/** Returns the fault carried by an error response, if its body is a SOAP fault. */
+export function findSoapFault(xml: string, status?: number): SoapFaultError | undefined {
+  try {
+    const body = readSoapBody(xml);
+    return body?.Fault ? parseSoapFault(body.Fault, xml, status) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function readSoapBody(xml: string): Record<string, unknown> | undefined {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    removeNSPrefix: true
+  });
+  const parsed = parser.parse(xml);
+  return parsed?.Envelope?.Body;
+}
+
+function selectPayloadKey(body: Record<string, unknown>): string | undefined {
+  const candidateKeys = Object.keys(body).filter(
+    (key) => key !== "Fault" && key !== "#text" && !key.startsWith("@_")
+  );
+  return candidateKeys.find((key) => key.endsWith("Response")) ?? candidateKeys[0];
+}
+
 export function isMaintenanceResponse(text: string): boolean {
   return /<html/i.test(text) && /\/wartung\//i.test(text);
 }
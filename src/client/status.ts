@@ -0,0 +1,109 @@
+import { DATABOX_SERVICE_URL } from "./databox.js";
+import { parseMaintenancePage } from "./maintenance.js";
+import { SESSION_SERVICE_URL } from "./session.js";
+import { isMaintenanceResponse } from "./soap.js";
+
+export type ServiceName = "session" | "databox";
+
+export type ServiceState = "up" | "maintenance" | "unreachable";
+
+export interface ServiceStatus {
+  service: ServiceName;
+  url: string;
+  state: ServiceState;
+  httpStatus?: number;
+  startsAt?: Date;
+  endsAt?: Date;
+  notice?: string;
+  error?: string;
+  durationMs: number;
+}
+
+export interface ProbeOptions {
+  timeoutSeconds?: number;
+  fetcher?: typeof fetch;
+  sessionServiceUrl?: string;
+  databoxServiceUrl?: string;
+  now?: () => Date;
+}
+
+export const STATUS_EXIT_CODES: Record<ServiceState, number> = {
+  up: 0,
+  unreachable: 1,
+  maintenance: 2
+};
+
+const STATE_SEVERITY: ServiceState[] = ["up", "maintenance", "unreachable"];
+
+/**
+ * Checks both webservices without logging in: fetching the WSDL needs no
+ * credentials, so probing never counts against the user's login attempts.
+ */
+export async function probeServices(options: ProbeOptions = {}): Promise<ServiceStatus[]> {
+  return Promise.all([
+    probeService("session", options.sessionServiceUrl ?? SESSION_SERVICE_URL, options),
+    probeService("databox", options.databoxServiceUrl ?? DATABOX_SERVICE_URL, options)
+  ]);
+}
+
+export async function probeService(
+  service: ServiceName,
+  url: string,
+  options: ProbeOptions = {}
+): Promise<ServiceStatus> {
+  const fetcher = options.fetcher ?? fetch;
+  const now = options.now ?? (() => new Date());
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), (options.timeoutSeconds ?? 10) * 1000);
+  const startedAt = Date.now();
+  const elapsed = () => Date.now() - startedAt;
+
+  try {
+    const response = await fetcher(`${url}?wsdl`, { method: "GET", signal: controller.signal });
+    const text = await response.text();
+
+    if (isMaintenanceResponse(text)) {
+      const window = parseMaintenancePage(text, now());
+      return {
+        service,
+        url,
+        state: "maintenance",
+        httpStatus: response.status,
+        ...window,
+        durationMs: elapsed()
+      };
+    }
+
+    if (!response.ok) {
+      return {
+        service,
+        url,
+        state: "unreachable",
+        httpStatus: response.status,
+        error: `HTTP ${response.status}`,
+        durationMs: elapsed()
+      };
+    }
+
+    return { service, url, state: "up", httpStatus: response.status, durationMs: elapsed() };
+  } catch (error) {
+    const message =
+      error instanceof Error && error.name === "AbortError"
+        ? "timed out"
+        : error instanceof Error
+          ? error.message
+          : String(error);
+    return { service, url, state: "unreachable", error: message, durationMs: elapsed() };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/** The worst state among the probed services. */
+export function overallState(statuses: ServiceStatus[]): ServiceState {
+  return statuses.reduce<ServiceState>(
+    (worst, status) =>
+      STATE_SEVERITY.indexOf(status.state) > STATE_SEVERITY.indexOf(worst) ? status.state : worst,
+    "up"
+  );
+}
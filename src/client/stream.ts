@@ -0,0 +1,254 @@
+import { Readable } from "node:stream";
+import {
+  InvalidXmlError,
+  MaintenanceError,
+  NetworkError,
+  SoapFaultError
+} from "../errors.js";
+import { maintenanceError } from "./maintenance.js";
+import { withRetry } from "./retry.js";
+import { findSoapFault, isMaintenanceResponse, SoapRequestOptions } from "./soap.js";
+
+const RESULT_START = /<(?:[\w-]+:)?result(?:[\s/][^>]*)?>/;
+const NIL_ATTRIBUTE = /[\s:]nil\s*=\s*["'](?:true|1)["']/;
+
+export interface SoapResultStream {
+  head: string;
+  content?: Readable;
+}
+
+/** Like `sendSoapRequest`, `handle` runs inside every attempt so return codes are retried. */
+export async function streamSoapResult<T = SoapResultStream>(
+  options: SoapRequestOptions,
+  handle: (result: SoapResultStream) => T = (result) => result as T
+): Promise<T> {
+  const open = async (attempt: number) => {
+    const result = await openResultStream(options, attempt);
+    try {
+      return handle(result);
+    } catch (error) {
+      result.content?.destroy();
+      throw error;
+    }
+  };
+  if (options.retry) {
+    return withRetry(open, options.retry);
+  }
+  return open(1);
+}
+
+async function openResultStream(
+  options: SoapRequestOptions,
+  attempt: number
+): Promise<SoapResultStream> {
+  const fetcher = options.fetcher ?? fetch;
+  const controller = new AbortController();
+  let timeout = setTimeout(() => controller.abort(), options.timeoutMs);
+  const resetTimeout = () => {
+    clearTimeout(timeout);
+    timeout = setTimeout(() => controller.abort(), options.timeoutMs);
+  };
+  const event = {
+    url: options.url,
+    action: options.action,
+    body: options.body,
+    attempt,
+    startedAt: new Date()
+  };
+  const elapsed = () => Date.now() - event.startedAt.getTime();
+
+  options.interceptors?.onRequest?.(event);
+
+  // Returning the generator ends its `for await` over `response.body`, which cancels the
+  // body and releases the socket.
+  let chunks: AsyncGenerator<string> | undefined;
+  try {
+    const response = await fetcher(options.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "text/xml; charset=utf-8",
+        SOAPAction: options.action
+      },
+      body: options.body,
+      signal: controller.signal
+    });
+
+    chunks = readChunks(response);
+    const { head, rest, found } = await readHead(chunks, resetTimeout);
+    options.interceptors?.onResponse?.({
+      ...event,
+      status: response.status,
+      responseBody: found ? `${head}[streamed result]` : head,
+      durationMs: elapsed()
+    });
+
+    if (isMaintenanceResponse(head)) {
+      throw maintenanceError(head);
+    }
+
+    if (!response.ok) {
+      const fault = findSoapFault(head, response.status);
+      if (fault) {
+        throw fault;
+      }
+      throw new NetworkError(
+        `SOAP request failed with status ${response.status}`,
+        undefined,
+        response.status
+      );
+    }
+
+    if (!found) {
+      clearTimeout(timeout);
+      return { head };
+    }
+
+    const body = chunks;
+    const content = Readable.from(
+      decodeBase64Result(rest, body, resetTimeout, () => clearTimeout(timeout)),
+      { objectMode: false }
+    );
+    // A stream destroyed before it is read never enters the generator's `finally`.
+    content.once("close", () => {
+      clearTimeout(timeout);
+      void body.return(undefined);
+    });
+    return { head, content };
+  } catch (error) {
+    clearTimeout(timeout);
+    await chunks?.return(undefined);
+    const mapped =
+      error instanceof Error && error.name === "AbortError"
+        ? new NetworkError("SOAP request timed out", error)
+        : error;
+    options.interceptors?.onError?.({ ...event, error: mapped, durationMs: elapsed() });
+    if (
+      mapped instanceof MaintenanceError ||
+      mapped instanceof NetworkError ||
+      mapped instanceof SoapFaultError
+    ) {
+      throw mapped;
+    }
+    throw new NetworkError("SOAP request failed", error);
+  }
+}
+
+export class Base64ChunkDecoder {
+  private pending = "";
+
+  push(text: string): Buffer {
+    const cleaned = text.replace(/\s+/g, "");
+    if (!/^[A-Za-z0-9+/=]*$/.test(cleaned)) {
+      throw new InvalidXmlError("Invalid base64 content in result element");
+    }
+    const combined = this.pending + cleaned;
+    const usable = combined.length - (combined.length % 4);
+    this.pending = combined.slice(usable);
+    return Buffer.from(combined.slice(0, usable), "base64");
+  }
+
+  flush(): Buffer {
+    const rest = this.pending;
+    this.pending = "";
+    return Buffer.from(rest, "base64");
+  }
+}
+
+async function* readChunks(response: Response): AsyncGenerator<string> {
+  const body = response.body;
+  if (!body) {
+    yield await response.text();
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+    yield decoder.decode(chunk, { stream: true });
+  }
+  const tail = decoder.decode();
+  if (tail) {
+    yield tail;
+  }
+}
+
+/**
+ * Reads up to the opening `<result>` tag. An empty `<result/>` (or `xsi:nil`) has no content
+ * to stream, so the whole response is read and returned as the head.
+ */
+async function readHead(
+  chunks: AsyncGenerator<string>,
+  onChunk: () => void
+): Promise<{ head: string; rest: string; found: boolean }> {
+  let buffer = "";
+  let empty = false;
+  for await (const chunk of iterate(chunks)) {
+    onChunk();
+    buffer += chunk;
+    const match = empty ? null : RESULT_START.exec(buffer);
+    if (match && (match[0].endsWith("/>") || NIL_ATTRIBUTE.test(match[0]))) {
+      empty = true;
+    } else if (match) {
+      return {
+        head: buffer.slice(0, match.index),
+        rest: buffer.slice(match.index + match[0].length),
+        found: true
+      };
+    }
+  }
+  return { head: buffer, rest: "", found: false };
+}
+
+async function* decodeBase64Result(
+  initial: string,
+  chunks: AsyncGenerator<string>,
+  onChunk: () => void,
+  onDone: () => void
+): AsyncGenerator<Buffer> {
+  const decoder = new Base64ChunkDecoder();
+  let text = initial;
+
+  try {
+    while (true) {
+      const end = text.indexOf("<");
+      if (end >= 0) {
+        yield* nonEmpty(decoder.push(text.slice(0, end)), decoder.flush());
+        return;
+      }
+
+      yield* nonEmpty(decoder.push(text));
+      const next = await chunks.next();
+      if (next.done) {
+        throw new InvalidXmlError("SOAP response ended inside result element");
+      }
+      onChunk();
+      text = next.value;
+    }
+  } catch (error) {
+    if (error instanceof Error && error.name === "AbortError") {
+      throw new NetworkError("SOAP request timed out", error);
+    }
+    throw error;
+  } finally {
+    onDone();
+    await chunks.return(undefined);
+  }
+}
+
+function* nonEmpty(...buffers: Buffer[]): Generator<Buffer> {
+  for (const buffer of buffers) {
+    if (buffer.length > 0) {
+      yield buffer;
+    }
+  }
+}
+
+// Iterate without closing the generator so the caller can keep reading.
+async function* iterate(chunks: AsyncGenerator<string>): AsyncGenerator<string> {
+  while (true) {
+    const next = await chunks.next();
+    if (next.done) {
+      return;
+    }
+    yield next.value;
+  }
+}
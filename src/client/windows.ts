@@ -0,0 +1,72 @@
+import { ConfigurationError } from "../errors.js";
+import { formatXsdDateTime, startOfViennaDay } from "../models/dates.js";
+import { DataboxListRequest } from "../models/types.js";
+
+export const DEFAULT_MAX_WINDOW_DAYS = 7;
+
+/** getDatabox rejects a `ts_zust_von` further back than this (rc=-4). */
+export const MAX_LOOKBACK_DAYS = 31;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DateWindow {
+  from: Date;
+  to: Date;
+}
+
+export function splitDateRange(
+  from: Date,
+  to: Date,
+  maxWindowDays: number = DEFAULT_MAX_WINDOW_DAYS
+): DateWindow[] {
+  if (from.getTime() > to.getTime()) {
+    throw new ConfigurationError(
+      `Range start ${from.toISOString()} is after range end ${to.toISOString()}`
+    );
+  }
+  if (!(maxWindowDays > 0)) {
+    throw new ConfigurationError("maxWindowDays must be positive");
+  }
+
+  const windowMs = maxWindowDays * DAY_MS;
+  const windows: DateWindow[] = [];
+  let start = from.getTime();
+
+  do {
+    const end = Math.min(start + windowMs, to.getTime());
+    windows.push({ from: new Date(start), to: new Date(end) });
+    start = end;
+  } while (start < to.getTime());
+
+  return windows;
+}
+
+export function splitListRequest(
+  request: DataboxListRequest,
+  maxWindowDays: number = DEFAULT_MAX_WINDOW_DAYS,
+  now: Date = new Date()
+): DataboxListRequest[] {
+  if (!request.ts_zust_von) {
+    return [request];
+  }
+
+  checkLookback(request.ts_zust_von, now);
+  const to = request.ts_zust_bis ?? now;
+  return splitDateRange(request.ts_zust_von, to, maxWindowDays).map((window) => ({
+    ...request,
+    ts_zust_von: window.from,
+    ts_zust_bis: window.to
+  }));
+}
+
+/** Fails before the first request instead of letting the DataBox answer rc=-4. */
+export function checkLookback(from: Date, now: Date = new Date()): void {
+  const earliest = startOfViennaDay(now, -MAX_LOOKBACK_DAYS);
+  if (from.getTime() < earliest.getTime()) {
+    throw new ConfigurationError(
+      `ts_zust_von ${formatXsdDateTime(from)} is more than ${MAX_LOOKBACK_DAYS} days in the ` +
+        `past; the DataBox only lists documents delivered since ${formatXsdDateTime(earliest)}. ` +
+        `Use --days ${MAX_LOOKBACK_DAYS} or less, or a later --from date.`
+    );
+  }
+}
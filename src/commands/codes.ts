@@ -0,0 +1,30 @@
+import { Command, Option } from "commander";
+import { ANBRINGEN_CATALOG, ERLTYP_CATALOG } from "../models/codes.js";
+import { formatRecords, OutputRecord } from "../output/format.js";
+import { addOutputOptions, resolveOutput } from "./shared.js";
+
+const CODE_FIELDS = ["kind", "code", "category", "de", "en"] as const;
+
+const CODE_KINDS = ["erltyp", "anbringen"] as const;
+
+export function registerCodesCommand(program: Command) {
+  const command = program
+    .command("codes")
+    .description("Print the known Erledigungstyp (erltyp) and Anbringen codes")
+    .addOption(new Option("--kind <kind>", "Only print one catalog").choices(CODE_KINDS));
+
+  addOutputOptions(command, CODE_FIELDS).action((options: Record<string, unknown>) => {
+    const output = resolveOutput(options, CODE_FIELDS);
+    const records: OutputRecord[] = [
+      ...ERLTYP_CATALOG.map((info) => ({ kind: "erltyp", ...info })),
+      ...ANBRINGEN_CATALOG.map((info) => ({ kind: "anbringen", ...info }))
+    ].filter((record) => !options.kind || record.kind === options.kind);
+
+    console.log(
+      formatRecords(records, {
+        ...output,
+        fields: output.fields ?? [...CODE_FIELDS]
+      })
+    );
+  });
+}
@@ -0,0 +1,165 @@
+import fs from "node:fs";
+import path from "node:path";
+import { Command } from "commander";
+import { MAX_LOOKBACK_DAYS } from "../client/windows.js";
+import { Bescheid, parseBescheid } from "../models/bescheid.js";
+import { detectContentType, fileartOf, SNIFF_LENGTH } from "../models/content-type.js";
+import { formatXsdDate, startOfViennaDay } from "../models/dates.js";
+import {
+  computeDeadlines,
+  daysUntil,
+  Deadline,
+  describeDeadline,
+  sortDeadlines
+} from "../models/deadlines.js";
+import { DataboxEntry, DataboxFilter } from "../models/types.js";
+import { formatRecords, OutputRecord } from "../output/format.js";
+import { formatICalendar } from "../output/ics.js";
+import { readLedger } from "../sync/ledger.js";
+import {
+  addOutputOptions,
+  addRangeOptions,
+  buildFilter,
+  formatEntryWarnings,
+  parseNumber,
+  resolveConfig,
+  resolveOutput,
+  resolveOutputDir,
+  runWithClient
+} from "./shared.js";
+
+const DEADLINE_FIELDS = [
+  "date",
+  "days_left",
+  "kind",
+  "applkey",
+  "stnr",
+  "erltyp",
+  "anbringen",
+  "filebez",
+  "basis",
+  "start",
+  "amount",
+  "description"
+] as const;
+
+const DEFAULT_DEADLINE_FIELDS = ["date", "days_left", "kind", "applkey", "filebez", "amount"];
+
+export function registerDeadlinesCommand(program: Command) {
+  const command = addRangeOptions(program
+    .command("deadlines")
+    .description("List appeal and payment deadlines of delivered documents")
+    .option("--ics <file>", "Also write the deadlines as an iCalendar (.ics) file")
+    .option("--alarm-days <n>", "Calendar reminder N days before each deadline", parseNumber, 3)
+    .option("--include-past", "Include deadlines that have already expired")
+    .option("--output <dir>", "Directory with synced documents to read due dates from"));
+
+  addOutputOptions(command, DEADLINE_FIELDS).action(
+    async (options: Record<string, unknown>) => {
+      const output = resolveOutput(options, DEADLINE_FIELDS);
+      const config = resolveConfig(program);
+      const outputDir = resolveOutputDir(config, options.output as string | undefined);
+      const filter = deadlineFilter(options);
+
+      const entries = await runWithClient(program, config, (client) => client.list(filter));
+      for (const line of entries.flatMap((entry) => formatEntryWarnings(entry))) {
+        console.error(line);
+      }
+
+      const documents = loadSyncedBescheide(outputDir, entries);
+      const now = new Date();
+      const today = startOfViennaDay(now);
+      const deadlines = sortDeadlines(
+        entries.flatMap((entry) => {
+          const bescheid = documents.get(entry.applkey);
+          return computeDeadlines(entry, bescheid ? { bescheid } : {});
+        })
+      ).filter((deadline) => options.includePast || deadline.date >= today);
+
+      if (typeof options.ics === "string") {
+        fs.mkdirSync(path.dirname(path.resolve(options.ics)), { recursive: true });
+        fs.writeFileSync(
+          options.ics,
+          formatICalendar(deadlines, { alarmDays: options.alarmDays as number, now })
+        );
+        console.error(`Wrote ${deadlines.length} deadline(s) to ${options.ics}`);
+      }
+
+      if (deadlines.length === 0 && output.format === "table") {
+        console.log("No upcoming deadlines.");
+        return;
+      }
+
+      const text = formatRecords(
+        deadlines.map((deadline) => serializeDeadline(deadline, now)),
+        { ...output, fields: output.fields ?? DEFAULT_DEADLINE_FIELDS }
+      );
+      if (text) {
+        console.log(text);
+      }
+    }
+  );
+}
+
+/**
+ * Read and unread entries of the `--days`/`--from`/`--to` range, by default everything the
+ * DataBox still lists. `--days` beyond that is clamped with a note on stderr; an appeal
+ * period ends about a month after delivery, so older documents rarely have one still open.
+ */
+export function deadlineFilter(options: Record<string, unknown>): DataboxFilter {
+  const ranged = options.days || options.from || options.to;
+  let days = ranged ? options.days : MAX_LOOKBACK_DAYS;
+  if (typeof days === "number" && days > MAX_LOOKBACK_DAYS) {
+    console.error(
+      `Note: the DataBox only lists the last ${MAX_LOOKBACK_DAYS} days; using --days ` +
+        `${MAX_LOOKBACK_DAYS} instead of ${days}.`
+    );
+    days = MAX_LOOKBACK_DAYS;
+  }
+  return { ...buildFilter({ ...options, days }, undefined), status: "ALL" };
+}
+
+function serializeDeadline(deadline: Deadline, now: Date): OutputRecord {
+  const { entry } = deadline;
+  return {
+    date: formatXsdDate(deadline.date),
+    days_left: String(daysUntil(deadline, now)),
+    kind: deadline.kind,
+    applkey: deadline.applkey,
+    stnr: entry.stnr,
+    erltyp: entry.erltyp,
+    anbringen: entry.anbringen,
+    filebez: entry.filebez,
+    basis: deadline.basis,
+    start: formatXsdDate(deadline.start),
+    amount: deadline.amount === undefined ? "" : deadline.amount.toFixed(2),
+    description: describeDeadline(deadline)
+  };
+}
+
+/**
+ * XML Bescheide of `entries` recorded in the sync ledger, by applkey. Documents that are
+ * missing or cannot be parsed are skipped with a warning; they only get an appeal deadline.
+ */
+function loadSyncedBescheide(outputDir: string, entries: DataboxEntry[]): Map<string, Bescheid> {
+  const wanted = new Set(
+    entries.filter((entry) => entry.fileart === "XML").map((entry) => entry.applkey)
+  );
+  const documents = new Map<string, Bescheid>();
+  for (const record of readLedger(outputDir)) {
+    if (!wanted.has(record.applkey)) {
+      continue;
+    }
+    const filePath = path.resolve(outputDir, record.path);
+    try {
+      const content = fs.readFileSync(filePath);
+      if (fileartOf(detectContentType(content.subarray(0, SNIFF_LENGTH))) === "XML") {
+        documents.set(record.applkey, parseBescheid(content));
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Warning: no due date for ${record.applkey} from ${filePath}: ${message}`);
+    }
+  }
+  return documents;
+}
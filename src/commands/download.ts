@@ -0,0 +1,81 @@
+import path from "node:path";
+import { Command } from "commander";
+import { contentTypeWarning } from "../models/content-type.js";
+import { formatRecords } from "../output/format.js";
+import { writeStreamToFile } from "../sync/files.js";
+import { renderFileName, sanitizeSegment } from "../sync/naming.js";
+import {
+  addOutputOptions,
+  addRangeOptions,
+  buildFilter,
+  formatEntryWarnings,
+  resolveConfig,
+  resolveOutput,
+  resolveOutputDir,
+  runWithClient
+} from "./shared.js";
+
+const DOWNLOAD_FIELDS = ["applkey", "path", "sha256", "mime_type"] as const;
+
+export function registerDownloadCommand(program: Command) {
+  const command = addRangeOptions(program
+    .command("download")
+    .description("Download a specific document by applkey")
+    .argument("<applkey>", "Document key")
+    .option("--output <dir>", "Output directory"));
+
+  addOutputOptions(command, DOWNLOAD_FIELDS).action(
+    async (applkey: string, options: Record<string, unknown>) => {
+      const output = resolveOutput(options, DOWNLOAD_FIELDS);
+      const config = resolveConfig(program);
+      const outputDir = resolveOutputDir(config, options.output as string | undefined);
+
+      const { entry, written } = await runWithClient(program, config, async (client) => {
+        // The listing supplies the metadata for the filename template and `fileart`.
+        const entries = await client.list({ ...buildFilter(options, undefined), status: "ALL" });
+        const entry = entries.find((candidate) => candidate.applkey === applkey);
+        const fileName = entry
+          ? renderFileName(entry, config.filename_template)
+          : `${sanitizeSegment(applkey)}.pdf`;
+        const written = await writeStreamToFile(
+          await client.downloadStream(applkey),
+          path.join(outputDir, fileName),
+          {
+            collision: config.collision_policy,
+            detectExtension: true,
+            ...(entry ? { verify: entry.fileart } : {})
+          }
+        );
+        return { entry, written };
+      });
+
+      if (entry) {
+        const warning = contentTypeWarning(entry.fileart, written);
+        const warnings = [...(entry.warnings ?? []), ...(warning ? [warning] : [])];
+        for (const line of formatEntryWarnings(entry, warnings)) {
+          console.error(line);
+        }
+      } else {
+        console.error(
+          `Warning: ${applkey} is not in the DataBox listing; naming it by content type only`
+        );
+      }
+
+      if (output.format === "table") {
+        console.log(
+          written.skipped
+            ? `Skipped ${written.path}: a different file already exists`
+            : `Saved ${written.path} (${written.mimeType}, sha256 ${written.sha256})`
+        );
+        return;
+      }
+
+      console.log(
+        formatRecords(
+          [{ applkey, path: written.path, sha256: written.sha256, mime_type: written.mimeType }],
+          output
+        )
+      );
+    }
+  );
+}
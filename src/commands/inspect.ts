@@ -0,0 +1,103 @@
+import fs from "node:fs";
+import { Command, Option } from "commander";
+import { DocumentIntegrityError } from "../errors.js";
+import { Bescheid, parseBescheid } from "../models/bescheid.js";
+import { detectContentType, fileartOf, SNIFF_LENGTH } from "../models/content-type.js";
+import { formatXsdDate } from "../models/dates.js";
+
+export function registerInspectCommand(program: Command) {
+  program
+    .command("inspect")
+    .description("Show the contents of a downloaded XML Bescheid")
+    .argument("<file>", "XML document saved by download or sync")
+    .addOption(
+      new Option("--format <format>", "Output format").choices(["table", "json"]).default("table")
+    )
+    .action((file: string, options: Record<string, unknown>) => {
+      const content = fs.readFileSync(file);
+      const type = detectContentType(content.subarray(0, SNIFF_LENGTH));
+      if (fileartOf(type) !== "XML") {
+        throw new DocumentIntegrityError(
+          `${file} is ${type.mimeType}; only XML Bescheide can be inspected`,
+          file,
+          "XML"
+        );
+      }
+
+      const bescheid = parseBescheid(content);
+      console.log(
+        options.format === "json"
+          ? JSON.stringify(serializeBescheid(bescheid), null, 2)
+          : formatBescheid(bescheid).join("\n")
+      );
+      for (const warning of bescheid.warnings) {
+        console.error(`Warning: ${warning}`);
+      }
+    });
+}
+
+/** Dates become Vienna calendar dates (`YYYY-MM-DD`) instead of UTC timestamps. */
+function serializeBescheid(bescheid: Bescheid): Record<string, unknown> {
+  return JSON.parse(
+    JSON.stringify(bescheid, function (this: Record<string, unknown>, key, value: unknown) {
+      const original = this[key];
+      return original instanceof Date ? formatXsdDate(original) : value;
+    })
+  ) as Record<string, unknown>;
+}
+
+function formatBescheid(bescheid: Bescheid): string[] {
+  const lines: string[] = [];
+  const row = (label: string, value: string | undefined) => {
+    if (value) {
+      lines.push(`${`${label}:`.padEnd(20)}${value}`);
+    }
+  };
+
+  const version = bescheid.schemaVersion ? ` (schema ${bescheid.schemaVersion})` : "";
+  lines.push(`${bescheid.documentType}${version}`);
+  const { name, stnr, address } = bescheid.taxpayer;
+  row("Taxpayer", [name, stnr ? `StNr ${stnr}` : undefined].filter(Boolean).join(", "));
+  row("Address", address);
+  row("Tax type", bescheid.taxType);
+  row("Period", formatPeriod(bescheid));
+  row("Issued", bescheid.issuedAt && formatXsdDate(bescheid.issuedAt));
+
+  if (bescheid.assessedAmounts.length > 0) {
+    lines.push("Assessed amounts:");
+    const width = Math.max(...bescheid.assessedAmounts.map((item) => item.label.length));
+    for (const item of bescheid.assessedAmounts) {
+      lines.push(`  ${item.label.padEnd(width)}  ${formatAmount(item.amount).padStart(14)}`);
+    }
+  }
+
+  row("Assessed total", formatOptionalAmount(bescheid.assessedTotal));
+  row("Previous payments", formatOptionalAmount(bescheid.previousPayments));
+  if (bescheid.balance !== undefined) {
+    const direction = bescheid.balance < 0 ? "credit" : "due";
+    row("Balance", `${formatAmount(Math.abs(bescheid.balance))} ${direction}`);
+  }
+  row("Due date", bescheid.dueDate && formatXsdDate(bescheid.dueDate));
+
+  if (bescheid.rechtsmittelbelehrung) {
+    lines.push("Rechtsmittelbelehrung:");
+    lines.push(...bescheid.rechtsmittelbelehrung.split("\n").map((line) => `  ${line}`.trimEnd()));
+  }
+  return lines;
+}
+
+function formatPeriod(bescheid: Bescheid): string | undefined {
+  const { year, from, to } = bescheid.period;
+  if (from || to) {
+    return `${from ? formatXsdDate(from) : "?"} – ${to ? formatXsdDate(to) : "?"}`;
+  }
+  return year === undefined ? undefined : String(year);
+}
+
+function formatOptionalAmount(amount: number | undefined): string | undefined {
+  return amount === undefined ? undefined : formatAmount(amount);
+}
+
+function formatAmount(amount: number): string {
+  return `${amount.toFixed(2)} EUR`;
+}
@@ -0,0 +1,49 @@
+import { Command } from "commander";
+import { ERLTYP_CODES, parseErltyp } from "../models/codes.js";
+import { ENTRY_FIELDS, formatRecords, serializeEntry } from "../output/format.js";
+import {
+  addOutputOptions,
+  addRangeOptions,
+  buildFilter,
+  formatEntryWarnings,
+  resolveConfig,
+  resolveOutput,
+  runWithClient
+} from "./shared.js";
+
+export function registerListCommand(program: Command) {
+  const command = addRangeOptions(program
+    .command("list")
+    .description("List documents in the DataBox")
+    .option(
+      "--erltyp <type>",
+      `Filter by document type (${ERLTYP_CODES.join("|")}, see \`codes\`)`,
+      parseErltyp
+    )
+    .option("--all", "Include both read and unread documents")
+    .option("--read", "Only include read documents"));
+
+  addOutputOptions(command, ENTRY_FIELDS).action(
+    async (options: Record<string, unknown>) => {
+      const output = resolveOutput(options, ENTRY_FIELDS);
+      const config = resolveConfig(program);
+      const filtered = await runWithClient(program, config, (client) =>
+        client.list(buildFilter(options, options.erltyp as string | undefined))
+      );
+
+      for (const line of filtered.flatMap((entry) => formatEntryWarnings(entry))) {
+        console.error(line);
+      }
+
+      if (filtered.length === 0 && output.format === "table") {
+        console.log("No entries found.");
+        return;
+      }
+
+      const text = formatRecords(filtered.map(serializeEntry), output);
+      if (text) {
+        console.log(text);
+      }
+    }
+  );
+}
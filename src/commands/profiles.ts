@@ -0,0 +1,69 @@
+import { Command } from "commander";
+import { listProfiles } from "../config/loader.js";
+import { maskSecrets } from "../config/profiles.js";
+import { FinanzonlineConfigInput } from "../config/schema.js";
+import { formatRecords, OutputRecord } from "../output/format.js";
+import { addOutputOptions, profileOption, resolveOutput } from "./shared.js";
+
+const PROFILE_FIELDS = [
+  "name",
+  "active",
+  "tid",
+  "benid",
+  "pin",
+  "herstellerid",
+  "output_dir"
+] as const;
+
+export function registerProfilesCommand(program: Command) {
+  const profiles = program
+    .command("profiles")
+    .description("Inspect named profiles from finanzonline.toml");
+
+  addOutputOptions(
+    profiles.command("list").description("List configured profiles (secrets masked)"),
+    PROFILE_FIELDS
+  ).action((options: Record<string, unknown>) => {
+    const output = resolveOutput(options, PROFILE_FIELDS);
+    const summaries = listProfiles(profileOption(program));
+
+    if (summaries.length === 0 && output.format === "table") {
+      console.log("No profiles configured.");
+      return;
+    }
+
+    const records = summaries.map((summary): OutputRecord => {
+      const masked = maskSecrets(summary.config);
+      return {
+        name: summary.name,
+        active: String(summary.active),
+        tid: masked.tid ?? "",
+        benid: masked.benid ?? "",
+        pin: describePinSource(masked),
+        herstellerid: masked.herstellerid ?? "",
+        output_dir: masked.output_dir ?? ""
+      };
+    });
+
+    const text = formatRecords(records, {
+      ...output,
+      fields: output.fields ?? [...PROFILE_FIELDS]
+    });
+    if (text) {
+      console.log(text);
+    }
+  });
+}
+
+function describePinSource(config: FinanzonlineConfigInput): string {
+  if (config.pin !== undefined) {
+    return config.pin;
+  }
+  if (config.pin_file !== undefined) {
+    return `file:${config.pin_file}`;
+  }
+  if (config.pin_command !== undefined) {
+    return `command:${config.pin_command}`;
+  }
+  return config.pin_keystore !== undefined ? `keystore:${config.pin_keystore}` : "";
+}
@@ -0,0 +1,58 @@
+import { Command, Option } from "commander";
+import { COLLISION_POLICIES } from "../sync/files.js";
+import { registerCodesCommand } from "./codes.js";
+import { registerDeadlinesCommand } from "./deadlines.js";
+import { registerDownloadCommand } from "./download.js";
+import { registerInspectCommand } from "./inspect.js";
+import { registerListCommand } from "./list.js";
+import { registerProfilesCommand } from "./profiles.js";
+import { registerSecretsCommand } from "./secrets.js";
+import { registerSessionCommand } from "./session.js";
+import { parseNumber } from "./shared.js";
+import { registerStatusCommand } from "./status.js";
+import { registerSyncCommand } from "./sync.js";
+import { registerSyncAllCommand } from "./sync-all.js";
+
+/** The `finanzonline` program with its global options and every subcommand registered. */
+export function createProgram(): Command {
+  const program = new Command();
+
+  program
+    .name("finanzonline")
+    .description("FinanzOnline DataBox CLI")
+    .option("--profile <name>", "Use the [profiles.<name>] table from finanzonline.toml")
+    .option("--tid <tid>", "Teilnehmer-ID")
+    .option("--benid <benid>", "Benutzer-ID")
+    .option("--pin <pin>", "PIN/Password (visible in the process list; prefer pin_file, pin_command or the keystore)")
+    .option("--herstellerid <herstellerid>", "Hersteller-ID (ATU...) ")
+    .option("--output-dir <dir>", "Default output directory")
+    .option("--session-timeout <seconds>", "Session timeout in seconds", parseNumber)
+    .option("--query-timeout <seconds>", "Query timeout in seconds", parseNumber)
+    .option(
+      "--filename-template <template>",
+      "Template for synced file paths, e.g. {stnr}/{zrvon}/{datbesch:YYYY-MM-DD}_{applkey}.{ext}"
+    )
+    .addOption(
+      new Option("--collision-policy <policy>", "When a target file exists with other content")
+        .choices(COLLISION_POLICIES)
+    )
+    .option("--strict", "Fail on DataBox responses that do not match the expected format")
+    .option("--session-cache", "Reuse a cached session across invocations (see `session` commands)")
+    .option("--verbose", "Print redacted SOAP requests and responses to stderr")
+    .option("--trace-file <path>", "Append redacted SOAP traces as NDJSON to a file")
+    .showHelpAfterError();
+
+  registerListCommand(program);
+  registerDownloadCommand(program);
+  registerSyncCommand(program);
+  registerSyncAllCommand(program);
+  registerProfilesCommand(program);
+  registerSecretsCommand(program);
+  registerSessionCommand(program);
+  registerStatusCommand(program);
+  registerCodesCommand(program);
+  registerInspectCommand(program);
+  registerDeadlinesCommand(program);
+
+  return program;
+}
@@ -0,0 +1,111 @@
+import fs from "node:fs";
+import readline from "node:readline";
+import { Writable } from "node:stream";
+import { Command } from "commander";
+import { Keystore } from "../config/keystore.js";
+import { resolveKeystorePath } from "../config/loader.js";
+import { KEYSTORE_PASSPHRASE_ENV_KEY } from "../config/secrets.js";
+import { ConfigurationError } from "../errors.js";
+import { resolveConfigOptions } from "./shared.js";
+
+export function registerSecretsCommand(program: Command) {
+  const secrets = program
+    .command("secrets")
+    .description("Manage PINs in the local encrypted keystore (referenced via pin_keystore)")
+    .option("--keystore <file>", "Keystore file (default: keystore_file from the config, env or ~/.finanzonline-keystore.json)");
+
+  secrets
+    .command("set <name>")
+    .description("Store a PIN; reads it from a hidden prompt or the first line of stdin")
+    .action(async (name: string) => {
+      const filePath = keystorePath(program, secrets);
+      const isNew = !fs.existsSync(filePath);
+      const passphrase = await readPassphrase(isNew);
+      const pin = await promptSecret(`PIN for ${name}: `);
+      if (!pin) {
+        throw new ConfigurationError("Empty PIN, nothing stored");
+      }
+      Keystore.open(filePath, passphrase).set(name, pin);
+      console.error(`Stored "${name}" in ${filePath}`);
+    });
+
+  secrets
+    .command("get <name>")
+    .description("Print a stored PIN")
+    .action(async (name: string) => {
+      const keystore = Keystore.open(keystorePath(program, secrets), await readPassphrase(false));
+      console.log(keystore.get(name));
+    });
+
+  secrets
+    .command("rm <name>")
+    .description("Remove a stored PIN")
+    .action(async (name: string) => {
+      const filePath = keystorePath(program, secrets);
+      const keystore = Keystore.open(filePath, await readPassphrase(false));
+      if (!keystore.has(name)) {
+        throw new ConfigurationError(`No secret "${name}" in keystore ${filePath}`);
+      }
+      // Decrypt first so a wrong passphrase cannot delete entries.
+      keystore.get(name);
+      keystore.remove(name);
+      console.error(`Removed "${name}" from ${filePath}`);
+    });
+}
+
+// Same layers as `pin_keystore` lookups (TOML, --profile, .env, env), with --keystore on top.
+function keystorePath(program: Command, secrets: Command): string {
+  const { keystore } = secrets.opts() as { keystore?: string };
+  const options = resolveConfigOptions(program);
+  return resolveKeystorePath({
+    ...options,
+    cli: { ...options.cli, ...(keystore ? { keystore_file: keystore } : {}) }
+  });
+}
+
+async function readPassphrase(confirm: boolean): Promise<string> {
+  const fromEnv = process.env[KEYSTORE_PASSPHRASE_ENV_KEY];
+  if (fromEnv) {
+    return fromEnv;
+  }
+  if (!process.stdin.isTTY) {
+    throw new ConfigurationError(
+      `Set ${KEYSTORE_PASSPHRASE_ENV_KEY} when stdin is not a terminal`
+    );
+  }
+
+  const passphrase = await promptSecret("Keystore passphrase: ");
+  if (confirm && passphrase !== (await promptSecret("Repeat passphrase: "))) {
+    throw new ConfigurationError("Passphrases do not match");
+  }
+  return passphrase;
+}
+
+async function promptSecret(question: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(chunk as Buffer);
+    }
+    return (Buffer.concat(chunks).toString("utf8").split(/\r?\n/)[0] ?? "").trim();
+  }
+
+  let muted = false;
+  const output = new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      if (!muted) {
+        process.stderr.write(chunk);
+      }
+      callback();
+    }
+  });
+  const rl = readline.createInterface({ input: process.stdin, output, terminal: true });
+  const answer = new Promise<string>((resolve) => rl.question(question, resolve));
+  muted = true;
+  try {
+    return (await answer).trim();
+  } finally {
+    rl.close();
+    process.stderr.write("\n");
+  }
+}
@@ -0,0 +1,58 @@
+import { Command } from "commander";
+import { sessionCacheFromConfig } from "../client/finanzonline.js";
+import { SessionCache } from "../client/session-cache.js";
+import { FinanzonlineConfig } from "../config/schema.js";
+import { resolveConfig, resolveSettings, runWithClient } from "./shared.js";
+
+export function registerSessionCommand(program: Command) {
+  const session = program
+    .command("session")
+    .description("Manage the cached FinanzOnline session");
+
+  session
+    .command("login")
+    .description("Log in and cache the session for later commands")
+    .action(async () => {
+      const config = cachingConfig(program);
+      await runWithClient(program, config, (client) => client.login());
+      console.log(`Logged in as ${config.tid}/${config.benid}; session cached.`);
+    });
+
+  session
+    .command("logout")
+    .description("Log out the cached session and remove it from the cache")
+    .action(async () => {
+      const config = cachingConfig(program);
+      await runWithClient(program, config, (client) => client.logout());
+      console.log(`Logged out ${config.tid}/${config.benid}.`);
+    });
+
+  session
+    .command("status")
+    .description("Show whether a fresh cached session exists")
+    .action(() => {
+      // Only reads the cache file, so it must not run a pin_command or ask for a passphrase.
+      const config = resolveSettings(program);
+      const cache = sessionCacheFromConfig({ ...config, session_cache: true }) as SessionCache;
+      const cached = cache.get(config);
+      if (!cached) {
+        console.log(`No cached session for ${config.tid}/${config.benid}.`);
+        return;
+      }
+
+      const state = cache.isFresh(cached) ? "fresh" : "stale";
+      console.log(
+        [
+          `Session for ${cached.tid}/${cached.benid}: ${state}`,
+          `  created:   ${cached.createdAt.toISOString()}`,
+          `  last used: ${cached.lastUsedAt.toISOString()}`,
+          `  expires:   ${cache.expiresAt(cached).toISOString()}`,
+          `  cache:     ${cache.filePath}`
+        ].join("\n")
+      );
+    });
+}
+
+function cachingConfig(program: Command): FinanzonlineConfig {
+  return { ...resolveConfig(program), session_cache: true };
+}
@@ -0,0 +1,296 @@
+import { Command, Option } from "commander";
+import {
+  FinanzonlineClient,
+  FinanzonlineClientOptions
+} from "../client/finanzonline.js";
+import {
+  combineInterceptors,
+  createLoggingInterceptors,
+  createTraceFileInterceptors
+} from "../client/interceptors.js";
+import { closeOnSignals } from "../client/managed.js";
+import { explainError } from "../client/return-codes.js";
+import { ConfigLoadOptions, loadConfig, loadSettings } from "../config/loader.js";
+import { FinanzonlineConfig, FinanzonlineSettings } from "../config/schema.js";
+import { SoapFaultError } from "../errors.js";
+import {
+  parseXsdDate,
+  parseXsdDateTime,
+  startOfViennaDay
+} from "../models/dates.js";
+import { DataboxEntry, DataboxFilter } from "../models/types.js";
+import {
+  FormatOptions,
+  OUTPUT_FORMATS,
+  parseFields,
+  parseOutputFormat
+} from "../output/format.js";
+import { CollisionPolicy } from "../sync/files.js";
+
+export interface GlobalOptions {
+  profile?: string;
+  tid?: string;
+  benid?: string;
+  pin?: string;
+  herstellerid?: string;
+  outputDir?: string;
+  sessionTimeout?: number;
+  queryTimeout?: number;
+  filenameTemplate?: string;
+  collisionPolicy?: CollisionPolicy;
+  strict?: boolean;
+  sessionCache?: boolean;
+  verbose?: boolean;
+  traceFile?: string;
+}
+
+export function resolveConfig(program: Command): FinanzonlineConfig {
+  return loadConfig(resolveConfigOptions(program)).config;
+}
+
+/** Like `resolveConfig`, but leaves the PIN source untouched. */
+export function resolveSettings(program: Command): FinanzonlineSettings {
+  return loadSettings(resolveConfigOptions(program));
+}
+
+export function resolveConfigOptions(program: Command): ConfigLoadOptions {
+  const globalOptions = program.opts() as GlobalOptions;
+  if (globalOptions.pin) {
+    warnAboutPinFlag();
+  }
+  return {
+    ...profileOption(program),
+    cli: {
+      tid: globalOptions.tid,
+      benid: globalOptions.benid,
+      pin: globalOptions.pin,
+      herstellerid: globalOptions.herstellerid,
+      output_dir: globalOptions.outputDir,
+      session_timeout: globalOptions.sessionTimeout,
+      query_timeout: globalOptions.queryTimeout,
+      filename_template: globalOptions.filenameTemplate,
+      collision_policy: globalOptions.collisionPolicy,
+      strict_parsing: globalOptions.strict,
+      session_cache: globalOptions.sessionCache
+    }
+  };
+}
+
+let pinWarningShown = false;
+
+function warnAboutPinFlag() {
+  if (!pinWarningShown) {
+    pinWarningShown = true;
+    console.error(
+      "Warning: --pin is visible to other users in the process list. " +
+        "Use pin_file, pin_command or pin_keystore instead."
+    );
+  }
+}
+
+export function profileOption(program: Command): { profile?: string } {
+  const { profile } = program.opts() as GlobalOptions;
+  return profile ? { profile } : {};
+}
+
+export function resolveClientOptions(program: Command): FinanzonlineClientOptions {
+  const globalOptions = program.opts() as GlobalOptions;
+  if (!globalOptions.verbose && !globalOptions.traceFile) {
+    return {};
+  }
+
+  return {
+    interceptors: combineInterceptors(
+      globalOptions.verbose
+        ? createLoggingInterceptors((line) => console.error(line))
+        : undefined,
+      globalOptions.traceFile
+        ? createTraceFileInterceptors(globalOptions.traceFile)
+        : undefined
+    )
+  };
+}
+
+const STOP_SIGNALS: NodeJS.Signals[] = ["SIGINT", "SIGTERM"];
+
+/**
+ * Without `controller` a signal logs out and exits at once. With it, the first signal
+ * aborts the controller so `fn` can settle (and clean up) before the client is closed.
+ */
+export async function runWithClient<T>(
+  program: Command,
+  config: FinanzonlineConfig,
+  fn: (client: FinanzonlineClient) => Promise<T>,
+  controller?: AbortController
+): Promise<T> {
+  const client = new FinanzonlineClient(config, resolveClientOptions(program));
+  const release = controller
+    ? abortOnSignals(controller, client)
+    : closeOnSignals(client, STOP_SIGNALS);
+
+  try {
+    return await fn(client);
+  } finally {
+    release();
+    await client.close();
+  }
+}
+
+/**
+ * Aborts `controller` on the first SIGINT/SIGTERM; a second one closes `closeable` and
+ * exits like `closeOnSignals`.
+ */
+export function abortOnSignals(
+  controller: AbortController,
+  closeable: { close(): Promise<void> },
+  signals: NodeJS.Signals[] = STOP_SIGNALS
+): () => void {
+  let releaseClose: (() => void) | undefined;
+  const onSignal = () => {
+    removeListeners();
+    console.error("Stopping after running downloads are cancelled (signal again to quit now)");
+    releaseClose = closeOnSignals(closeable, signals);
+    controller.abort();
+  };
+  const removeListeners = () => {
+    for (const signal of signals) {
+      process.removeListener(signal, onSignal);
+    }
+  };
+
+  for (const signal of signals) {
+    process.once(signal, onSignal);
+  }
+
+  return () => {
+    removeListeners();
+    releaseClose?.();
+  };
+}
+
+export function buildFilter(
+  options: Record<string, unknown>,
+  erltyp: string | undefined
+): DataboxFilter {
+  const filter: DataboxFilter = {
+    status: options.all ? "ALL" : options.read ? "READ" : "UNREAD"
+  };
+  if (erltyp) {
+    filter.erltyp = erltyp;
+  }
+  if (options.days) {
+    filter.days = options.days as number;
+  }
+  if (options.from instanceof Date) {
+    filter.from = options.from;
+  }
+  if (options.to instanceof Date) {
+    filter.to = options.to;
+  }
+  return filter;
+}
+
+export function addRangeOptions(command: Command): Command {
+  return command
+    .option("--days <n>", "Only include documents delivered in last N days", parseNumber)
+    .option(
+      "--from <date>",
+      "Only include documents delivered on or after date (YYYY-MM-DD or ISO)",
+      parseFromDate
+    )
+    .option(
+      "--to <date>",
+      "Only include documents delivered on or before date (YYYY-MM-DD or ISO)",
+      parseToDate
+    );
+}
+
+export function parseFromDate(value: string): Date {
+  return parseDateOption(value, false);
+}
+
+export function parseToDate(value: string): Date {
+  return parseDateOption(value, true);
+}
+
+function parseDateOption(value: string, endOfDay: boolean): Date {
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const parsed = dateOnly ? parseXsdDate(value) : parseXsdDateTime(value);
+  if (!parsed) {
+    throw new Error(
+      `Invalid date: ${value} (expected an existing date as YYYY-MM-DD or an ISO date-time)`
+    );
+  }
+  if (dateOnly && endOfDay) {
+    return new Date(startOfViennaDay(parsed, 1).getTime() - 1);
+  }
+  return parsed;
+}
+
+export function addOutputOptions(command: Command, fields: readonly string[]): Command {
+  return command
+    .addOption(
+      new Option("--format <format>", "Output format")
+        .choices(OUTPUT_FORMATS)
+        .default("table")
+    )
+    .option("--fields <list>", `Comma-separated fields (${fields.join(", ")})`);
+}
+
+export function resolveOutput(
+  options: Record<string, unknown>,
+  fields: readonly string[]
+): FormatOptions {
+  const output: FormatOptions = {
+    format: parseOutputFormat((options.format as string | undefined) ?? "table")
+  };
+  if (typeof options.fields === "string") {
+    output.fields = parseFields(options.fields, fields);
+  }
+  return output;
+}
+
+/** Stderr lines for data the server sent in an unexpected shape (see `entry.warnings`). */
+export function formatEntryWarnings(
+  entry: DataboxEntry,
+  warnings: string[] = entry.warnings ?? []
+): string[] {
+  return warnings.map(
+    (warning) => `Warning: unexpected data in entry ${entry.applkey || "(no applkey)"}: ${warning}`
+  );
+}
+
+export function parseNumber(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`Invalid number: ${value}`);
+  }
+  return parsed;
+}
+
+export function resolveOutputDir(
+  config: { output_dir: string },
+  overrideDir?: string
+): string {
+  return overrideDir ?? config.output_dir;
+}
+
+export function formatError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof SoapFaultError) {
+    return formatSoapFault(error);
+  }
+  const info = explainError(error);
+  if (!info) {
+    return message;
+  }
+  const description = message === info.en ? "" : ` ${info.en}`;
+  return `${message} [rc=${info.code} ${info.name}]${description} Hint: ${info.action}`;
+}
+
+function formatSoapFault(error: SoapFaultError): string {
+  const code = [error.faultCode, ...error.subcodes].filter(Boolean).join(" / ");
+  const status = error.status !== undefined ? ` HTTP ${error.status}` : "";
+  const detail = error.detail !== undefined ? ` Detail: ${JSON.stringify(error.detail)}` : "";
+  return `${error.message} [SOAP fault${code ? ` ${code}` : ""}${status}]${detail}`;
+}
@@ -0,0 +1,55 @@
+import { Command } from "commander";
+import {
+  overallState,
+  probeServices,
+  ServiceStatus,
+  STATUS_EXIT_CODES
+} from "../client/status.js";
+import { formatXsdDateTime } from "../models/dates.js";
+import { formatRecords, OutputRecord } from "../output/format.js";
+import { addOutputOptions, parseNumber, resolveOutput } from "./shared.js";
+
+const STATUS_FIELDS = [
+  "service",
+  "state",
+  "since",
+  "until",
+  "http_status",
+  "duration_ms",
+  "message"
+] as const;
+
+const DEFAULT_FIELDS = ["service", "state", "until", "message"];
+
+export function registerStatusCommand(program: Command) {
+  addOutputOptions(
+    program
+      .command("status")
+      .description("Check whether the session and DataBox services are up or in maintenance")
+      .option("--timeout <seconds>", "Timeout per service probe", parseNumber, 10),
+    STATUS_FIELDS
+  ).action(async (options: Record<string, unknown>) => {
+    const output = resolveOutput(options, STATUS_FIELDS);
+    const statuses = await probeServices({ timeoutSeconds: options.timeout as number });
+
+    console.log(
+      formatRecords(statuses.map(toStatusRecord), {
+        ...output,
+        fields: output.fields ?? (output.format === "table" ? DEFAULT_FIELDS : [...STATUS_FIELDS])
+      })
+    );
+    process.exitCode = STATUS_EXIT_CODES[overallState(statuses)];
+  });
+}
+
+function toStatusRecord(status: ServiceStatus): OutputRecord {
+  return {
+    service: status.service,
+    state: status.state,
+    since: status.startsAt ? formatXsdDateTime(status.startsAt) : "",
+    until: status.endsAt ? formatXsdDateTime(status.endsAt) : "",
+    http_status: status.httpStatus === undefined ? "" : String(status.httpStatus),
+    duration_ms: String(status.durationMs),
+    message: status.error ?? status.notice ?? ""
+  };
+}
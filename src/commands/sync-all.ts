@@ -0,0 +1,141 @@
+import { Command, Option } from "commander";
+import { FinanzonlineClient } from "../client/finanzonline.js";
+import {
+  loadParticipantManifest,
+  resolveParticipantConfig
+} from "../config/manifest.js";
+import { parseErltyp } from "../models/codes.js";
+import { formatRecords, OutputRecord } from "../output/format.js";
+import {
+  BATCH_EXIT_CODES,
+  BatchReport,
+  ParticipantReport,
+  runBatchSync
+} from "../sync/batch.js";
+import { DEFAULT_REQUESTS_PER_SECOND, RateLimiter } from "../sync/rate-limit.js";
+import { syncDatabox } from "../sync/run.js";
+import {
+  abortOnSignals,
+  addRangeOptions,
+  buildFilter,
+  formatError,
+  parseNumber,
+  resolveClientOptions,
+  resolveConfigOptions
+} from "./shared.js";
+
+const REPORT_FIELDS = [
+  "name",
+  "status",
+  "new",
+  "skipped",
+  "failed",
+  "error_class",
+  "rc",
+  "error"
+];
+
+export function registerSyncAllCommand(program: Command) {
+  const command = addRangeOptions(program
+    .command("sync-all")
+    .description("Sync the DataBox of every participant listed in a manifest")
+    .requiredOption("--manifest <file>", "Participant manifest (TOML or JSON)")
+    .option("--concurrency <n>", "Participants synced in parallel", parseNumber, 2)
+    .option(
+      "--rate-limit <n>",
+      "Maximum download requests per second across all participants (0 disables)",
+      parseNumber,
+      DEFAULT_REQUESTS_PER_SECOND
+    )
+    .option("--erltyp <type>", "Filter by document type (default: B)", parseErltyp)
+    .option("--all", "Include both read and unread documents"));
+
+  command.addOption(
+    new Option("--format <format>", "Summary format").choices(["table", "json"]).default("table")
+  );
+
+  command.action(async (options: Record<string, unknown>) => {
+    const participants = loadParticipantManifest(options.manifest as string);
+    const configOptions = resolveConfigOptions(program);
+    const clientOptions = resolveClientOptions(program);
+    const filter = buildFilter(options, (options.erltyp as string | undefined) ?? "B");
+    const log = options.format === "table" ? console.log : console.error;
+    const rateLimiter = new RateLimiter(options.rateLimit as number);
+
+    const clients = new Set<FinanzonlineClient>();
+    const controller = new AbortController();
+    const release = abortOnSignals(controller, {
+      close: async () => {
+        await Promise.all([...clients].map((client) => client.close()));
+      }
+    });
+
+    let report: BatchReport;
+    try {
+      report = await runBatchSync(participants, {
+        concurrency: options.concurrency as number,
+        signal: controller.signal,
+        sync: async (participant) => {
+          const config = resolveParticipantConfig(participant, configOptions);
+          const client = new FinanzonlineClient(config, clientOptions);
+          clients.add(client);
+          try {
+            const result = await syncDatabox(client, {
+              filter,
+              outputDir: config.output_dir,
+              collision: config.collision_policy,
+              rateLimiter,
+              signal: controller.signal,
+              ...(config.filename_template
+                ? { filenameTemplate: config.filename_template }
+                : {}),
+              onSaved: (document) => log(`[${participant.name}] Saved ${document.path}`),
+              onError: (failure) =>
+                console.error(
+                  `[${participant.name}] Failed ${failure.entry.applkey}: ${formatError(failure.error)}`
+                )
+            });
+            return { outputDir: config.output_dir, result };
+          } finally {
+            clients.delete(client);
+            await client.close();
+          }
+        },
+        onFinished: (participant) => {
+          if (participant.error) {
+            console.error(`[${participant.name}] Failed: ${participant.error.message}`);
+          }
+        }
+      });
+    } finally {
+      release();
+    }
+
+    if (options.format === "json") {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      console.log(
+        formatRecords(report.participants.map(toReportRecord), {
+          format: "table",
+          fields: REPORT_FIELDS
+        })
+      );
+      console.log(`Batch ${report.aborted ? "aborted" : "finished"}: ${report.status}.`);
+    }
+    process.exitCode = report.aborted ? 130 : BATCH_EXIT_CODES[report.status];
+  });
+}
+
+function toReportRecord(participant: ParticipantReport): OutputRecord {
+  const firstFailure = participant.error ?? participant.failures[0];
+  return {
+    name: participant.name,
+    status: participant.aborted ? `${participant.status} (aborted)` : participant.status,
+    new: String(participant.new),
+    skipped: String(participant.skipped),
+    failed: String(participant.failed),
+    error_class: firstFailure?.errorClass ?? "",
+    rc: firstFailure?.returnCode === undefined ? "" : String(firstFailure.returnCode),
+    error: firstFailure?.message ?? ""
+  };
+}
@@ -0,0 +1,125 @@
+import { Command } from "commander";
+import {
+  formatRecords,
+  OutputRecord,
+  SAVED_FIELDS,
+  serializeSaved
+} from "../output/format.js";
+import { parseErltyp } from "../models/codes.js";
+import { ProgressReporter } from "../output/progress.js";
+import { DEFAULT_DOWNLOAD_CONCURRENCY, SyncEngine, SyncFailure } from "../sync/engine.js";
+import { DEFAULT_REQUESTS_PER_SECOND, RateLimiter } from "../sync/rate-limit.js";
+import {
+  addOutputOptions,
+  addRangeOptions,
+  buildFilter,
+  formatEntryWarnings,
+  formatError,
+  parseNumber,
+  resolveConfig,
+  resolveOutput,
+  resolveOutputDir,
+  runWithClient
+} from "./shared.js";
+
+export function registerSyncCommand(program: Command) {
+  const command = addRangeOptions(program
+    .command("sync")
+    .description("Download all new documents")
+    .option("--output <dir>", "Output directory")
+    .option("--erltyp <type>", "Filter by document type (default: B)", parseErltyp)
+    .option("--all", "Include both read and unread documents")
+    .option(
+      "--concurrency <n>",
+      "Documents downloaded in parallel",
+      parseNumber,
+      DEFAULT_DOWNLOAD_CONCURRENCY
+    )
+    .option(
+      "--rate-limit <n>",
+      "Maximum download requests per second (0 disables the limit)",
+      parseNumber,
+      DEFAULT_REQUESTS_PER_SECOND
+    )
+    .option("--no-progress", "Do not show download progress on stderr"));
+
+  addOutputOptions(command, SAVED_FIELDS).action(
+    async (options: Record<string, unknown>) => {
+      const output = resolveOutput(options, SAVED_FIELDS);
+      const config = resolveConfig(program);
+      const erltyp = (options.erltyp as string | undefined) ?? "B";
+      const log = output.format === "table" ? console.log : console.error;
+
+      const outputDir = resolveOutputDir(config, options.output as string | undefined);
+      const saved: OutputRecord[] = [];
+      const progress =
+        options.progress === false ? undefined : new ProgressReporter(process.stderr);
+      const print = (line: string, write: (line: string) => void = console.log) =>
+        progress ? progress.log(line, write) : write(line);
+
+      const controller = new AbortController();
+      const result = await runWithClient(program, config, (client) => {
+        const engine = new SyncEngine(client, {
+          filter: buildFilter(options, erltyp),
+          outputDir,
+          concurrency: options.concurrency as number,
+          rateLimiter: new RateLimiter(options.rateLimit as number),
+          collision: config.collision_policy,
+          ...(config.filename_template ? { naming: config.filename_template } : {})
+        });
+        engine.on("entryDiscovered", ({ entry }) => {
+          for (const line of formatEntryWarnings(entry)) {
+            print(line, console.error);
+          }
+        });
+        engine.on("downloadCompleted", (document) => {
+          saved.push(
+            serializeSaved(document.entry, document.path, document.sha256, document.mimeType)
+          );
+          for (const line of formatEntryWarnings(document.entry, document.warnings)) {
+            print(line, console.error);
+          }
+          if (output.format === "table") {
+            print(`Saved ${document.path} (sha256 ${document.sha256})`);
+          } else if (output.format === "ndjson") {
+            print(formatRecords(saved.slice(-1), output));
+          }
+        });
+        if (progress) {
+          engine.on("progress", (state) => progress.update(state));
+        }
+        return engine.run(controller.signal);
+      }, controller);
+      progress?.finish();
+
+      if (result.listed === 0 && !result.aborted) {
+        log("No entries to sync.");
+        return;
+      }
+
+      if (output.format === "json" || output.format === "csv") {
+        console.log(formatRecords(saved, output));
+      }
+
+      log(
+        `Sync ${result.aborted ? "aborted" : "finished"}: ${result.saved.length} new, ` +
+          `${result.skipped} skipped, ${result.failures.length} failed.`
+      );
+      if (result.failures.length > 0) {
+        reportFailures(result.failures);
+      }
+      if (result.aborted) {
+        process.exitCode = 130;
+      } else if (result.failures.length > 0) {
+        process.exitCode = 1;
+      }
+    }
+  );
+}
+
+function reportFailures(failures: SyncFailure[]) {
+  console.error(`Failed downloads (${failures.length}):`);
+  for (const failure of failures) {
+    console.error(`  ${failure.entry.applkey}: ${formatError(failure.error)}`);
+  }
+}
@@ -0,0 +1,156 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { ConfigurationError } from "../errors.js";
+
+export const KEYSTORE_FILE_NAME = ".finanzonline-keystore.json";
+
+const KEY_LENGTH = 32;
+const SCRYPT_OPTIONS = { N: 2 ** 14, r: 8, p: 1 };
+
+interface EncryptedEntry {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+interface KeystoreFile {
+  version: 1;
+  kdf: "scrypt";
+  salt: string;
+  entries: Record<string, EncryptedEntry>;
+}
+
+export function defaultKeystorePath(env: NodeJS.ProcessEnv = process.env): string {
+  const homeDir = env.HOME ?? env.USERPROFILE ?? process.cwd();
+  return path.join(homeDir, KEYSTORE_FILE_NAME);
+}
+
+/** `keystore_file` with a leading `~` expanded, else the default path. */
+export function resolveKeystoreFile(
+  filePath: string | undefined,
+  env: NodeJS.ProcessEnv = process.env
+): string {
+  return filePath ? expandHome(filePath, env) : defaultKeystorePath(env);
+}
+
+/** Expands a leading `~` to the home directory; dotenv and the environment do not. */
+export function expandHome(filePath: string, env: NodeJS.ProcessEnv = process.env): string {
+  const homeDir = env.HOME ?? env.USERPROFILE;
+  if (homeDir && (filePath === "~" || /^~[\\/]/.test(filePath))) {
+    return path.join(homeDir, filePath.slice(1));
+  }
+  return filePath;
+}
+
+/** AES-256-GCM encrypted secrets, keyed by name and unlocked by one passphrase. */
+export class Keystore {
+  private constructor(
+    readonly filePath: string,
+    private readonly data: KeystoreFile,
+    private readonly key: Buffer
+  ) {}
+
+  static open(filePath: string, passphrase: string): Keystore {
+    if (!passphrase) {
+      throw new ConfigurationError("A keystore passphrase is required");
+    }
+
+    const data = fs.existsSync(filePath)
+      ? readKeystoreFile(filePath)
+      : {
+          version: 1 as const,
+          kdf: "scrypt" as const,
+          salt: crypto.randomBytes(16).toString("base64"),
+          entries: {}
+        };
+    const key = crypto.scryptSync(
+      passphrase,
+      Buffer.from(data.salt, "base64"),
+      KEY_LENGTH,
+      SCRYPT_OPTIONS
+    );
+    return new Keystore(filePath, data, key);
+  }
+
+  names(): string[] {
+    return Object.keys(this.data.entries).sort();
+  }
+
+  has(name: string): boolean {
+    return name in this.data.entries;
+  }
+
+  get(name: string): string {
+    const entry = this.data.entries[name];
+    if (!entry) {
+      throw new ConfigurationError(`No secret "${name}" in keystore ${this.filePath}`);
+    }
+
+    try {
+      const decipher = crypto.createDecipheriv(
+        "aes-256-gcm",
+        this.key,
+        Buffer.from(entry.iv, "base64")
+      );
+      decipher.setAAD(Buffer.from(name));
+      decipher.setAuthTag(Buffer.from(entry.tag, "base64"));
+      return Buffer.concat([
+        decipher.update(Buffer.from(entry.data, "base64")),
+        decipher.final()
+      ]).toString("utf8");
+    } catch {
+      throw new ConfigurationError(
+        `Cannot decrypt "${name}" from ${this.filePath}: wrong passphrase or corrupted keystore`
+      );
+    }
+  }
+
+  set(name: string, secret: string): void {
+    // Refuse to mix passphrases: an existing entry must decrypt with this key.
+    const existing = this.names()[0];
+    if (existing !== undefined) {
+      this.get(existing);
+    }
+
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", this.key, iv);
+    cipher.setAAD(Buffer.from(name));
+    const data = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+    this.data.entries[name] = {
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      data: data.toString("base64")
+    };
+    this.save();
+  }
+
+  remove(name: string): boolean {
+    if (!this.has(name)) {
+      return false;
+    }
+    delete this.data.entries[name];
+    this.save();
+    return true;
+  }
+
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, `${JSON.stringify(this.data, null, 2)}\n`, { mode: 0o600 });
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+function readKeystoreFile(filePath: string): KeystoreFile {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, "utf8")) as Partial<KeystoreFile>;
+    if (parsed.version !== 1 || parsed.kdf !== "scrypt" || typeof parsed.salt !== "string") {
+      throw new Error("unsupported format");
+    }
+    return { version: 1, kdf: "scrypt", salt: parsed.salt, entries: parsed.entries ?? {} };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ConfigurationError(`Cannot read keystore ${filePath}: ${message}`);
+  }
+}
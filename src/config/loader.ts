@@ -3,9 +3,23 @@ import path from "node:path";
 import dotenv from "dotenv";
 import toml from "toml";
 import { ConfigurationError } from "../errors.js";
+import { resolveKeystoreFile } from "./keystore.js";
+import {
+  ConfigLayerInput,
+  ConfigValueSources,
+  mergeLayers,
+  PROFILE_ENV_KEY,
+  ProfileSummary,
+  readProfileSections,
+  selectProfileSection,
+  withDefaultSources
+} from "./profiles.js";
+import { mapEnvToConfig, pickConfig } from "./mapping.js";
+import { keepHighestPinSource, resolvePin } from "./secrets.js";
 import {
   FinanzonlineConfig,
   FinanzonlineConfigInput,
+  FinanzonlineSettings,
   finanzonlineSchema
 } from "./schema.js";
 
@@ -14,6 +28,8 @@ export interface ConfigLoadOptions {
   startDir?: string;
   configFile?: string;
   env?: NodeJS.ProcessEnv;
+  profile?: string;
+  keystorePassphrase?: string;
 }
 
 export interface ConfigLoadResult {
@@ -21,44 +37,113 @@ export interface ConfigLoadResult {
   sources: {
     tomlPath?: string;
     dotenvPath?: string;
+    profile?: string;
+    values: ConfigValueSources;
   };
 }
 
-const ENV_PREFIX = "FINANZONLINE__";
-
 export function loadConfig(options: ConfigLoadOptions = {}): ConfigLoadResult {
-  const startDir = options.startDir ?? process.cwd();
   const env = options.env ?? process.env;
+  const { layers, tomlResult, dotenvResult, profile } = loadLayers(options);
 
-  const tomlResult = loadTomlConfig(options.configFile, startDir, env);
-  const dotenvResult = loadDotEnv(startDir, env);
-  const envConfig = loadEnvConfig(env);
-  const cliConfig = options.cli ?? {};
-
-  const merged = mergeConfigs(
-    tomlResult.config,
-    dotenvResult.config,
-    envConfig,
-    cliConfig
-  );
+  const merged = mergeLayers(keepHighestPinSource(layers));
 
-  const parsed = validateConfig(merged);
+  const parsed = validateConfig(merged.config);
+  const config = resolvePin(parsed, {
+    env,
+    ...(options.keystorePassphrase ? { keystorePassphrase: options.keystorePassphrase } : {})
+  });
 
-  const sources: ConfigLoadResult["sources"] = {};
+  const sources: ConfigLoadResult["sources"] = {
+    values: withDefaultSources(parsed, merged.values)
+  };
   if (tomlResult.path) {
     sources.tomlPath = tomlResult.path;
   }
   if (dotenvResult.path) {
     sources.dotenvPath = dotenvResult.path;
   }
+  if (profile) {
+    sources.profile = profile;
+  }
 
   return {
-    config: parsed,
+    config,
     sources
   };
 }
 
-function validateConfig(config: FinanzonlineConfigInput): FinanzonlineConfig {
+/**
+ * The validated configuration without its PIN resolved, for commands that only need the
+ * account and local paths: no `pin_command` runs and no keystore is unlocked.
+ */
+export function loadSettings(options: ConfigLoadOptions = {}): FinanzonlineSettings {
+  const merged = mergeLayers(keepHighestPinSource(loadLayers(options).layers));
+  return validateConfig(merged.config);
+}
+
+/**
+ * The keystore file the merged TOML, profile, `.env`, environment and CLI layers point
+ * to. Unlike `loadConfig` this needs no credentials, so `secrets` can run before a PIN
+ * exists.
+ */
+export function resolveKeystorePath(options: ConfigLoadOptions = {}): string {
+  const env = options.env ?? process.env;
+  const merged = mergeLayers(loadLayers(options).layers);
+  return resolveKeystoreFile(merged.config.keystore_file, env);
+}
+
+export function listProfiles(options: ConfigLoadOptions = {}): ProfileSummary[] {
+  const startDir = options.startDir ?? process.cwd();
+  const env = options.env ?? process.env;
+
+  const tomlResult = loadTomlConfig(options.configFile, startDir, env);
+  const dotenvResult = loadDotEnv(startDir, env);
+  const active = resolveProfileName(options, env, dotenvResult.vars);
+
+  return Object.entries(tomlResult.profiles).map(([name, section]) => ({
+    name,
+    active: name === active,
+    config: mergeLayers([
+      { layer: "toml", config: tomlResult.config },
+      { layer: "profile", profile: name, config: pickConfig(section) }
+    ]).config
+  }));
+}
+
+function loadLayers(options: ConfigLoadOptions) {
+  const startDir = options.startDir ?? process.cwd();
+  const env = options.env ?? process.env;
+
+  const tomlResult = loadTomlConfig(options.configFile, startDir, env);
+  const dotenvResult = loadDotEnv(startDir, env);
+  const profile = resolveProfileName(options, env, dotenvResult.vars);
+
+  const layers: ConfigLayerInput[] = [{ layer: "toml", config: tomlResult.config }];
+  if (profile) {
+    const section = selectProfileSection(tomlResult.profiles, profile);
+    layers.push({ layer: "profile", profile, config: pickConfig(section) });
+  }
+  layers.push(
+    { layer: "dotenv", config: dotenvResult.config },
+    { layer: "env", config: loadEnvConfig(env) },
+    { layer: "cli", config: options.cli ?? {} }
+  );
+
+  return { layers, tomlResult, dotenvResult, profile };
+}
+
+function resolveProfileName(
+  options: ConfigLoadOptions,
+  env: NodeJS.ProcessEnv,
+  dotenvVars: Record<string, string>
+): string | undefined {
+  const name = options.profile ?? env[PROFILE_ENV_KEY] ?? dotenvVars[PROFILE_ENV_KEY];
+  const trimmed = name?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+function validateConfig(config: FinanzonlineConfigInput): FinanzonlineSettings {
   try {
     return finanzonlineSchema.parse(config);
   } catch (error) {
@@ -74,11 +159,12 @@ function loadTomlConfig(
   env: NodeJS.ProcessEnv
 ): {
   config: FinanzonlineConfigInput;
+  profiles: Record<string, Record<string, unknown>>;
   path?: string;
 } {
   const resolvedPath = configFile ?? findFileUpwards(startDir, "finanzonline.toml", env);
   if (!resolvedPath) {
-    return { config: {} };
+    return { config: {}, profiles: {} };
   }
 
   const raw = fs.readFileSync(resolvedPath, "utf8");
@@ -86,79 +172,27 @@ function loadTomlConfig(
   const section = (parsed.finanzonline ?? {}) as Record<string, unknown>;
   const config = pickConfig(section);
 
-  return { config, path: resolvedPath };
+  return { config, profiles: readProfileSections(parsed), path: resolvedPath };
 }
 
 function loadDotEnv(
   startDir: string,
   env: NodeJS.ProcessEnv
-): { config: FinanzonlineConfigInput; path?: string } {
+): { config: FinanzonlineConfigInput; vars: Record<string, string>; path?: string } {
   const dotenvPath = findFileUpwards(startDir, ".env", env);
   if (!dotenvPath) {
-    return { config: {} };
+    return { config: {}, vars: {} };
   }
 
   const raw = fs.readFileSync(dotenvPath, "utf8");
   const parsed = dotenv.parse(raw) as Record<string, string>;
-  return { config: mapEnvToConfig(parsed), path: dotenvPath };
+  return { config: mapEnvToConfig(parsed), vars: parsed, path: dotenvPath };
 }
 
 function loadEnvConfig(env: NodeJS.ProcessEnv): FinanzonlineConfigInput {
   return mapEnvToConfig(env as Record<string, string | undefined>);
 }
 
-function mapEnvToConfig(env: Record<string, string | undefined>): FinanzonlineConfigInput {
-  const getValue = (key: string): string | undefined => env[`${ENV_PREFIX}${key}`];
-
-  return pickConfig({
-    tid: getValue("TID"),
-    benid: getValue("BENID"),
-    pin: getValue("PIN"),
-    herstellerid: getValue("HERSTELLERID"),
-    output_dir: getValue("OUTPUT_DIR"),
-    session_timeout: parseOptionalNumber(getValue("SESSION_TIMEOUT")),
-    query_timeout: parseOptionalNumber(getValue("QUERY_TIMEOUT"))
-  });
-}
-
-function parseOptionalNumber(value: string | undefined): number | undefined {
-  if (!value) {
-    return undefined;
-  }
-  const parsed = Number(value);
-  return Number.isFinite(parsed) ? parsed : undefined;
-}
-
-function pickConfig(source: Record<string, unknown>): FinanzonlineConfigInput {
-  const candidate = {
-    tid: typeof source.tid === "string" ? source.tid : undefined,
-    benid: typeof source.benid === "string" ? source.benid : undefined,
-    pin: typeof source.pin === "string" ? source.pin : undefined,
-    herstellerid:
-      typeof source.herstellerid === "string" ? source.herstellerid : undefined,
-    output_dir:
-      typeof source.output_dir === "string" ? source.output_dir : undefined,
-    session_timeout:
-      typeof source.session_timeout === "number" ? source.session_timeout : undefined,
-    query_timeout:
-      typeof source.query_timeout === "number" ? source.query_timeout : undefined
-  };
-
-  return candidate;
-}
-
-function mergeConfigs(...configs: FinanzonlineConfigInput[]): FinanzonlineConfigInput {
-  const merged: FinanzonlineConfigInput = {};
-  for (const config of configs) {
-    for (const [key, value] of Object.entries(config)) {
-      if (value !== undefined && value !== null) {
-        merged[key as keyof FinanzonlineConfigInput] = value as never;
-      }
-    }
-  }
-  return merged;
-}
-
 function findFileUpwards(
   startDir: string,
   filename: string,
@@ -0,0 +1,84 @@
+import fs from "node:fs";
+import path from "node:path";
+import toml from "toml";
+import { z } from "zod";
+import { ConfigurationError } from "../errors.js";
+import { ConfigLoadOptions, loadConfig } from "./loader.js";
+import { pickConfig } from "./mapping.js";
+import { FinanzonlineConfig, FinanzonlineConfigInput } from "./schema.js";
+
+const participantSchema = z
+  .object({
+    name: z.string().trim().regex(/^[\w.-]+$/, "use letters, digits, '.', '_' or '-'"),
+    profile: z.string().trim().min(1).optional()
+  })
+  .passthrough();
+
+const manifestSchema = z.object({
+  participants: z.array(participantSchema).min(1)
+});
+
+export interface Participant {
+  name: string;
+  profile?: string;
+  config: FinanzonlineConfigInput;
+}
+
+export function loadParticipantManifest(filePath: string): Participant[] {
+  const raw = fs.readFileSync(filePath, "utf8");
+  let parsed: unknown;
+  try {
+    parsed = path.extname(filePath).toLowerCase() === ".json" ? JSON.parse(raw) : toml.parse(raw);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ConfigurationError(`Cannot parse manifest ${filePath}: ${message}`);
+  }
+
+  const result = manifestSchema.safeParse(Array.isArray(parsed) ? { participants: parsed } : parsed);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      .join("; ");
+    throw new ConfigurationError(`Invalid manifest ${filePath}: ${issues}`);
+  }
+
+  const participants = result.data.participants.map(({ name, profile, ...rest }) => ({
+    name,
+    ...(profile ? { profile } : {}),
+    config: definedOnly(pickConfig(rest))
+  }));
+  const seen = new Set<string>();
+  for (const { name } of participants) {
+    if (seen.has(name.toLowerCase())) {
+      throw new ConfigurationError(`Duplicate participant "${name}" in manifest ${filePath}`);
+    }
+    seen.add(name.toLowerCase());
+  }
+  return participants;
+}
+
+export function resolveParticipantConfig(
+  participant: Participant,
+  options: ConfigLoadOptions = {}
+): FinanzonlineConfig {
+  const { config, sources } = loadConfig({
+    ...options,
+    ...(participant.profile ? { profile: participant.profile } : {}),
+    cli: { ...options.cli, ...participant.config }
+  });
+
+  // Participants without their own output_dir get a subdirectory of the shared one,
+  // so their ledgers never mix.
+  const ownOutputDir =
+    participant.config.output_dir !== undefined ||
+    (participant.profile !== undefined && sources.values.output_dir?.layer === "profile");
+  return ownOutputDir
+    ? config
+    : { ...config, output_dir: path.join(config.output_dir, participant.name) };
+}
+
+function definedOnly(config: FinanzonlineConfigInput): FinanzonlineConfigInput {
+  return Object.fromEntries(
+    Object.entries(config).filter(([, value]) => value !== undefined)
+  ) as FinanzonlineConfigInput;
+}
@@ -0,0 +1,105 @@
+import { CollisionPolicy } from "../sync/files.js";
+import { FinanzonlineConfigInput } from "./schema.js";
+
+const ENV_PREFIX = "FINANZONLINE__";
+
+export function mapEnvToConfig(env: Record<string, string | undefined>): FinanzonlineConfigInput {
+  const getValue = (key: string): string | undefined => env[`${ENV_PREFIX}${key}`];
+
+  return pickConfig({
+    tid: getValue("TID"),
+    benid: getValue("BENID"),
+    pin: getValue("PIN"),
+    pin_file: getValue("PIN_FILE"),
+    pin_command: getValue("PIN_COMMAND"),
+    pin_keystore: getValue("PIN_KEYSTORE"),
+    keystore_file: getValue("KEYSTORE_FILE"),
+    herstellerid: getValue("HERSTELLERID"),
+    output_dir: getValue("OUTPUT_DIR"),
+    session_timeout: parseOptionalNumber(getValue("SESSION_TIMEOUT")),
+    query_timeout: parseOptionalNumber(getValue("QUERY_TIMEOUT")),
+    filename_template: getValue("FILENAME_TEMPLATE"),
+    collision_policy: getValue("COLLISION_POLICY"),
+    strict_parsing: parseOptionalBoolean(getValue("STRICT_PARSING")),
+    retry_attempts: parseOptionalNumber(getValue("RETRY_ATTEMPTS")),
+    retry_base_delay: parseOptionalNumber(getValue("RETRY_BASE_DELAY")),
+    retry_max_delay: parseOptionalNumber(getValue("RETRY_MAX_DELAY")),
+    retry_jitter: parseOptionalNumber(getValue("RETRY_JITTER")),
+    maintenance_retry_attempts: parseOptionalNumber(
+      getValue("MAINTENANCE_RETRY_ATTEMPTS")
+    ),
+    maintenance_retry_delay: parseOptionalNumber(getValue("MAINTENANCE_RETRY_DELAY")),
+    session_cache: parseOptionalBoolean(getValue("SESSION_CACHE")),
+    session_cache_file: getValue("SESSION_CACHE_FILE"),
+    session_cache_ttl: parseOptionalNumber(getValue("SESSION_CACHE_TTL"))
+  });
+}
+
+function parseOptionalNumber(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function parseOptionalBoolean(value: string | undefined): boolean | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const normalized = value.trim().toLowerCase();
+  if (["1", "true", "yes", "on"].includes(normalized)) {
+    return true;
+  }
+  return ["0", "false", "no", "off"].includes(normalized) ? false : undefined;
+}
+
+export function pickConfig(source: Record<string, unknown>): FinanzonlineConfigInput {
+  const candidate = {
+    tid: typeof source.tid === "string" ? source.tid : undefined,
+    benid: typeof source.benid === "string" ? source.benid : undefined,
+    pin: typeof source.pin === "string" ? source.pin : undefined,
+    pin_file: pickString(source.pin_file),
+    pin_command: pickString(source.pin_command),
+    pin_keystore: pickString(source.pin_keystore),
+    keystore_file: pickString(source.keystore_file),
+    herstellerid:
+      typeof source.herstellerid === "string" ? source.herstellerid : undefined,
+    output_dir:
+      typeof source.output_dir === "string" ? source.output_dir : undefined,
+    session_timeout:
+      typeof source.session_timeout === "number" ? source.session_timeout : undefined,
+    query_timeout:
+      typeof source.query_timeout === "number" ? source.query_timeout : undefined,
+    filename_template:
+      typeof source.filename_template === "string"
+        ? source.filename_template
+        : undefined,
+    // Unknown values are left for the schema to reject with a readable message.
+    collision_policy: pickString(source.collision_policy) as CollisionPolicy | undefined,
+    strict_parsing: pickBoolean(source.strict_parsing),
+    retry_attempts: pickNumber(source.retry_attempts),
+    retry_base_delay: pickNumber(source.retry_base_delay),
+    retry_max_delay: pickNumber(source.retry_max_delay),
+    retry_jitter: pickNumber(source.retry_jitter),
+    maintenance_retry_attempts: pickNumber(source.maintenance_retry_attempts),
+    maintenance_retry_delay: pickNumber(source.maintenance_retry_delay),
+    session_cache: typeof source.session_cache === "boolean" ? source.session_cache : undefined,
+    session_cache_file: pickString(source.session_cache_file),
+    session_cache_ttl: pickNumber(source.session_cache_ttl)
+  };
+
+  return candidate;
+}
+
+function pickString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+function pickNumber(value: unknown): number | undefined {
+  return typeof value === "number" ? value : undefined;
+}
+
+function pickBoolean(value: unknown): boolean | undefined {
+  return typeof value === "boolean" ? value : undefined;
+}
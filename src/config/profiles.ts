@@ -0,0 +1,115 @@
+import { ConfigurationError } from "../errors.js";
+import {
+  FinanzonlineConfig,
+  FinanzonlineConfigInput,
+  FinanzonlineSettings
+} from "./schema.js";
+
+export const PROFILE_ENV_KEY = "FINANZONLINE__PROFILE";
+
+export type ConfigLayer = "default" | "toml" | "profile" | "dotenv" | "env" | "cli";
+
+export interface ConfigValueSource {
+  layer: ConfigLayer;
+  profile?: string;
+}
+
+export type ConfigValueSources = Partial<
+  Record<keyof FinanzonlineConfig, ConfigValueSource>
+>;
+
+export interface ConfigLayerInput {
+  layer: ConfigLayer;
+  profile?: string;
+  config: FinanzonlineConfigInput;
+}
+
+export interface ProfileSummary {
+  name: string;
+  active: boolean;
+  config: FinanzonlineConfigInput;
+}
+
+const SECRET_KEYS: (keyof FinanzonlineConfigInput)[] = ["pin"];
+
+export function readProfileSections(
+  parsed: Record<string, unknown>
+): Record<string, Record<string, unknown>> {
+  const profiles = parsed.profiles;
+  if (!isTable(profiles)) {
+    return {};
+  }
+
+  const sections: Record<string, Record<string, unknown>> = {};
+  for (const [name, section] of Object.entries(profiles)) {
+    if (isTable(section)) {
+      sections[name] = section;
+    }
+  }
+  return sections;
+}
+
+export function selectProfileSection(
+  sections: Record<string, Record<string, unknown>>,
+  name: string
+): Record<string, unknown> {
+  const section = sections[name];
+  if (!section) {
+    const available = Object.keys(sections);
+    throw new ConfigurationError(
+      available.length > 0
+        ? `Unknown profile "${name}". Configured profiles: ${available.join(", ")}`
+        : `Unknown profile "${name}". No [profiles.<name>] tables are configured.`
+    );
+  }
+  return section;
+}
+
+export function mergeLayers(layers: ConfigLayerInput[]): {
+  config: FinanzonlineConfigInput;
+  values: ConfigValueSources;
+} {
+  const config: FinanzonlineConfigInput = {};
+  const values: ConfigValueSources = {};
+
+  for (const { layer, profile, config: layerConfig } of layers) {
+    for (const [key, value] of Object.entries(layerConfig)) {
+      if (value === undefined || value === null) {
+        continue;
+      }
+      const name = key as keyof FinanzonlineConfigInput;
+      config[name] = value as never;
+      values[name] = profile ? { layer, profile } : { layer };
+    }
+  }
+
+  return { config, values };
+}
+
+export function withDefaultSources(
+  config: FinanzonlineSettings,
+  values: ConfigValueSources
+): ConfigValueSources {
+  const sources: ConfigValueSources = { ...values };
+  for (const [key, value] of Object.entries(config)) {
+    const name = key as keyof FinanzonlineSettings;
+    if (value !== undefined && !sources[name]) {
+      sources[name] = { layer: "default" };
+    }
+  }
+  return sources;
+}
+
+export function maskSecrets(config: FinanzonlineConfigInput): FinanzonlineConfigInput {
+  const masked = { ...config };
+  for (const key of SECRET_KEYS) {
+    if (masked[key] !== undefined) {
+      masked[key] = "***" as never;
+    }
+  }
+  return masked;
+}
+
+function isTable(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -1,23 +1,60 @@
 import { z } from "zod";
+import { COLLISION_POLICIES } from "../sync/files.js";
 
 const nonEmpty = z.string().trim().min(1);
 
-export const finanzonlineSchema = z.object({
+export const PIN_SOURCE_KEYS = ["pin", "pin_file", "pin_command", "pin_keystore"] as const;
+
+export type PinSourceKey = (typeof PIN_SOURCE_KEYS)[number];
+
+const finanzonlineObjectSchema = z.object({
   tid: z.string().regex(/^[0-9A-Za-z]{8,12}$/),
   benid: z.string().min(5).max(12),
-  pin: z.string().min(5).max(128),
+  pin: z.string().min(5).max(128).optional(),
+  pin_file: nonEmpty.optional(),
+  pin_command: nonEmpty.optional(),
+  pin_keystore: nonEmpty.optional(),
+  keystore_file: nonEmpty.optional(),
   herstellerid: z.string().regex(/^[0-9A-Za-z]{10,24}$/),
   output_dir: nonEmpty,
   session_timeout: z.number().int().positive().optional().default(30),
-  query_timeout: z.number().int().positive().optional().default(30)
+  query_timeout: z.number().int().positive().optional().default(30),
+  filename_template: nonEmpty.optional(),
+  collision_policy: z.enum(COLLISION_POLICIES).optional().default("error"),
+  strict_parsing: z.boolean().optional().default(false),
+  retry_attempts: z.number().int().positive().optional().default(3),
+  retry_base_delay: z.number().nonnegative().optional().default(1),
+  retry_max_delay: z.number().nonnegative().optional().default(30),
+  retry_jitter: z.number().min(0).max(1).optional().default(0.2),
+  maintenance_retry_attempts: z.number().int().positive().optional().default(1),
+  maintenance_retry_delay: z.number().nonnegative().optional().default(300),
+  session_cache: z.boolean().optional().default(false),
+  session_cache_file: nonEmpty.optional(),
+  session_cache_ttl: z.number().int().positive().optional().default(600)
 });
 
-export type FinanzonlineConfig = z.infer<typeof finanzonlineSchema>;
+export const finanzonlineSchema = finanzonlineObjectSchema.superRefine((config, ctx) => {
+  const sources = PIN_SOURCE_KEYS.filter((key) => config[key] !== undefined);
+  if (sources.length !== 1) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["pin"],
+      message:
+        sources.length === 0
+          ? `One PIN source is required: ${PIN_SOURCE_KEYS.join(", ")}`
+          : `Only one PIN source may be set, got: ${sources.join(", ")}`
+    });
+  }
+});
+
+export type FinanzonlineSettings = z.infer<typeof finanzonlineSchema>;
+
+/** Validated configuration with the PIN resolved from its source. */
+export type FinanzonlineConfig = FinanzonlineSettings & { pin: string };
 
-export const finanzonlinePartialSchema = finanzonlineSchema.partial({
+export const finanzonlinePartialSchema = finanzonlineObjectSchema.partial({
   tid: true,
   benid: true,
-  pin: true,
   herstellerid: true,
   output_dir: true
 });
@@ -0,0 +1,116 @@
+import { execSync } from "node:child_process";
+import fs from "node:fs";
+import { ConfigurationError } from "../errors.js";
+import { expandHome, Keystore, resolveKeystoreFile } from "./keystore.js";
+import { ConfigLayerInput } from "./profiles.js";
+import {
+  FinanzonlineConfig,
+  FinanzonlineSettings,
+  PIN_SOURCE_KEYS
+} from "./schema.js";
+
+export const KEYSTORE_PASSPHRASE_ENV_KEY = "FINANZONLINE__KEYSTORE_PASSPHRASE";
+
+const PIN_COMMAND_TIMEOUT_MS = 30_000;
+
+export interface PinResolveOptions {
+  env?: NodeJS.ProcessEnv;
+  keystorePassphrase?: string;
+}
+
+export function resolvePin(
+  settings: FinanzonlineSettings,
+  options: PinResolveOptions = {}
+): FinanzonlineConfig {
+  const env = options.env ?? process.env;
+  return { ...settings, pin: readPin(settings, env, options.keystorePassphrase) };
+}
+
+/**
+ * A layer that names a PIN source replaces the sources of lower layers, so a
+ * profile or `--pin` can override a `pin_file` from the base section.
+ */
+export function keepHighestPinSource(layers: ConfigLayerInput[]): ConfigLayerInput[] {
+  const hasPinSource = (layer: ConfigLayerInput) =>
+    PIN_SOURCE_KEYS.some((key) => layer.config[key] !== undefined);
+  let highest = -1;
+  layers.forEach((layer, index) => {
+    if (hasPinSource(layer)) {
+      highest = index;
+    }
+  });
+
+  return layers.map((layer, index) => {
+    if (index >= highest) {
+      return layer;
+    }
+    const config = { ...layer.config };
+    for (const key of PIN_SOURCE_KEYS) {
+      delete config[key];
+    }
+    return { ...layer, config };
+  });
+}
+
+function readPin(
+  settings: FinanzonlineSettings,
+  env: NodeJS.ProcessEnv,
+  passphrase: string | undefined
+): string {
+  if (settings.pin !== undefined) {
+    return settings.pin;
+  }
+  if (settings.pin_file !== undefined) {
+    return readPinFile(expandHome(settings.pin_file, env));
+  }
+  if (settings.pin_command !== undefined) {
+    return runPinCommand(settings.pin_command);
+  }
+  if (settings.pin_keystore !== undefined) {
+    const keystore = Keystore.open(
+      resolveKeystoreFile(settings.keystore_file, env),
+      passphrase ?? env[KEYSTORE_PASSPHRASE_ENV_KEY] ?? ""
+    );
+    return requirePin(keystore.get(settings.pin_keystore), "keystore");
+  }
+  throw new ConfigurationError("No PIN source configured");
+}
+
+function readPinFile(filePath: string): string {
+  try {
+    return requirePin(fs.readFileSync(filePath, "utf8"), `pin_file ${filePath}`);
+  } catch (error) {
+    if (error instanceof ConfigurationError) {
+      throw error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ConfigurationError(`Cannot read pin_file ${filePath}: ${message}`);
+  }
+}
+
+function runPinCommand(command: string): string {
+  try {
+    const output = execSync(command, {
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "pipe"],
+      timeout: PIN_COMMAND_TIMEOUT_MS
+    });
+    // Tools like `pass show` print the secret on the first line.
+    return requirePin(output.split(/\r?\n/)[0] ?? "", "pin_command");
+  } catch (error) {
+    if (error instanceof ConfigurationError) {
+      throw error;
+    }
+    const stderr = (error as { stderr?: unknown }).stderr;
+    const detail = typeof stderr === "string" && stderr.trim() ? `: ${stderr.trim()}` : "";
+    throw new ConfigurationError(`pin_command failed${detail}`);
+  }
+}
+
+function requirePin(value: string, source: string): string {
+  const pin = value.trim();
+  if (!pin) {
+    throw new ConfigurationError(`${source} returned an empty PIN`);
+  }
+  return pin;
+}
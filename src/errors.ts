@@ -8,14 +8,40 @@ export class FinanzonlineError extends Error {
 export class ConfigurationError extends FinanzonlineError {}
 
 export class NetworkError extends FinanzonlineError {
-  constructor(message: string, public readonly cause?: unknown) {
+  constructor(
+    message: string,
+    public readonly cause?: unknown,
+    public readonly status?: number
+  ) {
     super(message);
   }
 }
 
+export interface SoapFaultInfo {
+  soapVersion?: "1.1" | "1.2";
+  subcodes?: string[];
+  actor?: string;
+  detail?: unknown;
+  rawFault?: string;
+  status?: number;
+}
+
 export class SoapFaultError extends FinanzonlineError {
-  constructor(message: string, public readonly faultCode?: string) {
+  readonly soapVersion: "1.1" | "1.2" | undefined;
+  readonly subcodes: string[];
+  readonly actor: string | undefined;
+  readonly detail: unknown;
+  readonly rawFault: string | undefined;
+  readonly status: number | undefined;
+
+  constructor(message: string, public readonly faultCode?: string, info: SoapFaultInfo = {}) {
     super(message);
+    this.soapVersion = info.soapVersion;
+    this.subcodes = info.subcodes ?? [];
+    this.actor = info.actor;
+    this.detail = info.detail;
+    this.rawFault = info.rawFault;
+    this.status = info.status;
   }
 }
 
@@ -25,7 +51,39 @@ export class InvalidXmlError extends FinanzonlineError {
   }
 }
 
-export class MaintenanceError extends FinanzonlineError {}
+export interface MaintenanceWindow {
+  startsAt?: Date;
+  endsAt?: Date;
+  notice?: string;
+}
+
+export class MaintenanceError extends FinanzonlineError {
+  readonly startsAt: Date | undefined;
+  readonly endsAt: Date | undefined;
+  readonly notice: string | undefined;
+
+  /** Set when the service answered with rc=-2 instead of the maintenance page. */
+  readonly returnCode: number | undefined;
+
+  constructor(message: string, window: MaintenanceWindow = {}, returnCode?: number) {
+    super(message);
+    this.returnCode = returnCode;
+    this.startsAt = window.startsAt;
+    this.endsAt = window.endsAt;
+    this.notice = window.notice;
+  }
+}
+
+export class ResponseValidationError extends FinanzonlineError {
+  constructor(
+    message: string,
+    public readonly operation: string,
+    public readonly fields: string[],
+    public readonly applkey?: string
+  ) {
+    super(message);
+  }
+}
 
 export class InvalidCredentialsError extends FinanzonlineError {
   constructor(message: string, public readonly returnCode: number) {
@@ -50,3 +108,29 @@ export class DataboxError extends FinanzonlineError {
     super(message);
   }
 }
+
+export class FileNameCollisionError extends FinanzonlineError {
+  constructor(
+    message: string,
+    public readonly fileName: string,
+    public readonly applkeys: string[]
+  ) {
+    super(message);
+  }
+}
+
+export class DocumentIntegrityError extends FinanzonlineError {
+  constructor(
+    message: string,
+    public readonly filePath: string,
+    public readonly expectedType: string
+  ) {
+    super(message);
+  }
+}
+
+export class UserLockedError extends SessionError {}
+
+export class NotAuthorizedError extends SessionError {}
+
+export class InvalidDateRangeError extends DataboxError {}
@@ -1,24 +1,294 @@
 export { SessionClient } from "./client/session.js";
 export { DataboxClient } from "./client/databox.js";
-export { loadConfig } from "./config/loader.js";
+export {
+  FinanzonlineClient,
+  retryOptionsFromConfig,
+  sessionCacheFromConfig
+} from "./client/finanzonline.js";
+export type { FinanzonlineClientOptions } from "./client/finanzonline.js";
+export {
+  closeOnSignals,
+  FinanzonlineSession,
+  withSession
+} from "./client/managed.js";
 export type {
+  ManagedSessionOptions,
+  SessionOperation,
+  WithSessionOptions
+} from "./client/managed.js";
+export {
+  DEFAULT_SESSION_CACHE_TTL_SECONDS,
+  defaultSessionCachePath,
+  SESSION_CACHE_FILE_NAME,
+  SessionCache
+} from "./client/session-cache.js";
+export type { CachedSession, SessionCacheOptions } from "./client/session-cache.js";
+export {
+  describeReturnCode,
+  explainError,
+  RETURN_CODES,
+  returnCodeError
+} from "./client/return-codes.js";
+export type { ReturnCodeInfo, ReturnCodeService } from "./client/return-codes.js";
+export {
+  combineInterceptors,
+  createLoggingInterceptors,
+  createTraceFileInterceptors,
+  redactSoapXml
+} from "./client/interceptors.js";
+export type {
+  SoapErrorEvent,
+  SoapInterceptors,
+  SoapRequestEvent,
+  SoapResponseEvent
+} from "./client/interceptors.js";
+export {
+  computeDelay,
+  isRetryable,
+  maintenanceDelay,
+  NO_RETRY_POLICY,
+  resolveRetryPolicy,
+  withRetry
+} from "./client/retry.js";
+export type {
+  ErrorClass,
+  MaintenanceRetryPolicy,
+  RetryOptions,
+  RetryPolicy
+} from "./client/retry.js";
+export {
+  databoxEntryResponseSchema,
+  databoxEntrySchema,
+  databoxListResponseSchema,
+  loginResponseSchema,
+  logoutResponseSchema,
+  parseDataboxEntry,
+  parsePayload
+} from "./client/payloads.js";
+export { Base64ChunkDecoder, streamSoapResult } from "./client/stream.js";
+export type { SoapResultStream } from "./client/stream.js";
+export {
+  checkLookback,
+  DEFAULT_MAX_WINDOW_DAYS,
+  MAX_LOOKBACK_DAYS,
+  splitDateRange,
+  splitListRequest
+} from "./client/windows.js";
+export type { DateWindow } from "./client/windows.js";
+export { maintenanceError, parseMaintenancePage } from "./client/maintenance.js";
+export {
+  overallState,
+  probeService,
+  probeServices,
+  STATUS_EXIT_CODES
+} from "./client/status.js";
+export type {
+  ProbeOptions,
+  ServiceName,
+  ServiceState,
+  ServiceStatus
+} from "./client/status.js";
+export { listProfiles, loadConfig, loadSettings, resolveKeystorePath } from "./config/loader.js";
+export type { ConfigLoadOptions, ConfigLoadResult } from "./config/loader.js";
+export { maskSecrets, PROFILE_ENV_KEY } from "./config/profiles.js";
+export {
+  keepHighestPinSource,
+  KEYSTORE_PASSPHRASE_ENV_KEY,
+  resolvePin
+} from "./config/secrets.js";
+export type { PinResolveOptions } from "./config/secrets.js";
+export {
+  defaultKeystorePath,
+  Keystore,
+  KEYSTORE_FILE_NAME,
+  resolveKeystoreFile
+} from "./config/keystore.js";
+export {
+  loadParticipantManifest,
+  resolveParticipantConfig
+} from "./config/manifest.js";
+export type { Participant } from "./config/manifest.js";
+export type {
+  ConfigLayer,
+  ConfigValueSource,
+  ConfigValueSources,
+  ProfileSummary
+} from "./config/profiles.js";
+export {
+  formatXsdDate,
+  formatXsdDateTime,
+  fromViennaLocal,
+  parseXsdDate,
+  parseXsdDateTime,
+  startOfViennaDay,
+  toViennaParts,
+  VIENNA_TIME_ZONE,
+  viennaOffsetMinutes
+} from "./models/dates.js";
+export type { LocalDateInput, LocalDateTime } from "./models/dates.js";
+export { parseAmount, parseBescheid } from "./models/bescheid.js";
+export type {
+  Bescheid,
+  BescheidAmount,
+  BescheidPeriod,
+  BescheidTaxpayer
+} from "./models/bescheid.js";
+export {
+  ANBRINGEN_CATALOG,
+  ANBRINGEN_CODES,
+  describeAnbringen,
+  describeErltyp,
+  ERLTYP_CATALOG,
+  ERLTYP_CODES,
+  parseErltyp
+} from "./models/codes.js";
+export type {
+  AnbringenCategory,
+  AnbringenCode,
+  AnbringenInfo,
+  CodeInfo,
+  Erledigungstyp,
+  ErltypCategory,
+  ErltypInfo
+} from "./models/codes.js";
+export {
+  contentTypeWarning,
+  describeDocument,
+  detectContentType,
+  fileartOf,
+  isOtherBinaryType,
+  SNIFF_LENGTH,
+  UNKNOWN_CONTENT_TYPE
+} from "./models/content-type.js";
+export type { ContentType } from "./models/content-type.js";
+export {
+  addPeriodMonths,
+  APPEAL_PERIOD_MONTHS,
+  austrianHolidays,
+  computeDeadlines,
+  daysUntil,
+  describeDeadline,
+  nonWorkingDayReason,
+  rollForward,
+  sortDeadlines
+} from "./models/deadlines.js";
+export type {
+  Deadline,
+  DeadlineBasis,
+  DeadlineKind,
+  DeadlineOptions,
+  Holiday
+} from "./models/deadlines.js";
+export type {
+  DataboxDocument,
   DataboxEntry,
+  DataboxFilter,
   DataboxListRequest,
+  DownloadedDocument,
   FileArt,
   FinanzonlineCredentials,
   ReadStatus,
   SessionInfo
 } from "./models/types.js";
-export type { FinanzonlineConfig } from "./config/schema.js";
+export {
+  LEDGER_FILE_NAME,
+  readLedger,
+  sha256,
+  SyncLedger
+} from "./sync/ledger.js";
+export type { LedgerRecord } from "./sync/ledger.js";
+export { DEFAULT_DOWNLOAD_CONCURRENCY, SyncEngine } from "./sync/engine.js";
+export type {
+  SavedDocument,
+  SyncClient,
+  SyncEngineOptions,
+  SyncEventName,
+  SyncEvents,
+  SyncFailure,
+  SyncListener,
+  SyncProgress,
+  SyncResult
+} from "./sync/engine.js";
+export { syncDatabox } from "./sync/run.js";
+export type { SyncOptions } from "./sync/run.js";
+export { BATCH_EXIT_CODES, runBatchSync, summarizeError } from "./sync/batch.js";
+export type {
+  BatchReport,
+  BatchStatus,
+  BatchSyncOptions,
+  DocumentFailure,
+  ErrorSummary,
+  ParticipantReport,
+  ParticipantSync
+} from "./sync/batch.js";
+export { mapWithConcurrency } from "./sync/concurrency.js";
+export { DEFAULT_REQUESTS_PER_SECOND, RateLimiter } from "./sync/rate-limit.js";
+export type { RateLimiterOptions } from "./sync/rate-limit.js";
+export {
+  COLLISION_POLICIES,
+  DEFAULT_COLLISION_POLICY,
+  hashFile,
+  verifyDocument,
+  writeStreamToFile
+} from "./sync/files.js";
+export type { CollisionPolicy, WriteOptions, WrittenFile } from "./sync/files.js";
+export {
+  DEFAULT_FILENAME_TEMPLATE,
+  formatDate,
+  planFileNames,
+  renderFileName,
+  sanitizeRelativePath,
+  sanitizeSegment,
+  validateFileNameTemplate
+} from "./sync/naming.js";
+export type { NamingStrategy } from "./sync/naming.js";
+export {
+  ENTRY_FIELDS,
+  formatRecords,
+  OUTPUT_FORMATS,
+  parseFields,
+  parseOutputFormat,
+  SAVED_FIELDS,
+  serializeEntry,
+  serializeSaved
+} from "./output/format.js";
+export type {
+  FormatOptions,
+  OutputFormat,
+  OutputRecord
+} from "./output/format.js";
+export { formatICalendar } from "./output/ics.js";
+export type { ICalendarOptions } from "./output/ics.js";
+export {
+  formatBytes,
+  formatDuration,
+  formatProgress,
+  ProgressReporter
+} from "./output/progress.js";
+export type { ProgressReporterOptions, ProgressWriter } from "./output/progress.js";
+export { finanzonlineSchema, PIN_SOURCE_KEYS } from "./config/schema.js";
+export type {
+  FinanzonlineConfig,
+  FinanzonlineConfigInput,
+  FinanzonlineSettings,
+  PinSourceKey
+} from "./config/schema.js";
 export {
   ConfigurationError,
   DataboxError,
+  DocumentIntegrityError,
+  FileNameCollisionError,
   FinanzonlineError,
   InvalidCredentialsError,
+  InvalidDateRangeError,
   InvalidXmlError,
   MaintenanceError,
   NetworkError,
+  NotAuthorizedError,
+  ResponseValidationError,
   SessionError,
   SessionExpiredError,
-  SoapFaultError
+  SoapFaultError,
+  UserLockedError
 } from "./errors.js";
+export type { MaintenanceWindow, SoapFaultInfo } from "./errors.js";
@@ -0,0 +1,362 @@
+import { XMLParser, XMLValidator } from "fast-xml-parser";
+import { z } from "zod";
+import { InvalidXmlError } from "../errors.js";
+import { fromViennaLocal, parseXsdDate } from "./dates.js";
+
+export interface BescheidTaxpayer {
+  name?: string;
+  stnr?: string;
+  address?: string;
+}
+
+export interface BescheidPeriod {
+  year?: number;
+  from?: Date;
+  to?: Date;
+}
+
+export interface BescheidAmount {
+  label: string;
+  amount: number;
+}
+
+/** A Bescheid delivered as XML, reduced to the fields most tools need. */
+export interface Bescheid {
+  /** Root element name, e.g. `Bescheid`. */
+  documentType: string;
+  schemaVersion?: string;
+  issuedAt?: Date;
+  taxpayer: BescheidTaxpayer;
+  taxType?: string;
+  period: BescheidPeriod;
+  assessedAmounts: BescheidAmount[];
+  assessedTotal?: number;
+  previousPayments?: number;
+  /** Positive when money is owed (Nachforderung), negative for a credit (Gutschrift). */
+  balance?: number;
+  dueDate?: Date;
+  rechtsmittelbelehrung?: string;
+  /** Recognized elements whose value could not be read. */
+  warnings: string[];
+}
+
+type XmlNode = Record<string, unknown>;
+
+const GERMAN_DATE = /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/;
+/** `1.234,56` or `1,234.56`: thousands groups, then the other separator as decimal mark. */
+const GROUPED_AMOUNT = /^([+-]?\d{1,3}(?:([.,])\d{3})+)(?!\2)[.,](\d+)$/;
+
+const text = z.string().trim().min(1);
+
+const amount = z.string().transform((value, ctx) => {
+  const parsed = parseAmount(value);
+  if (parsed === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${value}" is not an amount` });
+    return z.NEVER;
+  }
+  return parsed;
+});
+
+const date = z.string().transform((value, ctx) => {
+  const parsed = parseDocumentDate(value);
+  if (!parsed) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${value}" is not a date` });
+    return z.NEVER;
+  }
+  return parsed;
+});
+
+const year = z.string().regex(/^\d{4}$/, "Expected a four-digit year").transform(Number);
+
+interface FieldSpec<T> {
+  /** Element (or `@_attribute`) names, newest schema first; namespaces and case are ignored. */
+  aliases: string[];
+  schema: z.ZodType<T, z.ZodTypeDef, string>;
+}
+
+function field<T>(schema: z.ZodType<T, z.ZodTypeDef, string>, ...aliases: string[]) {
+  return { aliases, schema } satisfies FieldSpec<T>;
+}
+
+// The schema layer: every BMF schema version we have seen maps onto these names.
+const ROOT_FIELDS = {
+  schemaVersion: field(text, "@_version", "@_schemaVersion", "Version", "SchemaVersion"),
+  issuedAt: field(date, "Bescheiddatum", "Ausstellungsdatum", "Erstellungsdatum", "Datum"),
+  taxType: field(text, "Abgabenart", "Steuerart"),
+  assessedTotal: field(
+    amount,
+    "FestgesetzteAbgabe",
+    "Festsetzungsbetrag",
+    "Abgabenbetrag",
+    "Gesamtbetrag"
+  ),
+  previousPayments: field(
+    amount,
+    "Vorauszahlungen",
+    "BisherFestgesetzt",
+    "BisherigeZahlungen",
+    "Anrechnung"
+  ),
+  dueDate: field(date, "Faelligkeit", "Fälligkeit", "FaelligAm", "Faelligkeitsdatum"),
+  rechtsmittelbelehrung: field(text, "Rechtsmittelbelehrung", "Rechtsbelehrung")
+};
+
+const TAXPAYER_CONTAINERS = ["Abgabepflichtiger", "Steuerpflichtiger", "Steuerschuldner"];
+
+const TAXPAYER_FIELDS = {
+  name: field(text, "Name", "Bezeichnung", "Familienname"),
+  stnr: field(text, "Steuernummer", "StNr"),
+  address: field(text, "Anschrift", "Adresse")
+};
+
+const PERIOD_CONTAINERS = ["Zeitraum", "Veranlagungszeitraum", "Abgabenzeitraum"];
+
+const PERIOD_FIELDS = {
+  year: field(year, "Jahr", "Veranlagungsjahr", "Kalenderjahr"),
+  from: field(date, "@_von", "Von", "Beginn"),
+  to: field(date, "@_bis", "Bis", "Ende")
+};
+
+const AMOUNT_CONTAINERS = ["Festsetzung", "Betraege", "Beträge", "Abgaben"];
+const AMOUNT_LABELS = ["Bezeichnung", "Text", "Abgabenart"];
+const AMOUNT_VALUES = ["Betrag", "Wert"];
+
+// Later schema versions report a signed Saldo instead of Nachforderung/Gutschrift.
+const BALANCE_FIELDS: { aliases: string[]; sign: 1 | -1 }[] = [
+  { aliases: ["Abgabennachforderung", "Nachforderung", "Zahllast"], sign: 1 },
+  { aliases: ["Abgabengutschrift", "Gutschrift"], sign: -1 },
+  { aliases: ["Saldo", "Differenz"], sign: 1 }
+];
+
+/**
+ * Parses an XML Bescheid from the DataBox. Elements are looked up by alias
+ * and unknown ones are ignored, so new schema versions keep working as long
+ * as the fields keep one of their known names.
+ */
+export function parseBescheid(xml: string | Buffer): Bescheid {
+  const source = typeof xml === "string" ? xml : xml.toString("utf8");
+  const validation = XMLValidator.validate(source);
+  if (validation !== true) {
+    throw new InvalidXmlError(
+      `Bescheid is not well-formed XML: ${validation.err.msg} (line ${validation.err.line})`,
+      source.slice(0, 200)
+    );
+  }
+
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    removeNSPrefix: true,
+    parseTagValue: false,
+    parseAttributeValue: false
+  });
+  const parsed = parser.parse(source) as XmlNode;
+  const rootName = Object.keys(parsed).find((key) => !key.startsWith("?"));
+  const root = rootName ? parsed[rootName] : undefined;
+  if (!rootName || !isNode(root)) {
+    throw new InvalidXmlError("Bescheid has no root element", source.slice(0, 200));
+  }
+
+  const warnings: string[] = [];
+  const fields = readFields(root, ROOT_FIELDS, warnings);
+  const taxpayerNode = findNode(root, TAXPAYER_CONTAINERS);
+  const taxpayer = readFields(taxpayerNode ?? {}, TAXPAYER_FIELDS, warnings);
+  if (!taxpayer.stnr) {
+    Object.assign(taxpayer, readFields(root, { stnr: TAXPAYER_FIELDS.stnr }, warnings));
+  }
+  const periodValue = findValue(root, PERIOD_CONTAINERS);
+  const period = isNode(periodValue)
+    ? readFields(periodValue, PERIOD_FIELDS, warnings)
+    : readFields(root, { year: PERIOD_FIELDS.year }, warnings);
+  if (typeof periodValue === "string" && period.year === undefined) {
+    Object.assign(period, readValue("Zeitraum", periodValue, PERIOD_FIELDS.year, warnings));
+  }
+  const balance = readBalance(root, warnings);
+
+  const bescheid: Bescheid = {
+    documentType: rootName,
+    ...fields,
+    taxpayer,
+    period,
+    assessedAmounts: readAmounts(root, warnings),
+    ...(balance !== undefined ? { balance } : {}),
+    warnings
+  };
+
+  if (
+    bescheid.taxType === undefined &&
+    bescheid.assessedTotal === undefined &&
+    bescheid.balance === undefined &&
+    bescheid.assessedAmounts.length === 0
+  ) {
+    throw new InvalidXmlError(
+      `<${rootName}> is not a recognized Bescheid: no tax type, amounts or balance found`,
+      source.slice(0, 200)
+    );
+  }
+  return bescheid;
+}
+
+/**
+ * Reads `1.234,56`, `1,234.56`, `1234.56`, `-12,00` or `12,00-` (with optional `EUR`/`€`).
+ * With both separators the last one is the decimal mark; other mixes are `undefined`.
+ */
+export function parseAmount(value: string): number | undefined {
+  let normalized = value.replace(/EUR|€|\s/gi, "");
+  let sign = 1;
+  if (normalized.endsWith("-")) {
+    sign = -1;
+    normalized = normalized.slice(0, -1);
+  }
+  const grouped = GROUPED_AMOUNT.exec(normalized);
+  if (grouped) {
+    normalized = `${(grouped[1] ?? "").replace(/[.,]/g, "")}.${grouped[3]}`;
+  } else {
+    // A lone comma is the decimal mark; anything left with two marks fails the check below.
+    normalized = normalized.replace(",", ".");
+  }
+  if (!/^[+-]?\d+(?:\.\d+)?$/.test(normalized)) {
+    return undefined;
+  }
+  return sign * Number(normalized);
+}
+
+function parseDocumentDate(value: string): Date | null {
+  const match = GERMAN_DATE.exec(value.trim());
+  if (match) {
+    return fromViennaLocal({
+      year: Number(match[3]),
+      month: Number(match[2]),
+      day: Number(match[1])
+    });
+  }
+  return parseXsdDate(value);
+}
+
+type FieldValues<Specs extends Record<string, FieldSpec<unknown>>> = {
+  [K in keyof Specs]?: Specs[K] extends FieldSpec<infer T> ? T : never;
+};
+
+function readFields<Specs extends Record<string, FieldSpec<unknown>>>(
+  node: XmlNode,
+  specs: Specs,
+  warnings: string[]
+): FieldValues<Specs> {
+  const values: Record<string, unknown> = {};
+  for (const [name, spec] of Object.entries(specs)) {
+    const raw = findValue(node, spec.aliases);
+    const value = raw === undefined ? undefined : textOf(raw);
+    if (value !== undefined) {
+      Object.assign(values, readValue(name, value, spec, warnings));
+    }
+  }
+  return values as FieldValues<Specs>;
+}
+
+function readValue(
+  name: string,
+  value: string,
+  spec: FieldSpec<unknown>,
+  warnings: string[]
+): Record<string, unknown> {
+  const result = spec.schema.safeParse(value);
+  if (result.success) {
+    return { [name]: result.data };
+  }
+  warnings.push(`${name}: ${result.error.issues[0]?.message ?? "Invalid value"}`);
+  return {};
+}
+
+function readBalance(root: XmlNode, warnings: string[]): number | undefined {
+  for (const { aliases, sign } of BALANCE_FIELDS) {
+    const raw = findValue(root, aliases);
+    if (raw === undefined) {
+      continue;
+    }
+    const value = readValue("balance", textOf(raw), { aliases, schema: amount }, warnings);
+    return typeof value.balance === "number" ? sign * value.balance : undefined;
+  }
+  return undefined;
+}
+
+function readAmounts(root: XmlNode, warnings: string[]): BescheidAmount[] {
+  const container = findNode(root, AMOUNT_CONTAINERS);
+  if (!container) {
+    return [];
+  }
+  const amounts: BescheidAmount[] = [];
+  for (const [key, value] of Object.entries(container)) {
+    if (key.startsWith("@_")) {
+      continue;
+    }
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (!isNode(item)) {
+        continue;
+      }
+      const label = findValue(item, AMOUNT_LABELS, false);
+      const raw = findValue(item, AMOUNT_VALUES, false);
+      if (label === undefined || raw === undefined) {
+        continue;
+      }
+      const spec = { aliases: AMOUNT_VALUES, schema: amount };
+      const parsed = readValue("assessedAmounts", textOf(raw), spec, warnings);
+      if (typeof parsed.assessedAmounts === "number") {
+        amounts.push({ label: textOf(label), amount: parsed.assessedAmounts });
+      }
+    }
+  }
+  return amounts;
+}
+
+/** Breadth-first search for the first element named like one of `aliases`. */
+function findValue(node: XmlNode, aliases: string[], deep = true): unknown {
+  const wanted = aliases.map((alias) => alias.toLowerCase());
+  let level: XmlNode[] = [node];
+  while (level.length > 0) {
+    for (const wantedName of wanted) {
+      for (const current of level) {
+        const key = Object.keys(current).find((name) => name.toLowerCase() === wantedName);
+        if (key !== undefined) {
+          const value = current[key];
+          return Array.isArray(value) ? value[0] : value;
+        }
+      }
+    }
+    if (!deep) {
+      return undefined;
+    }
+    level = level.flatMap((current) =>
+      Object.entries(current)
+        .filter(([key]) => !key.startsWith("@_"))
+        .flatMap(([, value]) => (Array.isArray(value) ? value : [value]))
+        .filter(isNode)
+    );
+  }
+  return undefined;
+}
+
+function findNode(node: XmlNode, aliases: string[]): XmlNode | undefined {
+  const value = findValue(node, aliases);
+  return isNode(value) ? value : undefined;
+}
+
+// Mixed content such as paragraphs inside a Rechtsmittelbelehrung is joined with blank lines.
+function textOf(value: unknown): string {
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+    return String(value).trim();
+  }
+  if (Array.isArray(value)) {
+    return value.map(textOf).filter(Boolean).join("\n\n");
+  }
+  if (isNode(value)) {
+    return Object.entries(value)
+      .filter(([key]) => !key.startsWith("@_"))
+      .map(([, child]) => textOf(child))
+      .filter(Boolean)
+      .join("\n\n");
+  }
+  return "";
+}
+
+function isNode(value: unknown): value is XmlNode {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,173 @@
+import { ConfigurationError } from "../errors.js";
+
+/** Erledigungstypen accepted by `getDatabox` and reported as `erltyp`. */
+export const ERLTYP_CODES = ["B", "M", "I", "P", "EU"] as const;
+
+export type Erledigungstyp = (typeof ERLTYP_CODES)[number];
+
+/** Anbringen (form) codes commonly found in `DataboxEntry.anbringen`. */
+export const ANBRINGEN_CODES = [
+  "E1",
+  "E1a",
+  "E1b",
+  "E1c",
+  "E6",
+  "E7",
+  "L1",
+  "L1i",
+  "L1k",
+  "L16",
+  "U1",
+  "U30",
+  "UVA",
+  "ZM",
+  "K1"
+] as const;
+
+export type AnbringenCode = (typeof ANBRINGEN_CODES)[number];
+
+export type ErltypCategory = "decision" | "correspondence" | "receipt" | "refund";
+
+export type AnbringenCategory = "income-tax" | "payroll" | "vat" | "corporate-tax";
+
+export interface CodeInfo<Code extends string, Category extends string> {
+  code: Code;
+  de: string;
+  en: string;
+  category: Category;
+}
+
+export type ErltypInfo = CodeInfo<Erledigungstyp, ErltypCategory>;
+
+export type AnbringenInfo = CodeInfo<AnbringenCode, AnbringenCategory>;
+
+export const ERLTYP_CATALOG: readonly ErltypInfo[] = [
+  { code: "B", de: "Bescheid", en: "Decision", category: "decision" },
+  { code: "M", de: "Mitteilung", en: "Notice", category: "correspondence" },
+  { code: "I", de: "Information", en: "Information", category: "correspondence" },
+  { code: "P", de: "Protokoll", en: "Submission protocol", category: "receipt" },
+  { code: "EU", de: "EU-Erstattung", en: "EU VAT refund", category: "refund" }
+];
+
+export const ANBRINGEN_CATALOG: readonly AnbringenInfo[] = [
+  {
+    code: "E1",
+    de: "Einkommensteuererklärung",
+    en: "Income tax return",
+    category: "income-tax"
+  },
+  {
+    code: "E1a",
+    de: "Beilage für Einzelunternehmer",
+    en: "Supplement for sole proprietors",
+    category: "income-tax"
+  },
+  {
+    code: "E1b",
+    de: "Beilage für Einkünfte aus Vermietung und Verpachtung",
+    en: "Supplement for rental income",
+    category: "income-tax"
+  },
+  {
+    code: "E1c",
+    de: "Beilage für pauschalierte Land- und Forstwirte",
+    en: "Supplement for flat-rate farmers and foresters",
+    category: "income-tax"
+  },
+  {
+    code: "E6",
+    de: "Erklärung der Einkünfte von Personengesellschaften",
+    en: "Partnership income declaration",
+    category: "income-tax"
+  },
+  {
+    code: "E7",
+    de: "Einkommensteuererklärung für beschränkt Steuerpflichtige",
+    en: "Income tax return for non-residents",
+    category: "income-tax"
+  },
+  {
+    code: "L1",
+    de: "Arbeitnehmerveranlagung",
+    en: "Employee tax assessment",
+    category: "payroll"
+  },
+  {
+    code: "L1i",
+    de: "Beilage für Auslandseinkünfte",
+    en: "Supplement for foreign income",
+    category: "payroll"
+  },
+  {
+    code: "L1k",
+    de: "Beilage für Kinder",
+    en: "Supplement for children",
+    category: "payroll"
+  },
+  {
+    code: "L16",
+    de: "Lohnzettel",
+    en: "Payslip (wage statement)",
+    category: "payroll"
+  },
+  {
+    code: "U1",
+    de: "Umsatzsteuererklärung",
+    en: "Annual VAT return",
+    category: "vat"
+  },
+  {
+    code: "U30",
+    de: "Umsatzsteuervoranmeldung (Formular U30)",
+    en: "Advance VAT return (form U30)",
+    category: "vat"
+  },
+  {
+    code: "UVA",
+    de: "Umsatzsteuervoranmeldung",
+    en: "Advance VAT return",
+    category: "vat"
+  },
+  {
+    code: "ZM",
+    de: "Zusammenfassende Meldung",
+    en: "EC sales list",
+    category: "vat"
+  },
+  {
+    code: "K1",
+    de: "Körperschaftsteuererklärung",
+    en: "Corporate income tax return",
+    category: "corporate-tax"
+  }
+];
+
+export function describeErltyp(code: string): ErltypInfo | undefined {
+  return findCode(ERLTYP_CATALOG, code);
+}
+
+export function describeAnbringen(code: string): AnbringenInfo | undefined {
+  return findCode(ANBRINGEN_CATALOG, code);
+}
+
+/** Resolves user input such as `eu` to its Erledigungstyp or throws a `ConfigurationError`. */
+export function parseErltyp(value: string): Erledigungstyp {
+  const info = describeErltyp(value);
+  if (!info) {
+    const known = ERLTYP_CATALOG.map((entry) => `${entry.code} (${entry.en})`).join(", ");
+    throw new ConfigurationError(
+      `Unknown erltyp "${value}". Use one of: ${known}. See \`finanzonline codes\`.`
+    );
+  }
+  return info.code;
+}
+
+// Codes are matched case-insensitively and without blanks ("E 1a" is "E1a").
+function findCode<T extends { code: string }>(catalog: readonly T[], code: string): T | undefined {
+  const key = normalizeCode(code);
+  return catalog.find((info) => normalizeCode(info.code) === key);
+}
+
+function normalizeCode(code: string): string {
+  return code.replace(/\s+/g, "").toUpperCase();
+}
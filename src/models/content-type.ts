@@ -0,0 +1,101 @@
+import { DataboxDocument, FileArt } from "./types.js";
+
+export interface ContentType {
+  mimeType: string;
+  extension: string;
+}
+
+export const UNKNOWN_CONTENT_TYPE: ContentType = {
+  mimeType: "application/octet-stream",
+  extension: "bin"
+};
+
+/** How many leading bytes `detectContentType` looks at. */
+export const SNIFF_LENGTH = 512;
+
+const PDF: ContentType = { mimeType: "application/pdf", extension: "pdf" };
+const XML: ContentType = { mimeType: "application/xml", extension: "xml" };
+const HTML: ContentType = { mimeType: "text/html", extension: "html" };
+
+// Formats identified by a binary signature at offset 0.
+const MAGIC_NUMBERS: { magic: number[]; type: ContentType }[] = [
+  { magic: [0x25, 0x50, 0x44, 0x46, 0x2d], type: PDF },
+  { magic: [0x50, 0x4b, 0x03, 0x04], type: { mimeType: "application/zip", extension: "zip" } },
+  { magic: [0x50, 0x4b, 0x05, 0x06], type: { mimeType: "application/zip", extension: "zip" } },
+  { magic: [0x1f, 0x8b], type: { mimeType: "application/gzip", extension: "gz" } },
+  {
+    magic: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+    type: { mimeType: "image/png", extension: "png" }
+  },
+  { magic: [0xff, 0xd8, 0xff], type: { mimeType: "image/jpeg", extension: "jpg" } },
+  { magic: [0x47, 0x49, 0x46, 0x38], type: { mimeType: "image/gif", extension: "gif" } },
+  { magic: [0x49, 0x49, 0x2a, 0x00], type: { mimeType: "image/tiff", extension: "tif" } },
+  { magic: [0x4d, 0x4d, 0x00, 0x2a], type: { mimeType: "image/tiff", extension: "tif" } }
+];
+
+/**
+ * Identifies a document from its first bytes: binary signatures first, then
+ * markup after an optional byte order mark. HTML is told apart from XML
+ * because error pages are HTML, never a DataBox document.
+ */
+export function detectContentType(head: Uint8Array): ContentType {
+  for (const { magic, type } of MAGIC_NUMBERS) {
+    if (magic.every((byte, index) => head[index] === byte)) {
+      return type;
+    }
+  }
+
+  const markup = decodeText(head).trimStart();
+  if (/^(?:<!--[\s\S]*?-->\s*)*<!doctype\s+html|^<html[\s>]/i.test(markup)) {
+    return HTML;
+  }
+  if (/^<\?xml[\s?]|^<[A-Za-z_]/.test(markup)) {
+    return XML;
+  }
+  return UNKNOWN_CONTENT_TYPE;
+}
+
+/** The DataBox file type matching `type`, if it is one of them. */
+export function fileartOf(type: ContentType): FileArt | undefined {
+  if (type.mimeType === PDF.mimeType) {
+    return "PDF";
+  }
+  return type.mimeType === XML.mimeType ? "XML" : undefined;
+}
+
+/** True for archives and images, which carry a signature but no DataBox file type. */
+export function isOtherBinaryType(type: ContentType): boolean {
+  return (
+    fileartOf(type) === undefined &&
+    MAGIC_NUMBERS.some((signature) => signature.type.mimeType === type.mimeType)
+  );
+}
+
+/** A warning when the sniffed content contradicts the entry's `fileart`. */
+export function contentTypeWarning(fileart: FileArt, type: ContentType): string | undefined {
+  if (fileartOf(type) === fileart) {
+    return undefined;
+  }
+  return `fileart: declared ${fileart} but the content is ${type.mimeType} (.${type.extension})`;
+}
+
+/** Sniffs `content` and, given the entry's `fileart`, warns about a mismatch. */
+export function describeDocument(content: Buffer, fileart?: FileArt): DataboxDocument {
+  const type = detectContentType(content.subarray(0, SNIFF_LENGTH));
+  const warning = fileart ? contentTypeWarning(fileart, type) : undefined;
+  return { content, ...type, ...(warning ? { warnings: [warning] } : {}) };
+}
+
+function decodeText(head: Uint8Array): string {
+  const bytes = Buffer.from(head.buffer, head.byteOffset, head.byteLength);
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return bytes.subarray(2).toString("utf16le");
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    const swapped = Buffer.from(bytes.subarray(2, bytes.length - (bytes.length % 2)));
+    return swapped.swap16().toString("utf16le");
+  }
+  const withoutBom =
+    bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf ? bytes.subarray(3) : bytes;
+  return withoutBom.toString("utf8");
+}
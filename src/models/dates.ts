@@ -0,0 +1,181 @@
+export const VIENNA_TIME_ZONE = "Europe/Vienna";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const XSD_DATE = /^(\d{4})-(\d{2})-(\d{2})(Z|[+-]\d{2}:\d{2})?$/;
+const XSD_DATE_TIME =
+  /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/;
+
+const partsFormatter = new Intl.DateTimeFormat("en-US", {
+  timeZone: VIENNA_TIME_ZONE,
+  hourCycle: "h23",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit"
+});
+
+export interface LocalDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+export type LocalDateInput = Pick<LocalDateTime, "year" | "month" | "day"> &
+  Partial<LocalDateTime>;
+
+export function toViennaParts(date: Date): LocalDateTime {
+  const values: Record<string, number> = {};
+  for (const part of partsFormatter.formatToParts(date)) {
+    if (part.type !== "literal") {
+      values[part.type] = Number(part.value);
+    }
+  }
+  return {
+    year: values.year ?? 0,
+    month: values.month ?? 1,
+    day: values.day ?? 1,
+    hour: values.hour ?? 0,
+    minute: values.minute ?? 0,
+    second: values.second ?? 0
+  };
+}
+
+export function viennaOffsetMinutes(date: Date): number {
+  const parts = toViennaParts(date);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  const wholeSeconds = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - wholeSeconds) / 60000);
+}
+
+export function fromViennaLocal(local: LocalDateInput, milliseconds = 0): Date {
+  const asUtc = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour ?? 0,
+    local.minute ?? 0,
+    local.second ?? 0,
+    milliseconds
+  );
+  // Two passes settle the offset even when the guess lands across a DST change.
+  let guess = asUtc - viennaOffsetMinutes(new Date(asUtc)) * 60000;
+  guess = asUtc - viennaOffsetMinutes(new Date(guess)) * 60000;
+  return new Date(guess);
+}
+
+export function startOfViennaDay(date: Date, addDays = 0): Date {
+  const parts = toViennaParts(date);
+  const shifted = new Date(
+    Date.UTC(parts.year, parts.month - 1, parts.day) + addDays * DAY_MS
+  );
+  return fromViennaLocal({
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate()
+  });
+}
+
+export function formatXsdDate(date: Date): string {
+  const parts = toViennaParts(date);
+  return `${pad(parts.year, 4)}-${pad(parts.month)}-${pad(parts.day)}`;
+}
+
+export function formatXsdDateTime(date: Date): string {
+  const parts = toViennaParts(date);
+  const offset = viennaOffsetMinutes(date);
+  const sign = offset < 0 ? "-" : "+";
+  const absolute = Math.abs(offset);
+  return (
+    `${formatXsdDate(date)}T${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}` +
+    `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`
+  );
+}
+
+/**
+ * Parses an `xsd:date`. Without an offset it is the Vienna calendar day (its midnight); with
+ * `Z` or `±hh:mm` it is midnight at that offset. Dates that do not exist, like `2024-02-31`,
+ * give `null` instead of rolling over. Full `xsd:dateTime` values are accepted too.
+ */
+export function parseXsdDate(value: string | undefined): Date | null {
+  const match = XSD_DATE.exec(value?.trim() ?? "");
+  if (!match) {
+    return parseXsdDateTime(value);
+  }
+  const local = { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+  if (!isValidLocal(local)) {
+    return null;
+  }
+  return match[4] ? atOffset(local, match[4]) : fromViennaLocal(local);
+}
+
+export function parseXsdDateTime(value: string | undefined): Date | null {
+  const trimmed = value?.trim() ?? "";
+  const match = XSD_DATE_TIME.exec(trimmed);
+  if (!match) {
+    return null;
+  }
+
+  const local = {
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+    hour: Number(match[4]),
+    minute: Number(match[5]),
+    second: Number(match[6])
+  };
+  if (!isValidLocal(local)) {
+    return null;
+  }
+  const milliseconds = match[7] ? Math.round(Number(match[7]) * 1000) : 0;
+  // Timestamps without an offset are Austrian local time.
+  return match[8] ? atOffset(local, match[8], milliseconds) : fromViennaLocal(local, milliseconds);
+}
+
+// Rejects values `Date.UTC` would silently roll over, e.g. 31 February or 24:30.
+function isValidLocal(local: LocalDateInput): boolean {
+  const { year, month, day, hour = 0, minute = 0, second = 0 } = local;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day &&
+    hour < 24 &&
+    minute < 60 &&
+    second < 60
+  );
+}
+
+// `offset` is `Z` or `±hh:mm`, up to ±14:00 as XML Schema allows.
+function atOffset(local: LocalDateInput, offset: string, milliseconds = 0): Date | null {
+  const match = /^([+-])(\d{2}):(\d{2})$/.exec(offset);
+  const minutes = match ? Number(match[2]) * 60 + Number(match[3]) : 0;
+  if (minutes > 14 * 60 || Number(match?.[3] ?? 0) > 59) {
+    return null;
+  }
+  const asUtc = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour ?? 0,
+    local.minute ?? 0,
+    local.second ?? 0,
+    milliseconds
+  );
+  return new Date(asUtc - (match?.[1] === "-" ? -minutes : minutes) * 60000);
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, "0");
+}
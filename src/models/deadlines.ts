@@ -0,0 +1,260 @@
+import { Bescheid } from "./bescheid.js";
+import { describeErltyp } from "./codes.js";
+import { formatXsdDate, fromViennaLocal, toViennaParts } from "./dates.js";
+import { DataboxEntry } from "./types.js";
+
+export type DeadlineKind = "appeal" | "payment";
+
+/** Where the start of a deadline was taken from. */
+export type DeadlineBasis = "ts_zust" | "datbesch" | "document";
+
+export interface Deadline {
+  kind: DeadlineKind;
+  applkey: string;
+  entry: DataboxEntry;
+  /** Vienna midnight of the last day; the deadline runs until the end of that day. */
+  date: Date;
+  /** Delivery day the period is counted from, or the document's due date. */
+  start: Date;
+  basis: DeadlineBasis;
+  /** The unadjusted end when it fell on a weekend or holiday and was moved forward. */
+  rolledFrom?: Date;
+  /** Outstanding amount in EUR for payment deadlines. */
+  amount?: number;
+  title: string;
+}
+
+export interface DeadlineOptions {
+  /** The parsed document; supplies the payment due date and amount. */
+  bescheid?: Pick<Bescheid, "dueDate" | "balance">;
+}
+
+export interface Holiday {
+  date: Date;
+  name: string;
+}
+
+/** Beschwerdefrist under § 245 Abs. 1 BAO. */
+export const APPEAL_PERIOD_MONTHS = 1;
+
+interface Day {
+  year: number;
+  month: number;
+  day: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Statutory holidays (§ 7 Abs. 2 ARG), as day offsets from Easter Sunday or fixed dates.
+const EASTER_HOLIDAYS: readonly [number, string][] = [
+  [1, "Ostermontag"],
+  [39, "Christi Himmelfahrt"],
+  [50, "Pfingstmontag"],
+  [60, "Fronleichnam"]
+];
+
+const FIXED_HOLIDAYS: readonly [number, number, string][] = [
+  [1, 1, "Neujahr"],
+  [1, 6, "Heilige Drei Könige"],
+  [5, 1, "Staatsfeiertag"],
+  [8, 15, "Mariä Himmelfahrt"],
+  [10, 26, "Nationalfeiertag"],
+  [11, 1, "Allerheiligen"],
+  [12, 8, "Mariä Empfängnis"],
+  [12, 25, "Christtag"],
+  [12, 26, "Stefanitag"]
+];
+
+const holidayCache = new Map<number, Map<string, string>>();
+
+/** Austrian public holidays of a year, in calendar order, as Vienna midnights. */
+export function austrianHolidays(year: number): Holiday[] {
+  return [...holidayMap(year)]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, name]) => ({ date: toDate(fromKey(key)), name }));
+}
+
+/**
+ * Why a deadline cannot end on this Vienna calendar day: Saturday, Sunday, a public
+ * holiday, Karfreitag or 24 December (§ 108 Abs. 3 BAO). `undefined` for working days.
+ */
+export function nonWorkingDayReason(date: Date): string | undefined {
+  const day = toDay(date);
+  const weekday = new Date(utcOf(day)).getUTCDay();
+  if (weekday === 6) {
+    return "Samstag";
+  }
+  if (weekday === 0) {
+    return "Sonntag";
+  }
+  const holiday = holidayMap(day.year).get(keyOf(day));
+  if (holiday) {
+    return holiday;
+  }
+  if (keyOf(day) === keyOf(shiftDay(easterSunday(day.year), -2))) {
+    return "Karfreitag";
+  }
+  if (day.month === 12 && day.day === 24) {
+    return "Heiliger Abend";
+  }
+  return undefined;
+}
+
+/** The Vienna day itself if deadlines may end on it, else the next day that qualifies. */
+export function rollForward(date: Date): Date {
+  let day = toDay(date);
+  while (nonWorkingDayReason(toDate(day))) {
+    day = shiftDay(day, 1);
+  }
+  return toDate(day);
+}
+
+/**
+ * Adds months the way § 108 Abs. 2 BAO counts them: the period ends on the day with the
+ * same number, or on the last day of the month when that day does not exist.
+ */
+export function addPeriodMonths(date: Date, months: number): Date {
+  const start = toDay(date);
+  const monthIndex = start.month - 1 + months;
+  const year = start.year + Math.floor(monthIndex / 12);
+  const month = (((monthIndex % 12) + 12) % 12) + 1;
+  return toDate({ year, month, day: Math.min(start.day, daysInMonth(year, month)) });
+}
+
+/**
+ * Deadlines triggered by a DataBox entry: the Beschwerdefrist for Bescheide, counted
+ * from `ts_zust` (or `datbesch` when the delivery time is missing), and the payment
+ * due date stated in the document when `options.bescheid` is given.
+ */
+export function computeDeadlines(entry: DataboxEntry, options: DeadlineOptions = {}): Deadline[] {
+  const deadlines: Deadline[] = [];
+  const label = entry.filebez || entry.applkey;
+
+  const delivered = entry.ts_zust ?? entry.datbesch;
+  if (describeErltyp(entry.erltyp)?.category === "decision" && delivered) {
+    const start = toDate(toDay(delivered));
+    const end = addPeriodMonths(start, APPEAL_PERIOD_MONTHS);
+    const date = rollForward(end);
+    deadlines.push({
+      kind: "appeal",
+      applkey: entry.applkey,
+      entry,
+      date,
+      start,
+      basis: entry.ts_zust ? "ts_zust" : "datbesch",
+      ...(date.getTime() !== end.getTime() ? { rolledFrom: end } : {}),
+      title: `Beschwerdefrist: ${label}`
+    });
+  }
+
+  // The due date is printed in the document; it is not recomputed or moved.
+  const { dueDate, balance } = options.bescheid ?? {};
+  if (dueDate && (balance === undefined || balance > 0)) {
+    const date = toDate(toDay(dueDate));
+    deadlines.push({
+      kind: "payment",
+      applkey: entry.applkey,
+      entry,
+      date,
+      start: date,
+      basis: "document",
+      ...(balance !== undefined ? { amount: balance } : {}),
+      title: `Zahlungsfrist: ${label}`
+    });
+  }
+
+  return deadlines;
+}
+
+/** Sorts by date, appeals before payments on the same day. */
+export function sortDeadlines(deadlines: Deadline[]): Deadline[] {
+  return [...deadlines].sort(
+    (a, b) => a.date.getTime() - b.date.getTime() || a.kind.localeCompare(b.kind)
+  );
+}
+
+/** Whole Vienna calendar days from `now` until the deadline's last day (0 = today). */
+export function daysUntil(deadline: Pick<Deadline, "date">, now: Date = new Date()): number {
+  return Math.round((utcOf(toDay(deadline.date)) - utcOf(toDay(now))) / DAY_MS);
+}
+
+export function describeDeadline(deadline: Deadline): string {
+  const start = formatXsdDate(deadline.start);
+  if (deadline.kind === "payment") {
+    const amount = deadline.amount === undefined ? "" : ` of ${deadline.amount.toFixed(2)} EUR`;
+    return `Payment${amount} due as stated in the document`;
+  }
+  const from = deadline.basis === "ts_zust" ? "delivery" : "Bescheid date (no delivery time)";
+  const { rolledFrom } = deadline;
+  const rolled = rolledFrom
+    ? `; moved from ${formatXsdDate(rolledFrom)} (${nonWorkingDayReason(rolledFrom)})`
+    : "";
+  return `Appeal period of ${APPEAL_PERIOD_MONTHS} month from ${from} on ${start}${rolled}`;
+}
+
+function holidayMap(year: number): Map<string, string> {
+  let holidays = holidayCache.get(year);
+  if (!holidays) {
+    const easter = easterSunday(year);
+    holidays = new Map([
+      ...FIXED_HOLIDAYS.map(([month, day, name]) => [keyOf({ year, month, day }), name] as const),
+      ...EASTER_HOLIDAYS.map(([offset, name]) => [keyOf(shiftDay(easter, offset)), name] as const)
+    ]);
+    holidayCache.set(year, holidays);
+  }
+  return holidays;
+}
+
+// Anonymous Gregorian algorithm (Meeus/Jones/Butcher).
+function easterSunday(year: number): Day {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return { year, month, day };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function toDay(date: Date): Day {
+  const { year, month, day } = toViennaParts(date);
+  return { year, month, day };
+}
+
+function toDate(day: Day): Date {
+  return fromViennaLocal(day);
+}
+
+function utcOf(day: Day): number {
+  return Date.UTC(day.year, day.month - 1, day.day);
+}
+
+function shiftDay(day: Day, days: number): Day {
+  const shifted = new Date(utcOf(day) + days * DAY_MS);
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate()
+  };
+}
+
+function keyOf(day: Day): string {
+  return `${day.year}-${String(day.month).padStart(2, "0")}-${String(day.day).padStart(2, "0")}`;
+}
+
+function fromKey(key: string): Day {
+  const [year = 0, month = 1, day = 1] = key.split("-").map(Number);
+  return { year, month, day };
+}
@@ -1,19 +1,24 @@
+import { AnbringenCode, Erledigungstyp } from "./codes.js";
+
 export type FileArt = "PDF" | "XML";
 export type ReadStatus = "READ" | "UNREAD";
 
 export interface DataboxEntry {
   stnr: string;
   name: string;
-  anbringen: string;
+  /** Known codes are listed in `ANBRINGEN_CATALOG`; others pass through unchanged. */
+  anbringen: AnbringenCode | (string & {});
   zrvon: string;
   zrbis: string;
-  datbesch: Date;
-  erltyp: string;
+  datbesch: Date | null;
+  erltyp: Erledigungstyp | (string & {});
   fileart: FileArt;
-  ts_zust: Date;
+  ts_zust: Date | null;
   applkey: string;
   filebez: string;
   status: ReadStatus;
+  /** Fields the server sent in an unexpected shape and that were replaced by a fallback. */
+  warnings?: string[];
 }
 
 export interface SessionInfo {
@@ -30,7 +35,7 @@ export interface FinanzonlineCredentials {
 }
 
 export interface DataboxListRequest {
-  erltyp?: string;
+  erltyp?: Erledigungstyp | (string & {});
   ts_zust_von?: Date;
   ts_zust_bis?: Date;
 }
@@ -38,3 +43,25 @@ export interface DataboxListRequest {
 export interface DataboxDownloadRequest {
   applkey: string;
 }
+
+export interface DataboxFilter {
+  erltyp?: Erledigungstyp | (string & {});
+  days?: number;
+  from?: Date;
+  to?: Date;
+  status?: ReadStatus | "ALL";
+}
+
+/** Decoded document bytes with the type sniffed from their content. */
+export interface DataboxDocument {
+  content: Buffer;
+  mimeType: string;
+  extension: string;
+  /** Set when the content contradicts the entry's `fileart`. */
+  warnings?: string[];
+}
+
+export interface DownloadedDocument {
+  entry: DataboxEntry;
+  content: Buffer;
+}
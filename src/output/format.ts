@@ -0,0 +1,144 @@
+import { ConfigurationError } from "../errors.js";
+import { describeAnbringen, describeErltyp } from "../models/codes.js";
+import { formatXsdDate } from "../models/dates.js";
+import { DataboxEntry } from "../models/types.js";
+
+export type OutputFormat = "table" | "json" | "ndjson" | "csv";
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ["table", "json", "ndjson", "csv"];
+
+export const ENTRY_FIELDS = [
+  "applkey",
+  "stnr",
+  "name",
+  "anbringen",
+  "zrvon",
+  "zrbis",
+  "datbesch",
+  "erltyp",
+  "fileart",
+  "ts_zust",
+  "filebez",
+  "status",
+  "erltyp_description",
+  "anbringen_description"
+] as const;
+
+export const SAVED_FIELDS = [...ENTRY_FIELDS, "path", "sha256", "mime_type"] as const;
+
+export const DEFAULT_TABLE_FIELDS = [
+  "ts_zust",
+  "status",
+  "erltyp_description",
+  "anbringen_description",
+  "fileart",
+  "applkey",
+  "filebez"
+];
+
+export type OutputRecord = Record<string, string>;
+
+export interface FormatOptions {
+  format: OutputFormat;
+  fields?: string[];
+}
+
+export function serializeEntry(entry: DataboxEntry): OutputRecord {
+  return {
+    applkey: entry.applkey,
+    stnr: entry.stnr,
+    name: entry.name,
+    anbringen: entry.anbringen,
+    zrvon: entry.zrvon,
+    zrbis: entry.zrbis,
+    datbesch: entry.datbesch ? formatXsdDate(entry.datbesch) : "",
+    erltyp: entry.erltyp,
+    fileart: entry.fileart,
+    ts_zust: entry.ts_zust?.toISOString() ?? "",
+    filebez: entry.filebez,
+    status: entry.status,
+    // Unknown codes are shown as sent by the server.
+    erltyp_description: describeErltyp(entry.erltyp)?.en ?? entry.erltyp,
+    anbringen_description: describeAnbringen(entry.anbringen)?.en ?? entry.anbringen
+  };
+}
+
+export function serializeSaved(
+  entry: DataboxEntry,
+  filePath: string,
+  sha256: string,
+  mimeType = ""
+): OutputRecord {
+  return { ...serializeEntry(entry), path: filePath, sha256, mime_type: mimeType };
+}
+
+export function parseOutputFormat(value: string): OutputFormat {
+  const normalized = value.toLowerCase() as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(normalized)) {
+    throw new ConfigurationError(
+      `Unknown format "${value}". Use one of: ${OUTPUT_FORMATS.join(", ")}`
+    );
+  }
+  return normalized;
+}
+
+export function parseFields(value: string, allowed: readonly string[]): string[] {
+  const fields = value
+    .split(",")
+    .map((field) => field.trim())
+    .filter((field) => field.length > 0);
+
+  const unknown = fields.filter((field) => !allowed.includes(field));
+  if (unknown.length > 0) {
+    throw new ConfigurationError(
+      `Unknown field(s) ${unknown.join(", ")}. Available: ${allowed.join(", ")}`
+    );
+  }
+  if (fields.length === 0) {
+    throw new ConfigurationError("At least one field is required");
+  }
+  return fields;
+}
+
+export function formatRecords(records: OutputRecord[], options: FormatOptions): string {
+  const fields = options.fields ?? defaultFields(records, options.format);
+  const projected = records.map((record) => project(record, fields));
+
+  switch (options.format) {
+    case "json":
+      return JSON.stringify(projected, null, 2);
+    case "ndjson":
+      return projected.map((record) => JSON.stringify(record)).join("\n");
+    case "csv":
+      return [
+        fields.map(escapeCsv).join(","),
+        ...projected.map((record) =>
+          fields.map((field) => escapeCsv(record[field] ?? "")).join(",")
+        )
+      ].join("\n");
+    case "table":
+      return projected
+        .map((record) => fields.map((field) => record[field] ?? "").join(" | "))
+        .join("\n");
+  }
+}
+
+function defaultFields(records: OutputRecord[], format: OutputFormat): string[] {
+  if (format === "table") {
+    return DEFAULT_TABLE_FIELDS;
+  }
+  const first = records[0];
+  return first ? Object.keys(first) : [...ENTRY_FIELDS];
+}
+
+function project(record: OutputRecord, fields: string[]): OutputRecord {
+  const projected: OutputRecord = {};
+  for (const field of fields) {
+    projected[field] = record[field] ?? "";
+  }
+  return projected;
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,118 @@
+import { Deadline, describeDeadline } from "../models/deadlines.js";
+import { startOfViennaDay, toViennaParts } from "../models/dates.js";
+
+export interface ICalendarOptions {
+  /** Calendar name shown by clients (`X-WR-CALNAME`). */
+  name?: string;
+  /** Days before the deadline to remind; `0` disables the alarm. */
+  alarmDays?: number;
+  /** `DTSTAMP` of every event; defaults to the current time. */
+  now?: Date;
+}
+
+const PRODUCT_ID = "-//finanzonline-ts//deadlines//EN";
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Renders deadlines as an RFC 5545 calendar of all-day events. UIDs are derived from
+ * applkey and kind, so re-importing an updated feed replaces the earlier events.
+ */
+export function formatICalendar(deadlines: Deadline[], options: ICalendarOptions = {}): string {
+  const stamp = formatUtcStamp(options.now ?? new Date());
+  const alarmDays = options.alarmDays ?? 3;
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name ?? "FinanzOnline deadlines")}`,
+    "X-WR-TIMEZONE:Europe/Vienna"
+  ];
+
+  for (const deadline of deadlines) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${deadline.applkey}-${deadline.kind}@finanzonline-ts`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatIcsDate(deadline.date)}`,
+      `DTEND;VALUE=DATE:${formatIcsDate(startOfViennaDay(deadline.date, 1))}`,
+      `SUMMARY:${escapeText(deadline.title)}`,
+      `DESCRIPTION:${escapeText(eventDescription(deadline))}`,
+      `CATEGORIES:${deadline.kind === "appeal" ? "Beschwerdefrist" : "Zahlungsfrist"}`,
+      "TRANSP:TRANSPARENT"
+    );
+    if (alarmDays > 0) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `TRIGGER:-P${alarmDays}D`,
+        `DESCRIPTION:${escapeText(deadline.title)}`,
+        "END:VALARM"
+      );
+    }
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+function eventDescription(deadline: Deadline): string {
+  const { entry } = deadline;
+  return [
+    describeDeadline(deadline),
+    `applkey: ${entry.applkey}`,
+    `StNr: ${entry.stnr}`,
+    ...(entry.anbringen ? [`Anbringen: ${entry.anbringen}`] : []),
+    ...(entry.zrvon ? [`Zeitraum: ${formatPeriod(entry.zrvon, entry.zrbis)}`] : [])
+  ].join("\n");
+}
+
+function formatPeriod(from: string, to: string): string {
+  return to && to !== from ? `${from}–${to}` : from;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets continue on the next line after a single space (RFC 5545 3.1).
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function formatIcsDate(date: Date): string {
+  const { year, month, day } = toViennaParts(date);
+  return `${String(year).padStart(4, "0")}${pad(month)}${pad(day)}`;
+}
+
+function formatUtcStamp(date: Date): string {
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
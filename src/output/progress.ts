@@ -0,0 +1,129 @@
+import { SyncProgress } from "../sync/engine.js";
+
+export interface ProgressWriter {
+  write(text: string): unknown;
+  isTTY?: boolean;
+}
+
+export interface ProgressReporterOptions {
+  /** Defaults to `stream.isTTY`. */
+  interactive?: boolean;
+  /** Minimum time between plain progress lines when not interactive. */
+  plainIntervalMs?: number;
+  now?: () => number;
+}
+
+const REDRAW_INTERVAL_MS = 100;
+const DEFAULT_PLAIN_INTERVAL_MS = 5000;
+
+/**
+ * Shows sync progress on stderr: a live status line on a TTY, otherwise a
+ * plain progress line every few seconds so log files stay readable.
+ */
+export class ProgressReporter {
+  private readonly interactive: boolean;
+  private readonly plainIntervalMs: number;
+  private readonly now: () => number;
+  private readonly startedAt: number;
+  private latest: SyncProgress | undefined;
+  private lastDrawnAt = Number.NEGATIVE_INFINITY;
+  private shown = false;
+
+  constructor(
+    private readonly stream: ProgressWriter,
+    options: ProgressReporterOptions = {}
+  ) {
+    this.interactive = options.interactive ?? stream.isTTY === true;
+    this.plainIntervalMs = options.plainIntervalMs ?? DEFAULT_PLAIN_INTERVAL_MS;
+    this.now = options.now ?? Date.now;
+    this.startedAt = this.now();
+  }
+
+  update(progress: SyncProgress): void {
+    this.latest = progress;
+    const interval = this.interactive ? REDRAW_INTERVAL_MS : this.plainIntervalMs;
+    const done = progress.completed + progress.failed === progress.total;
+    if (this.now() - this.lastDrawnAt >= interval || (done && this.interactive)) {
+      this.draw();
+    }
+  }
+
+  /** Prints a line (by default to the progress stream) without garbling the status line. */
+  log(line: string, print: (line: string) => void = (text) => this.writeLine(text)): void {
+    if (this.interactive && this.shown) {
+      this.stream.write("\r\x1b[2K");
+      print(line);
+      this.draw();
+      return;
+    }
+    print(line);
+  }
+
+  finish(): void {
+    if (!this.latest || this.latest.total === 0) {
+      return;
+    }
+    if (this.interactive) {
+      this.draw();
+      this.stream.write("\n");
+    } else {
+      this.stream.write(`${formatProgress(this.latest, this.now() - this.startedAt)}\n`);
+    }
+  }
+
+  private writeLine(text: string): void {
+    this.stream.write(`${text}\n`);
+  }
+
+  private draw(): void {
+    if (!this.latest || this.latest.total === 0) {
+      return;
+    }
+    this.lastDrawnAt = this.now();
+    const text = formatProgress(this.latest, this.lastDrawnAt - this.startedAt);
+    if (this.interactive) {
+      this.stream.write(`\r\x1b[2K${text}`);
+      this.shown = true;
+    } else {
+      this.stream.write(`${text}\n`);
+    }
+  }
+}
+
+export function formatProgress(progress: SyncProgress, elapsedMs: number): string {
+  const finished = progress.completed + progress.failed;
+  const parts = [`${finished}/${progress.total} documents`];
+  if (progress.failed > 0) {
+    parts.push(`${progress.failed} failed`);
+  }
+  parts.push(formatBytes(progress.bytes));
+  if (finished > 0 && finished < progress.total) {
+    const remainingMs = (elapsedMs / finished) * (progress.total - finished);
+    parts.push(`ETA ${formatDuration(remainingMs)}`);
+  } else if (finished === progress.total) {
+    parts.push(`in ${formatDuration(elapsedMs)}`);
+  }
+  return parts.join(", ");
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return unit === 0 ? `${value} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) {
+    return `${hours}h${String(minutes).padStart(2, "0")}m`;
+  }
+  return minutes > 0 ? `${minutes}m${String(seconds).padStart(2, "0")}s` : `${seconds}s`;
+}
@@ -0,0 +1,143 @@
+import { Participant } from "../config/manifest.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import { SyncResult } from "./run.js";
+
+export type BatchStatus = "ok" | "partial" | "failed";
+
+export const BATCH_EXIT_CODES: Record<BatchStatus, number> = {
+  ok: 0,
+  failed: 1,
+  partial: 2
+};
+
+export interface ErrorSummary {
+  errorClass: string;
+  message: string;
+  returnCode?: number;
+}
+
+export interface DocumentFailure extends ErrorSummary {
+  applkey: string;
+}
+
+export interface ParticipantReport {
+  name: string;
+  status: BatchStatus;
+  outputDir?: string;
+  listed: number;
+  new: number;
+  skipped: number;
+  failed: number;
+  failures: DocumentFailure[];
+  error?: ErrorSummary;
+  /** The run was cut short (or never started) because the batch was aborted. */
+  aborted?: boolean;
+}
+
+export interface BatchReport {
+  status: BatchStatus;
+  aborted: boolean;
+  participants: ParticipantReport[];
+}
+
+export interface ParticipantSync {
+  outputDir: string;
+  result: SyncResult;
+}
+
+export interface BatchSyncOptions {
+  concurrency: number;
+  sync: (participant: Participant) => Promise<ParticipantSync>;
+  onFinished?: (report: ParticipantReport) => void;
+  /** Participants not started when this aborts are reported as aborted. */
+  signal?: AbortSignal;
+}
+
+export async function runBatchSync(
+  participants: Participant[],
+  options: BatchSyncOptions
+): Promise<BatchReport> {
+  const reports = await mapWithConcurrency(
+    participants,
+    options.concurrency,
+    async (participant) => {
+      const report = options.signal?.aborted
+        ? abortedReport(participant)
+        : await syncParticipant(participant, options.sync);
+      options.onFinished?.(report);
+      return report;
+    }
+  );
+
+  return {
+    status: batchStatus(reports),
+    aborted: options.signal?.aborted ?? false,
+    participants: reports
+  };
+}
+
+export function summarizeError(error: unknown): ErrorSummary {
+  if (!(error instanceof Error)) {
+    return { errorClass: "Error", message: String(error) };
+  }
+  const summary: ErrorSummary = { errorClass: error.name, message: error.message };
+  const returnCode = (error as { returnCode?: unknown }).returnCode;
+  if (typeof returnCode === "number") {
+    summary.returnCode = returnCode;
+  }
+  return summary;
+}
+
+async function syncParticipant(
+  participant: Participant,
+  sync: BatchSyncOptions["sync"]
+): Promise<ParticipantReport> {
+  try {
+    const { outputDir, result } = await sync(participant);
+    return {
+      name: participant.name,
+      status: result.failures.length > 0 || result.aborted ? "partial" : "ok",
+      ...(result.aborted ? { aborted: true } : {}),
+      outputDir,
+      listed: result.listed,
+      new: result.saved.length,
+      skipped: result.skipped,
+      failed: result.failures.length,
+      failures: result.failures.map(({ entry, error }) => ({
+        applkey: entry.applkey,
+        ...summarizeError(error)
+      }))
+    };
+  } catch (error) {
+    return {
+      name: participant.name,
+      status: "failed",
+      listed: 0,
+      new: 0,
+      skipped: 0,
+      failed: 0,
+      failures: [],
+      error: summarizeError(error)
+    };
+  }
+}
+
+function abortedReport(participant: Participant): ParticipantReport {
+  return {
+    name: participant.name,
+    status: "partial",
+    aborted: true,
+    listed: 0,
+    new: 0,
+    skipped: 0,
+    failed: 0,
+    failures: []
+  };
+}
+
+function batchStatus(reports: ParticipantReport[]): BatchStatus {
+  if (reports.every((report) => report.status === "ok")) {
+    return "ok";
+  }
+  return reports.every((report) => report.status === "failed") ? "failed" : "partial";
+}
@@ -0,0 +1,214 @@
+import fs from "node:fs";
+import path from "node:path";
+import { FinanzonlineClient } from "../client/finanzonline.js";
+import { FinanzonlineError } from "../errors.js";
+import { contentTypeWarning } from "../models/content-type.js";
+import { DataboxEntry, DataboxFilter } from "../models/types.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import { CollisionPolicy, DEFAULT_COLLISION_POLICY, writeStreamToFile } from "./files.js";
+import { SyncLedger } from "./ledger.js";
+import { NamingStrategy, planFileNames } from "./naming.js";
+import { RateLimiter } from "./rate-limit.js";
+
+export const DEFAULT_DOWNLOAD_CONCURRENCY = 4;
+
+export type SyncClient = Pick<FinanzonlineClient, "list" | "downloadStream">;
+
+export interface SyncEngineOptions {
+  filter?: DataboxFilter;
+  outputDir: string;
+  naming?: NamingStrategy;
+  /** Applied when a target path already holds a different file (default `error`). */
+  collision?: CollisionPolicy;
+  /** Downloads running in parallel (default `DEFAULT_DOWNLOAD_CONCURRENCY`). */
+  concurrency?: number;
+  /** Shared limiter every download waits on before it starts. */
+  rateLimiter?: RateLimiter;
+}
+
+export interface SavedDocument {
+  entry: DataboxEntry;
+  path: string;
+  sha256: string;
+  /** Sniffed from the content; the extension of `path` follows it. */
+  mimeType: string;
+  /** Set when the content contradicts the entry's `fileart`. */
+  warnings?: string[];
+}
+
+export interface SyncFailure {
+  entry: DataboxEntry;
+  error: unknown;
+}
+
+export interface SyncProgress {
+  total: number;
+  completed: number;
+  failed: number;
+  bytes: number;
+}
+
+export interface SyncResult {
+  listed: number;
+  skipped: number;
+  saved: SavedDocument[];
+  failures: SyncFailure[];
+  /** True when the run stopped early because its `AbortSignal` fired. */
+  aborted: boolean;
+}
+
+export interface SyncEvents {
+  entryDiscovered: { entry: DataboxEntry };
+  entrySkipped: { entry: DataboxEntry; reason: "already-synced" | "collision" };
+  downloadStarted: { entry: DataboxEntry; path: string };
+  downloadCompleted: SavedDocument & { bytes: number };
+  progress: SyncProgress;
+  error: SyncFailure;
+  finished: SyncResult;
+}
+
+export type SyncEventName = keyof SyncEvents;
+
+export type SyncListener<K extends SyncEventName> = (payload: SyncEvents[K]) => void;
+
+type ListenerMap = { [K in SyncEventName]?: SyncListener<K>[] };
+
+/**
+ * Lists the DataBox, skips entries already recorded in the output directory's
+ * ledger and downloads the rest. Per-entry failures are reported through the
+ * `error` event and the result; they never abort the run.
+ */
+export class SyncEngine {
+  private readonly listeners: ListenerMap = {};
+
+  constructor(
+    private readonly client: SyncClient,
+    private readonly options: SyncEngineOptions
+  ) {}
+
+  on<K extends SyncEventName>(event: K, listener: SyncListener<K>): this {
+    const listeners: SyncListener<K>[] = this.listeners[event] ?? [];
+    listeners.push(listener);
+    (this.listeners as Record<K, SyncListener<K>[]>)[event] = listeners;
+    return this;
+  }
+
+  off<K extends SyncEventName>(event: K, listener: SyncListener<K>): this {
+    const listeners: SyncListener<K>[] | undefined = this.listeners[event];
+    const index = listeners?.indexOf(listener) ?? -1;
+    if (index >= 0) {
+      listeners?.splice(index, 1);
+    }
+    return this;
+  }
+
+  /** Stops starting new downloads and cancels running ones once `signal` aborts. */
+  async run(signal?: AbortSignal): Promise<SyncResult> {
+    const { options } = this;
+    const result: SyncResult = { listed: 0, skipped: 0, saved: [], failures: [], aborted: false };
+    const entries = signal?.aborted ? [] : await this.client.list(options.filter ?? {});
+    result.listed = entries.length;
+
+    if (entries.length > 0 && !signal?.aborted) {
+      fs.mkdirSync(options.outputDir, { recursive: true });
+      const ledger = SyncLedger.open(options.outputDir);
+      const pending: DataboxEntry[] = [];
+      for (const entry of entries) {
+        this.emit("entryDiscovered", { entry });
+        if (ledger.has(entry.applkey)) {
+          this.emit("entrySkipped", { entry, reason: "already-synced" });
+        } else {
+          pending.push(entry);
+        }
+      }
+      result.skipped = entries.length - pending.length;
+      await this.download(pending, ledger, result, signal);
+    }
+
+    result.aborted = signal?.aborted ?? false;
+    this.emit("finished", result);
+    return result;
+  }
+
+  private async download(
+    pending: DataboxEntry[],
+    ledger: SyncLedger,
+    result: SyncResult,
+    signal: AbortSignal | undefined
+  ): Promise<void> {
+    const { options } = this;
+    const fileNames = planFileNames(
+      pending,
+      options.naming,
+      options.collision ?? DEFAULT_COLLISION_POLICY
+    );
+    const progress: SyncProgress = { total: pending.length, completed: 0, failed: 0, bytes: 0 };
+    const report = () => this.emit("progress", { ...progress });
+    report();
+
+    await mapWithConcurrency(
+      pending,
+      options.concurrency ?? DEFAULT_DOWNLOAD_CONCURRENCY,
+      async (entry) => {
+        try {
+          const fileName = fileNames.get(entry.applkey);
+          if (!fileName) {
+            throw new FinanzonlineError(`No file name was planned for ${entry.applkey}`);
+          }
+          const outputPath = path.join(options.outputDir, fileName);
+          await options.rateLimiter?.acquire();
+          if (signal?.aborted) {
+            return;
+          }
+          this.emit("downloadStarted", { entry, path: outputPath });
+          const content = await this.client.downloadStream(entry.applkey);
+          const written = await writeStreamToFile(content, outputPath, {
+            collision: options.collision ?? DEFAULT_COLLISION_POLICY,
+            verify: entry.fileart,
+            detectExtension: true,
+            onBytes: (bytes) => {
+              progress.bytes += bytes;
+              report();
+            },
+            ...(signal ? { signal } : {})
+          });
+          progress.completed += 1;
+          if (written.skipped) {
+            // Recorded so later runs skip the entry without downloading it again.
+            ledger.recordHash(entry, written.path, written.sha256);
+            result.skipped += 1;
+            this.emit("entrySkipped", { entry, reason: "collision" });
+          } else {
+            const record = ledger.recordHash(entry, written.path, written.sha256);
+            const warning = contentTypeWarning(entry.fileart, written);
+            const saved: SavedDocument = {
+              entry,
+              path: written.path,
+              sha256: record.sha256,
+              mimeType: written.mimeType,
+              ...(warning ? { warnings: [warning] } : {})
+            };
+            result.saved.push(saved);
+            this.emit("downloadCompleted", { ...saved, bytes: written.bytes });
+          }
+        } catch (error) {
+          if (signal?.aborted) {
+            return;
+          }
+          const failure = { entry, error };
+          result.failures.push(failure);
+          progress.failed += 1;
+          this.emit("error", failure);
+        }
+        report();
+      }
+    );
+  }
+
+  private emit<K extends SyncEventName>(event: K, payload: SyncEvents[K]): void {
+    const listeners: SyncListener<K>[] = this.listeners[event] ?? [];
+    for (const listener of listeners.slice()) {
+      listener(payload);
+    }
+  }
+}
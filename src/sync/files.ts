@@ -0,0 +1,219 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { Readable, Transform } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { DocumentIntegrityError, FileNameCollisionError } from "../errors.js";
+import {
+  ContentType,
+  detectContentType,
+  fileartOf,
+  isOtherBinaryType,
+  SNIFF_LENGTH
+} from "../models/content-type.js";
+import { FileArt } from "../models/types.js";
+
+export const COLLISION_POLICIES = ["skip", "overwrite", "suffix", "error"] as const;
+
+/** What to do when the target path already holds a file with different content. */
+export type CollisionPolicy = (typeof COLLISION_POLICIES)[number];
+
+export const DEFAULT_COLLISION_POLICY: CollisionPolicy = "error";
+
+export interface WriteOptions {
+  collision?: CollisionPolicy;
+  /**
+   * Checks the decoded bytes before they replace anything on disk. Content
+   * sniffed as another document type is checked as that type instead.
+   */
+  verify?: FileArt;
+  /** Gives the file the extension of its sniffed content type. */
+  detectExtension?: boolean;
+  onBytes?: (bytes: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface WrittenFile extends ContentType {
+  path: string;
+  bytes: number;
+  sha256: string;
+  /** True when the `skip` policy kept an existing, different file. */
+  skipped: boolean;
+}
+
+const PDF_MAGIC = Buffer.from("%PDF-");
+const HASH_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Streams `content` into a temp file next to `filePath`, fsyncs it, verifies
+ * it and renames it into place, so a crash never leaves a truncated document.
+ * An existing file with the same SHA-256 is not a collision.
+ */
+export async function writeStreamToFile(
+  content: Readable,
+  filePath: string,
+  options: WriteOptions = {}
+): Promise<WrittenFile> {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${crypto.randomBytes(4).toString("hex")}.part`;
+  const hash = crypto.createHash("sha256");
+  const head: Buffer[] = [];
+  let bytes = 0;
+
+  const measure = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      if (bytes < SNIFF_LENGTH) {
+        head.push(chunk.subarray(0, SNIFF_LENGTH - bytes));
+      }
+      hash.update(chunk);
+      bytes += chunk.length;
+      options.onBytes?.(chunk.length);
+      callback(null, chunk);
+    }
+  });
+
+  try {
+    const signal = options.signal;
+    await pipeline(content, measure, fs.createWriteStream(tempPath), signal ? { signal } : {});
+    fsyncFile(tempPath);
+    const headBytes = Buffer.concat(head);
+    const contentType = detectContentType(headBytes);
+    const fileart = fileartOf(contentType);
+    const archiveOrImage = isOtherBinaryType(contentType);
+    // Archives and images are recognized by their signature; anything else,
+    // like an HTML error page, has to pass the check for the declared type.
+    const verifyAs = fileart ?? (archiveOrImage ? undefined : options.verify);
+    if (verifyAs) {
+      verifyHead(headBytes, verifyAs, tempPath);
+    }
+    const sha256 = hash.digest("hex");
+    const targetPath =
+      options.detectExtension && (fileart || archiveOrImage)
+        ? withExtension(filePath, contentType.extension)
+        : filePath;
+    const written = placeFile(tempPath, targetPath, sha256, options.collision);
+    return { ...written, ...contentType, bytes, sha256 };
+  } finally {
+    fs.rmSync(tempPath, { force: true });
+  }
+}
+
+/**
+ * Throws `DocumentIntegrityError` unless the file starts like the expected type. Only the
+ * first `SNIFF_LENGTH` bytes are read, so large documents are never loaded into memory.
+ */
+export function verifyDocument(filePath: string, expected: FileArt): void {
+  const head = Buffer.alloc(SNIFF_LENGTH);
+  const fd = fs.openSync(filePath, "r");
+  let length: number;
+  try {
+    length = fs.readSync(fd, head, 0, head.length, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+  verifyHead(head.subarray(0, length), expected, filePath);
+}
+
+/** SHA-256 of a file, read in chunks. */
+export function hashFile(filePath: string): string {
+  const hash = crypto.createHash("sha256");
+  const chunk = Buffer.alloc(HASH_CHUNK_SIZE);
+  const fd = fs.openSync(filePath, "r");
+  try {
+    let length: number;
+    while ((length = fs.readSync(fd, chunk, 0, chunk.length, null)) > 0) {
+      hash.update(chunk.subarray(0, length));
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+  return hash.digest("hex");
+}
+
+// PDFs must carry the `%PDF-` signature; XML must open with a declaration or an element
+// (HTML error pages are told apart by `detectContentType`).
+function verifyHead(head: Buffer, expected: FileArt, filePath: string): void {
+  if (expected === "PDF" && !head.subarray(0, PDF_MAGIC.length).equals(PDF_MAGIC)) {
+    throw new DocumentIntegrityError(
+      `${filePath} does not start with a %PDF- header`,
+      filePath,
+      expected
+    );
+  }
+  if (expected === "XML" && fileartOf(detectContentType(head)) !== "XML") {
+    throw new DocumentIntegrityError(
+      `${filePath} does not start with an XML declaration or element`,
+      filePath,
+      expected
+    );
+  }
+}
+
+// Runs synchronously so concurrent writers in this process never race for a name.
+function placeFile(
+  tempPath: string,
+  filePath: string,
+  sha256: string,
+  policy: CollisionPolicy = DEFAULT_COLLISION_POLICY
+): { path: string; skipped: boolean } {
+  if (!fs.existsSync(filePath) || policy === "overwrite" || hashFile(filePath) === sha256) {
+    return { path: moveIntoPlace(tempPath, filePath), skipped: false };
+  }
+
+  switch (policy) {
+    case "skip":
+      return { path: filePath, skipped: true };
+    case "suffix":
+      return { path: moveIntoPlace(tempPath, freeSuffixedPath(filePath, sha256)), skipped: false };
+    case "error":
+      throw new FileNameCollisionError(
+        `${filePath} already exists with different content`,
+        filePath,
+        []
+      );
+  }
+}
+
+function withExtension(filePath: string, extension: string): string {
+  const current = path.extname(filePath);
+  return `${filePath.slice(0, filePath.length - current.length)}.${extension}`;
+}
+
+function freeSuffixedPath(filePath: string, sha256: string): string {
+  const extension = path.extname(filePath);
+  const base = filePath.slice(0, filePath.length - extension.length);
+  for (let counter = 2; ; counter += 1) {
+    const candidate = `${base}-${counter}${extension}`;
+    if (!fs.existsSync(candidate) || hashFile(candidate) === sha256) {
+      return candidate;
+    }
+  }
+}
+
+function moveIntoPlace(tempPath: string, filePath: string): string {
+  fs.renameSync(tempPath, filePath);
+  fsyncDirectory(path.dirname(filePath));
+  return filePath;
+}
+
+function fsyncFile(filePath: string): void {
+  const fd = fs.openSync(filePath, "r+");
+  try {
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function fsyncDirectory(dirPath: string): void {
+  try {
+    const fd = fs.openSync(dirPath, "r");
+    try {
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+  } catch {
+    // Directories cannot be opened for fsync on every platform (e.g. Windows).
+  }
+}
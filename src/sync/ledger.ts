@@ -0,0 +1,141 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { DataboxEntry } from "../models/types.js";
+
+export const LEDGER_FILE_NAME = ".finanzonline-ledger.ndjson";
+
+export interface LedgerRecord {
+  applkey: string;
+  entry: DataboxEntry;
+  path: string;
+  sha256: string;
+  downloadedAt: Date;
+}
+
+export class SyncLedger {
+  private readonly records = new Map<string, LedgerRecord>();
+  private needsNewline = false;
+
+  private constructor(
+    readonly outputDir: string,
+    readonly ledgerPath: string
+  ) {}
+
+  static open(outputDir: string): SyncLedger {
+    const ledger = new SyncLedger(outputDir, ledgerPathFor(outputDir));
+    for (const record of readLedger(outputDir)) {
+      ledger.records.set(record.applkey, record);
+    }
+    ledger.needsNewline = endsWithoutNewline(ledger.ledgerPath);
+    return ledger;
+  }
+
+  get size(): number {
+    return this.records.size;
+  }
+
+  has(applkey: string): boolean {
+    return this.records.has(applkey);
+  }
+
+  get(applkey: string): LedgerRecord | undefined {
+    return this.records.get(applkey);
+  }
+
+  list(): LedgerRecord[] {
+    return [...this.records.values()];
+  }
+
+  record(
+    entry: DataboxEntry,
+    filePath: string,
+    content: Buffer,
+    downloadedAt: Date = new Date()
+  ): LedgerRecord {
+    return this.recordHash(entry, filePath, sha256(content), downloadedAt);
+  }
+
+  recordHash(
+    entry: DataboxEntry,
+    filePath: string,
+    hash: string,
+    downloadedAt: Date = new Date()
+  ): LedgerRecord {
+    const record: LedgerRecord = {
+      applkey: entry.applkey,
+      entry,
+      path: path.relative(this.outputDir, path.resolve(this.outputDir, filePath)),
+      sha256: hash,
+      downloadedAt
+    };
+
+    fs.mkdirSync(this.outputDir, { recursive: true });
+    const prefix = this.needsNewline ? "\n" : "";
+    fs.appendFileSync(this.ledgerPath, `${prefix}${JSON.stringify(record)}\n`);
+    this.needsNewline = false;
+    this.records.set(record.applkey, record);
+    return record;
+  }
+}
+
+export function readLedger(outputDir: string): LedgerRecord[] {
+  const ledgerPath = ledgerPathFor(outputDir);
+  if (!fs.existsSync(ledgerPath)) {
+    return [];
+  }
+
+  const byApplkey = new Map<string, LedgerRecord>();
+  for (const line of fs.readFileSync(ledgerPath, "utf8").split("\n")) {
+    const record = parseLedgerLine(line);
+    if (record) {
+      byApplkey.set(record.applkey, record);
+    }
+  }
+  return [...byApplkey.values()];
+}
+
+export function sha256(content: Buffer): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+function ledgerPathFor(outputDir: string): string {
+  return path.join(outputDir, LEDGER_FILE_NAME);
+}
+
+function endsWithoutNewline(filePath: string): boolean {
+  if (!fs.existsSync(filePath)) {
+    return false;
+  }
+  const content = fs.readFileSync(filePath, "utf8");
+  return content.length > 0 && !content.endsWith("\n");
+}
+
+function parseLedgerLine(line: string): LedgerRecord | undefined {
+  if (!line.trim()) {
+    return undefined;
+  }
+
+  try {
+    const raw = JSON.parse(line) as LedgerRecord & {
+      downloadedAt: string;
+      entry: DataboxEntry & { datbesch: string | null; ts_zust: string | null };
+    };
+    if (typeof raw.applkey !== "string" || !raw.entry) {
+      return undefined;
+    }
+
+    return {
+      ...raw,
+      entry: {
+        ...raw.entry,
+        datbesch: raw.entry.datbesch ? new Date(raw.entry.datbesch) : null,
+        ts_zust: raw.entry.ts_zust ? new Date(raw.entry.ts_zust) : null
+      },
+      downloadedAt: new Date(raw.downloadedAt)
+    };
+  } catch {
+    // A run interrupted mid-write can leave a truncated last line.
+    return undefined;
+  }
+}
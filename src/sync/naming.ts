@@ -0,0 +1,156 @@
+import path from "node:path";
+import { ConfigurationError, FileNameCollisionError } from "../errors.js";
+import { toViennaParts } from "../models/dates.js";
+import { DataboxEntry } from "../models/types.js";
+import { CollisionPolicy } from "./files.js";
+
+export const DEFAULT_FILENAME_TEMPLATE = "{title}_{applkey}.{ext}";
+
+const DEFAULT_DATE_FORMAT = "YYYY-MM-DD";
+const PLACEHOLDER = /\{([a-z_]+)(?::([^}]+))?\}/g;
+
+type Placeholder = Exclude<keyof DataboxEntry, "warnings"> | "ext" | "title";
+
+/** A filename template (see `renderFileName`) or a function returning a relative path. */
+export type NamingStrategy = string | ((entry: DataboxEntry) => string);
+
+const PLACEHOLDERS: ReadonlySet<string> = new Set<Placeholder>([
+  "stnr",
+  "name",
+  "anbringen",
+  "zrvon",
+  "zrbis",
+  "datbesch",
+  "erltyp",
+  "fileart",
+  "ts_zust",
+  "applkey",
+  "filebez",
+  "status",
+  "ext",
+  "title"
+]);
+
+export function validateFileNameTemplate(template: string): void {
+  if (!template.trim()) {
+    throw new ConfigurationError("Filename template must not be empty");
+  }
+
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    if (!PLACEHOLDERS.has(match[1] ?? "")) {
+      throw new ConfigurationError(
+        `Unknown placeholder {${match[1]}} in filename template`
+      );
+    }
+  }
+}
+
+export function renderFileName(
+  entry: DataboxEntry,
+  template: string = DEFAULT_FILENAME_TEMPLATE
+): string {
+  validateFileNameTemplate(template);
+
+  const rendered = template.replace(PLACEHOLDER, (_match, key: string, format?: string) =>
+    resolvePlaceholder(entry, key as Placeholder, format)
+  );
+
+  return sanitizeRelativePath(rendered, entry);
+}
+
+/** Splits on slashes and sanitizes every segment, so paths never leave the output dir. */
+export function sanitizeRelativePath(value: string, entry: DataboxEntry): string {
+  const segments = value
+    .split(/[\\/]+/)
+    .filter((segment) => segment.length > 0)
+    .map(sanitizeSegment);
+
+  if (segments.length === 0) {
+    return sanitizeSegment(entry.applkey);
+  }
+
+  return path.join(...segments);
+}
+
+/**
+ * Maps applkeys to relative paths. Two entries sharing a path throw with the
+ * `error` policy; other policies leave it to `writeStreamToFile` to resolve.
+ */
+export function planFileNames(
+  entries: DataboxEntry[],
+  naming: NamingStrategy = DEFAULT_FILENAME_TEMPLATE,
+  collision: CollisionPolicy = "error"
+): Map<string, string> {
+  const planned = new Map<string, string>();
+  const owners = new Map<string, string>();
+  const render =
+    typeof naming === "function"
+      ? (entry: DataboxEntry) => sanitizeRelativePath(naming(entry), entry)
+      : (entry: DataboxEntry) => renderFileName(entry, naming);
+
+  for (const entry of entries) {
+    const fileName = render(entry);
+    const key = fileName.toLowerCase();
+    const owner = owners.get(key);
+
+    if (owner !== undefined && owner !== entry.applkey && collision === "error") {
+      throw new FileNameCollisionError(
+        `Filename template maps ${owner} and ${entry.applkey} to ${fileName}`,
+        fileName,
+        [owner, entry.applkey]
+      );
+    }
+
+    owners.set(key, entry.applkey);
+    planned.set(entry.applkey, fileName);
+  }
+
+  return planned;
+}
+
+export function sanitizeSegment(value: string): string {
+  const sanitized = value.replace(/[^a-zA-Z0-9._-]+/g, "_");
+  if (!sanitized || /^\.+$/.test(sanitized)) {
+    return "_";
+  }
+  return sanitized;
+}
+
+export function formatDate(value: Date, format: string = DEFAULT_DATE_FORMAT): string {
+  const pad = (part: number, length = 2) => String(part).padStart(length, "0");
+  const parts = toViennaParts(value);
+  const tokens: Record<string, string> = {
+    YYYY: pad(parts.year, 4),
+    MM: pad(parts.month),
+    DD: pad(parts.day),
+    HH: pad(parts.hour),
+    mm: pad(parts.minute),
+    ss: pad(parts.second)
+  };
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => tokens[token] ?? token);
+}
+
+function resolvePlaceholder(
+  entry: DataboxEntry,
+  key: Placeholder,
+  format: string | undefined
+): string {
+  if (key === "ext") {
+    return entry.fileart === "XML" ? "xml" : "pdf";
+  }
+
+  if (key === "title") {
+    return stripSeparators(entry.filebez || entry.name || entry.applkey);
+  }
+
+  const value = entry[key];
+  if (value === null) {
+    return "";
+  }
+  return value instanceof Date ? formatDate(value, format) : stripSeparators(value);
+}
+
+function stripSeparators(value: string): string {
+  // Only slashes written in the template itself may create directories.
+  return value.replace(/[\\/]/g, "_");
+}
@@ -0,0 +1,39 @@
+export const DEFAULT_REQUESTS_PER_SECOND = 5;
+
+export interface RateLimiterOptions {
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Spaces request starts evenly so that all callers sharing one limiter stay
+ * below `requestsPerSecond`. A rate of 0 or less disables the limit.
+ */
+export class RateLimiter {
+  private readonly intervalMs: number;
+  private readonly now: () => number;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private nextSlot = 0;
+
+  constructor(requestsPerSecond: number, options: RateLimiterOptions = {}) {
+    this.intervalMs = requestsPerSecond > 0 ? 1000 / requestsPerSecond : 0;
+    this.now = options.now ?? Date.now;
+    this.sleep = options.sleep ?? defaultSleep;
+  }
+
+  async acquire(): Promise<void> {
+    if (this.intervalMs === 0) {
+      return;
+    }
+    const now = this.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.intervalMs;
+    if (slot > now) {
+      await this.sleep(slot - now);
+    }
+  }
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,53 @@
+import { DataboxFilter } from "../models/types.js";
+import {
+  SavedDocument,
+  SyncClient,
+  SyncEngine,
+  SyncFailure,
+  SyncProgress,
+  SyncResult
+} from "./engine.js";
+import { CollisionPolicy } from "./files.js";
+import { RateLimiter } from "./rate-limit.js";
+
+export { DEFAULT_DOWNLOAD_CONCURRENCY } from "./engine.js";
+export type { SavedDocument, SyncClient, SyncFailure, SyncProgress, SyncResult } from "./engine.js";
+
+export interface SyncOptions {
+  filter: DataboxFilter;
+  outputDir: string;
+  filenameTemplate?: string;
+  collision?: CollisionPolicy;
+  /** Downloads running in parallel (default `DEFAULT_DOWNLOAD_CONCURRENCY`). */
+  concurrency?: number;
+  /** Shared limiter every download waits on before it starts. */
+  rateLimiter?: RateLimiter;
+  signal?: AbortSignal;
+  onSaved?: (saved: SavedDocument) => void;
+  onError?: (failure: SyncFailure) => void;
+  onProgress?: (progress: SyncProgress) => void;
+}
+
+/** Callback-style shorthand for a single `SyncEngine` run. */
+export async function syncDatabox(
+  client: SyncClient,
+  options: SyncOptions
+): Promise<SyncResult> {
+  const { filenameTemplate, signal, onSaved, onError, onProgress, ...engineOptions } = options;
+  const engine = new SyncEngine(client, {
+    ...engineOptions,
+    ...(filenameTemplate ? { naming: filenameTemplate } : {})
+  });
+
+  if (onSaved) {
+    engine.on("downloadCompleted", ({ bytes: _bytes, ...saved }) => onSaved(saved));
+  }
+  if (onError) {
+    engine.on("error", onError);
+  }
+  if (onProgress) {
+    engine.on("progress", onProgress);
+  }
+
+  return engine.run(signal);
+}
@@ -2,7 +2,11 @@ import fs from "node:fs";
 import path from "node:path";
 import { describe, expect, it } from "vitest";
 import { DataboxClient } from "../../src/client/databox.js";
-import { DataboxError, SessionExpiredError } from "../../src/errors.js";
+import {
+  DataboxError,
+  ResponseValidationError,
+  SessionExpiredError
+} from "../../src/errors.js";
 
 const fixtures = path.join(
   process.cwd(),
@@ -51,7 +55,7 @@ describe("DataboxClient", () => {
     expect(entries).toHaveLength(0);
   });
 
-  it("parses single entry with fallback defaults", async () => {
+  it("parses single entry with fallback defaults and warnings", async () => {
     const client = new DataboxClient({
       fetcher: mockFetch(readFixture("databox-list-single.xml"))
     });
@@ -60,6 +64,82 @@ describe("DataboxClient", () => {
     expect(entries).toHaveLength(1);
     expect(entries[0].fileart).toBe("PDF");
     expect(entries[0].status).toBe("UNREAD");
+    expect(entries[0].stnr).toBe("999");
+    expect(entries[0].warnings).toEqual([
+      expect.stringMatching(/^fileart: .*'TXT'.*\(using "PDF"\)$/),
+      expect.stringMatching(/^status: .*'UNKNOWN'.*\(using "UNREAD"\)$/)
+    ]);
+  });
+
+  it("leaves warnings off entries that match the schema", async () => {
+    const client = new DataboxClient({
+      fetcher: mockFetch(readFixture("databox-list-success.xml"))
+    });
+
+    const entries = await client.getDatabox("SESSIONID", credentials, {});
+    expect(entries.map((entry) => entry.warnings)).toEqual([undefined, undefined]);
+  });
+
+  it("rejects unexpected fields in strict mode, naming applkey and field", async () => {
+    const client = new DataboxClient({
+      fetcher: mockFetch(readFixture("databox-list-single.xml")),
+      strict: true
+    });
+
+    const error = await client.getDatabox("SESSIONID", credentials, {}).catch((e) => e);
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect(error.applkey).toBe("CCC333");
+    expect(error.fields).toEqual(["fileart", "status"]);
+    expect(error.message).toMatch(/^Invalid getDatabox entry CCC333: fileart: /);
+  });
+
+  it("rejects missing fields and malformed dates in strict mode", async () => {
+    const client = new DataboxClient({
+      fetcher: mockFetch(
+        "<Envelope><Body><getDataboxResponse><rc>0</rc>" +
+          "<result><stnr>1</stnr><name/><anbringen/><zrvon/><zrbis/>" +
+          "<datbesch>01.02.2024</datbesch><erltyp>B</erltyp><fileart>PDF</fileart>" +
+          "<ts_zust/><applkey>A1</applkey><status>READ</status></result>" +
+          "</getDataboxResponse></Body></Envelope>"
+      ),
+      strict: true
+    });
+
+    const error = await client.getDatabox("SESSIONID", credentials, {}).catch((e) => e);
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect(error.fields).toEqual(["datbesch", "filebez"]);
+    expect(error.message).toContain('datbesch: Expected an xsd:date, received "01.02.2024"');
+  });
+
+  it("rejects a response without return code in strict mode", async () => {
+    const client = new DataboxClient({
+      fetcher: mockFetch(
+        "<Envelope><Body><getDataboxResponse><msg>ok</msg></getDataboxResponse></Body></Envelope>"
+      ),
+      strict: true
+    });
+
+    await expect(client.getDatabox("SESSIONID", credentials, {})).rejects.toThrow(
+      /^Invalid getDatabox response: rc: /
+    );
+  });
+
+  it("parses dates in Vienna time and keeps missing dates null", async () => {
+    const client = new DataboxClient({
+      fetcher: mockFetch(
+        "<Envelope><Body><getDataboxResponse><rc>0</rc>" +
+          "<result><applkey>A1</applkey><datbesch>2024-07-11</datbesch>" +
+          "<ts_zust>2024-07-11T10:15:30</ts_zust></result>" +
+          "<result><applkey>A2</applkey></result>" +
+          "</getDataboxResponse></Body></Envelope>"
+      )
+    });
+
+    const [dated, undated] = await client.getDatabox("SESSIONID", credentials, {});
+    expect(dated?.datbesch?.toISOString()).toBe("2024-07-10T22:00:00.000Z");
+    expect(dated?.ts_zust?.toISOString()).toBe("2024-07-11T08:15:30.000Z");
+    expect(undated?.datbesch).toBeNull();
+    expect(undated?.ts_zust).toBeNull();
   });
 
   it("throws on session expired", async () => {
@@ -95,6 +175,21 @@ describe("DataboxClient", () => {
     expect(buffer.length).toBeGreaterThan(0);
   });
 
+  it("sniffs the document type and compares it with fileart", async () => {
+    const client = new DataboxClient({
+      fetcher: mockFetch(readFixture("databox-entry-success.xml"))
+    });
+
+    const pdf = await client.getDataboxDocument("SESSIONID", credentials, "AAA111", "PDF");
+    expect(pdf).toMatchObject({ mimeType: "application/pdf", extension: "pdf" });
+    expect(pdf.warnings).toBeUndefined();
+
+    const mislabeled = await client.getDataboxDocument("SESSIONID", credentials, "AAA111", "XML");
+    expect(mislabeled.warnings).toEqual([
+      "fileart: declared XML but the content is application/pdf (.pdf)"
+    ]);
+  });
+
   it("throws on invalid base64", async () => {
     const client = new DataboxClient({
       fetcher: mockFetch(readFixture("databox-entry-invalid.xml"))
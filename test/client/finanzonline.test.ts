@@ -0,0 +1,179 @@
+import fs from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  buildListRequest,
+  FinanzonlineClient
+} from "../../src/client/finanzonline.js";
+import { finanzonlineSchema } from "../../src/config/schema.js";
+import { ConfigurationError } from "../../src/errors.js";
+
+const fixtures = path.join(
+  process.cwd(),
+  "test",
+  "fixtures",
+  "responses"
+);
+
+function readFixture(name: string) {
+  return fs.readFileSync(path.join(fixtures, name), "utf8");
+}
+
+function routingFetch(routes: Record<string, string[]>) {
+  const calls: { url: string; action: string }[] = [];
+  const fetcher = (async (url: string, init: RequestInit) => {
+    const action = (init.headers as Record<string, string>).SOAPAction ?? "";
+    calls.push({ url, action });
+    const queue = routes[action] ?? [];
+    const body = queue.length > 1 ? queue.shift() : queue[0];
+    return { ok: true, status: 200, text: async () => readFixture(body ?? "") };
+  }) as unknown as typeof fetch;
+  return { fetcher, calls };
+}
+
+const config = finanzonlineSchema.parse({
+  tid: "ABCDEF12",
+  benid: "WEBUSER",
+  pin: "secret",
+  herstellerid: "ATU12345678",
+  output_dir: "/tmp/finanzonline"
+});
+
+describe("FinanzonlineClient", () => {
+  it("lists unread entries by default and logs out on close", async () => {
+    const { fetcher, calls } = routingFetch({
+      login: ["session-login-success.xml"],
+      logout: ["session-logout-success.xml"],
+      getDatabox: ["databox-list-success.xml"]
+    });
+    const client = new FinanzonlineClient(config, {
+      fetcher,
+      sessionServiceUrl: "https://session.test",
+      databoxServiceUrl: "https://databox.test"
+    });
+
+    const entries = await client.list();
+    await client.close();
+
+    expect(entries.map((entry) => entry.applkey)).toEqual(["AAA111"]);
+    expect(calls).toEqual([
+      { url: "https://session.test", action: "login" },
+      { url: "https://databox.test", action: "getDatabox" },
+      { url: "https://session.test", action: "logout" }
+    ]);
+  });
+
+  it("downloads all matching documents in one session", async () => {
+    const { fetcher, calls } = routingFetch({
+      login: ["session-login-success.xml"],
+      logout: ["session-logout-success.xml"],
+      getDatabox: ["databox-list-success.xml"],
+      getDataboxEntry: ["databox-entry-success.xml"]
+    });
+    const client = new FinanzonlineClient(config, { fetcher });
+
+    const documents = await client.downloadAll({ status: "ALL" });
+    await client.close();
+
+    expect(documents).toHaveLength(2);
+    expect(documents[0]?.content.subarray(0, 4).toString()).toBe("%PDF");
+    expect(calls.filter((call) => call.action === "login")).toHaveLength(1);
+  });
+
+  it("re-logs in when the session expires", async () => {
+    const { fetcher, calls } = routingFetch({
+      login: ["session-login-success.xml"],
+      getDatabox: [
+        "databox-list-session-expired.xml",
+        "databox-list-success.xml"
+      ]
+    });
+    const client = new FinanzonlineClient(config, { fetcher });
+
+    const entries = await client.list({ status: "READ" });
+
+    expect(entries.map((entry) => entry.applkey)).toEqual(["BBB222"]);
+    expect(calls.filter((call) => call.action === "login")).toHaveLength(2);
+  });
+
+  it("iterates long ranges window by window without duplicates", async () => {
+    const { fetcher, calls } = routingFetch({
+      login: ["session-login-success.xml"],
+      getDatabox: ["databox-list-success.xml"]
+    });
+    const client = new FinanzonlineClient(config, { fetcher });
+
+    const applkeys: string[] = [];
+    for await (const entry of client.iterate({ days: 10, status: "ALL" })) {
+      applkeys.push(entry.applkey);
+    }
+
+    expect(applkeys).toEqual(["AAA111", "BBB222"]);
+    expect(calls.filter((call) => call.action === "getDatabox")).toHaveLength(2);
+  });
+
+  it("rejects ranges the DataBox cannot serve before logging in", async () => {
+    const { fetcher, calls } = routingFetch({ login: ["session-login-success.xml"] });
+    const client = new FinanzonlineClient(config, { fetcher });
+
+    await expect(client.list({ days: 365 })).rejects.toThrow(ConfigurationError);
+    expect(calls).toEqual([]);
+  });
+
+  it("builds from loaded configuration", () => {
+    const client = FinanzonlineClient.fromConfig({
+      startDir: "/",
+      env: {
+        FINANZONLINE__TID: "ABCDEF12",
+        FINANZONLINE__BENID: "WEBUSER",
+        FINANZONLINE__PIN: "secret",
+        FINANZONLINE__HERSTELLERID: "ATU12345678",
+        FINANZONLINE__OUTPUT_DIR: "/tmp/out"
+      }
+    });
+
+    expect(client.credentials.tid).toBe("ABCDEF12");
+    expect(client.config.output_dir).toBe("/tmp/out");
+  });
+
+  it("retries transient failures using the configured policy", async () => {
+    const { fetcher: routed, calls } = routingFetch({
+      login: ["session-login-success.xml"],
+      getDatabox: ["databox-list-success.xml"]
+    });
+    let failures = 0;
+    const fetcher = (async (url: string, init: RequestInit) => {
+      if (failures === 0) {
+        failures += 1;
+        return { ok: false, status: 503, text: async () => "busy" };
+      }
+      return routed(url, init);
+    }) as unknown as typeof fetch;
+    const client = new FinanzonlineClient(
+      { ...config, retry_base_delay: 0 },
+      { fetcher }
+    );
+
+    const entries = await client.list();
+
+    expect(entries).toHaveLength(1);
+    expect(failures).toBe(1);
+    expect(calls.map((call) => call.action)).toEqual(["login", "getDatabox"]);
+  });
+});
+
+describe("buildListRequest", () => {
+  it("prefers absolute dates over days", () => {
+    const now = new Date("2024-02-01T00:00:00Z");
+    const from = new Date("2024-01-01T00:00:00Z");
+
+    expect(buildListRequest({ days: 10 }, now)).toEqual({
+      ts_zust_von: new Date("2024-01-21T23:00:00Z")
+    });
+    expect(buildListRequest({ days: 10, from, to: now, erltyp: "B" }, now)).toEqual({
+      erltyp: "B",
+      ts_zust_von: from,
+      ts_zust_bis: now
+    });
+  });
+});
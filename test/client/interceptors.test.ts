@@ -0,0 +1,145 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  combineInterceptors,
+  createLoggingInterceptors,
+  createTraceFileInterceptors,
+  redactSoapXml,
+  SoapErrorEvent,
+  SoapRequestEvent,
+  SoapResponseEvent
+} from "../../src/client/interceptors.js";
+import { buildSoapEnvelope, sendSoapRequest } from "../../src/client/soap.js";
+import { NetworkError } from "../../src/errors.js";
+
+const fixtures = path.join(
+  process.cwd(),
+  "test",
+  "fixtures",
+  "responses"
+);
+
+function readFixture(name: string) {
+  return fs.readFileSync(path.join(fixtures, name), "utf8");
+}
+
+function mockFetch(body: string, ok = true, status = 200): typeof fetch {
+  return (async () => ({
+    ok,
+    status,
+    text: async () => body
+  })) as typeof fetch;
+}
+
+describe("redactSoapXml", () => {
+  it("masks pin, session id and base64 payloads", () => {
+    const request = buildSoapEnvelope("urn:test", "login", {
+      tid: "ABC",
+      pin: "secret",
+      id: "SESSION123"
+    });
+    const redacted = redactSoapXml(request);
+
+    expect(redacted).toContain("<ns:tid>ABC</ns:tid>");
+    expect(redacted).toContain("<ns:pin>***</ns:pin>");
+    expect(redacted).toContain("<ns:id>***</ns:id>");
+    expect(redacted).not.toContain("secret");
+
+    const response = redactSoapXml(readFixture("databox-entry-success.xml"));
+    expect(response).toContain("<result>[base64 redacted, 16 chars]</result>");
+    expect(redactSoapXml(readFixture("session-login-success.xml"))).not.toContain(
+      "ABCDEF123456"
+    );
+  });
+
+  it("keeps structured list results", () => {
+    const xml = readFixture("databox-list-success.xml");
+    expect(redactSoapXml(xml)).toContain("<applkey>AAA111</applkey>");
+  });
+});
+
+describe("SOAP interceptors", () => {
+  it("reports request, response and timing", async () => {
+    const requests: SoapRequestEvent[] = [];
+    const responses: SoapResponseEvent[] = [];
+
+    await sendSoapRequest({
+      url: "https://example.com",
+      action: "login",
+      body: "<xml />",
+      timeoutMs: 1000,
+      fetcher: mockFetch(readFixture("session-login-success.xml")),
+      interceptors: {
+        onRequest: (event) => requests.push(event),
+        onResponse: (event) => responses.push(event)
+      }
+    });
+
+    expect(requests[0]?.action).toBe("login");
+    expect(requests[0]?.attempt).toBe(1);
+    expect(responses[0]?.status).toBe(200);
+    expect(responses[0]?.durationMs).toBeGreaterThanOrEqual(0);
+    expect(responses[0]?.responseBody).toContain("loginResponse");
+  });
+
+  it("reports mapped errors", async () => {
+    const errors: SoapErrorEvent[] = [];
+
+    await expect(
+      sendSoapRequest({
+        url: "https://example.com",
+        action: "login",
+        body: "<xml />",
+        timeoutMs: 1000,
+        fetcher: mockFetch("oops", false, 500),
+        interceptors: { onError: (event) => errors.push(event) }
+      })
+    ).rejects.toBeInstanceOf(NetworkError);
+    expect(errors[0]?.error).toBeInstanceOf(NetworkError);
+  });
+
+  it("logs redacted traces as text and NDJSON", async () => {
+    const lines: string[] = [];
+    const traceFile = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "finanzonline-trace-")),
+      "trace.ndjson"
+    );
+    const interceptors = combineInterceptors(
+      createLoggingInterceptors((line) => lines.push(line)),
+      createTraceFileInterceptors(traceFile),
+      undefined
+    );
+
+    await sendSoapRequest({
+      url: "https://example.com",
+      action: "login",
+      body: buildSoapEnvelope("urn:test", "login", { pin: "secret" }),
+      timeoutMs: 1000,
+      fetcher: mockFetch(readFixture("session-login-success.xml")),
+      interceptors
+    });
+    interceptors.onError?.({
+      url: "https://example.com",
+      action: "logout",
+      body: "",
+      attempt: 1,
+      startedAt: new Date(),
+      durationMs: 5,
+      error: new Error("boom")
+    });
+
+    expect(lines.join("\n")).not.toContain("secret");
+    expect(lines.at(-1)).toContain("logout failed after 5ms: boom");
+
+    const records = fs
+      .readFileSync(traceFile, "utf8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(records.map((record) => record.type)).toEqual(["request", "response", "error"]);
+    expect(JSON.stringify(records)).not.toContain("secret");
+    expect(JSON.stringify(records)).not.toContain("ABCDEF123456");
+  });
+});
@@ -0,0 +1,106 @@
+import fs from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { parseMaintenancePage } from "../../src/client/maintenance.js";
+import { sendSoapRequest } from "../../src/client/soap.js";
+import { overallState, probeServices, STATUS_EXIT_CODES } from "../../src/client/status.js";
+import { MaintenanceError } from "../../src/errors.js";
+
+const fixtures = path.join(process.cwd(), "test", "fixtures", "responses");
+
+function readFixture(name: string) {
+  return fs.readFileSync(path.join(fixtures, name), "utf8");
+}
+
+describe("parseMaintenancePage", () => {
+  it("reads the announced window and notice", () => {
+    const window = parseMaintenancePage(
+      readFixture("maintenance-window.html"),
+      new Date("2026-10-18T21:00:00Z")
+    );
+
+    expect(window.startsAt?.toISOString()).toBe("2026-10-18T20:00:00.000Z");
+    expect(window.endsAt?.toISOString()).toBe("2026-10-19T04:00:00.000Z");
+    expect(window.notice).toContain("nicht zur Verfügung");
+    expect(window.notice).not.toContain("font-family");
+  });
+
+  it("handles explicit start and end dates", () => {
+    const window = parseMaintenancePage(
+      "<p>Wartung von 31.12.2026 20:00 Uhr bis 01.01.2027 02:30 Uhr</p>"
+    );
+
+    expect(window.startsAt?.toISOString()).toBe("2026-12-31T19:00:00.000Z");
+    expect(window.endsAt?.toISOString()).toBe("2027-01-01T01:30:00.000Z");
+  });
+
+  it("rolls a bare end time over to the next day once it has passed", () => {
+    const window = parseMaintenancePage(
+      "<p>Voraussichtlich bis 06:00 Uhr</p>",
+      new Date("2026-10-18T21:00:00Z")
+    );
+
+    expect(window.startsAt).toBeUndefined();
+    expect(window.endsAt?.toISOString()).toBe("2026-10-19T04:00:00.000Z");
+  });
+
+  it("leaves the window open when no time is announced", () => {
+    const window = parseMaintenancePage(readFixture("maintenance.html"));
+    expect(window.endsAt).toBeUndefined();
+    expect(window.notice).toBe("Service in Wartung");
+  });
+  it("keeps numeric entities that name no character", () => {
+    const window = parseMaintenancePage(
+      "<p>Wartung&#58; &#99999999; &#xD800; &#x110000; &#x57;artung&#x21;</p>"
+    );
+
+    expect(window.notice).toBe("Wartung: &#99999999; &#xD800; &#x110000; Wartung!");
+  });
+});
+
+describe("maintenance detection", () => {
+  it("exposes the window on MaintenanceError", async () => {
+    const html = readFixture("maintenance-window.html");
+    const error = await sendSoapRequest({
+      url: "https://example.com",
+      action: "login",
+      body: "<xml />",
+      timeoutMs: 1000,
+      fetcher: (async () => ({ ok: true, status: 200, text: async () => html })) as typeof fetch
+    }).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(MaintenanceError);
+    expect((error as MaintenanceError).endsAt).toBeInstanceOf(Date);
+    expect((error as MaintenanceError).message).toMatch(/until 2026-10-19T06:00:00\+02:00/);
+  });
+});
+
+describe("probeServices", () => {
+  it("reports up, maintenance and unreachable services", async () => {
+    const requested: string[] = [];
+    const fetcher = (async (url: string) => {
+      requested.push(url);
+      if (url.includes("session")) {
+        return { ok: true, status: 200, text: async () => "<definitions />" };
+      }
+      return { ok: true, status: 200, text: async () => readFixture("maintenance-window.html") };
+    }) as unknown as typeof fetch;
+
+    const statuses = await probeServices({
+      fetcher,
+      now: () => new Date("2026-10-18T21:00:00Z")
+    });
+
+    expect(requested.every((url) => url.endsWith("?wsdl"))).toBe(true);
+    expect(statuses.map((status) => status.state)).toEqual(["up", "maintenance"]);
+    expect(statuses[1]?.endsAt?.toISOString()).toBe("2026-10-19T04:00:00.000Z");
+    expect(STATUS_EXIT_CODES[overallState(statuses)]).toBe(2);
+
+    const failing = (async () => {
+      throw new TypeError("fetch failed");
+    }) as unknown as typeof fetch;
+    const down = await probeServices({ fetcher: failing });
+    expect(down.map((status) => status.error)).toEqual(["fetch failed", "fetch failed"]);
+    expect(overallState([...statuses, ...down])).toBe("unreachable");
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { FinanzonlineSession, withSession } from "../../src/client/managed.js";
+import { SessionClient } from "../../src/client/session.js";
+import { DataboxError, SessionExpiredError } from "../../src/errors.js";
+
+const credentials = {
+  tid: "ABCDEF12",
+  benid: "WEBUSER",
+  pin: "secret",
+  herstellerid: "ATU12345678"
+};
+
+function fakeSessionClient(options: { failLogout?: boolean } = {}) {
+  const calls = { login: 0, logout: [] as string[] };
+  const client = {
+    login: async () => {
+      calls.login += 1;
+      return { sessionId: `S${calls.login}`, returnCode: 0, message: "OK" };
+    },
+    logout: async (sessionId: string) => {
+      calls.logout.push(sessionId);
+      if (options.failLogout) {
+        throw new Error("network down");
+      }
+      return true;
+    }
+  } as unknown as SessionClient;
+  return { client, calls };
+}
+
+describe("FinanzonlineSession", () => {
+  it("logs in lazily and only once", async () => {
+    const { client, calls } = fakeSessionClient();
+    const session = new FinanzonlineSession(credentials, { sessionClient: client });
+
+    expect(calls.login).toBe(0);
+    const ids = await Promise.all([session.getSessionId(), session.getSessionId()]);
+    expect(ids).toEqual(["S1", "S1"]);
+    expect(calls.login).toBe(1);
+    expect(session.isActive).toBe(true);
+  });
+
+  it("retries once with a fresh session on expiry", async () => {
+    const { client, calls } = fakeSessionClient();
+    const session = new FinanzonlineSession(credentials, { sessionClient: client });
+    const seen: string[] = [];
+
+    const result = await session.run(async (sessionId) => {
+      seen.push(sessionId);
+      if (sessionId === "S1") {
+        throw new SessionExpiredError("Session expired", -1);
+      }
+      return "ok";
+    });
+
+    expect(result).toBe("ok");
+    expect(seen).toEqual(["S1", "S2"]);
+    expect(calls.login).toBe(2);
+  });
+
+  it("gives up after the second expiry", async () => {
+    const { client } = fakeSessionClient();
+    const session = new FinanzonlineSession(credentials, { sessionClient: client });
+
+    await expect(
+      session.run(async () => {
+        throw new SessionExpiredError("Session expired", -1);
+      })
+    ).rejects.toBeInstanceOf(SessionExpiredError);
+  });
+
+  it("does not retry other errors", async () => {
+    const { client, calls } = fakeSessionClient();
+    const session = new FinanzonlineSession(credentials, { sessionClient: client });
+
+    await expect(
+      session.run(async () => {
+        throw new DataboxError("boom", -2);
+      })
+    ).rejects.toBeInstanceOf(DataboxError);
+    expect(calls.login).toBe(1);
+  });
+
+  it("skips logout when never logged in and rejects after close", async () => {
+    const { client, calls } = fakeSessionClient();
+    const session = new FinanzonlineSession(credentials, { sessionClient: client });
+
+    await session.close();
+    expect(calls.logout).toEqual([]);
+    await expect(session.getSessionId()).rejects.toBeInstanceOf(SessionExpiredError);
+  });
+
+  it("swallows logout failures", async () => {
+    const { client, calls } = fakeSessionClient({ failLogout: true });
+    const session = new FinanzonlineSession(credentials, { sessionClient: client });
+
+    await session.getSessionId();
+    await expect(session.close()).resolves.toBeUndefined();
+    expect(calls.logout).toEqual(["S1"]);
+  });
+});
+
+describe("withSession", () => {
+  it("logs out after success", async () => {
+    const { client, calls } = fakeSessionClient();
+
+    const result = await withSession(
+      credentials,
+      (session) => session.run(async (sessionId) => sessionId),
+      { sessionClient: client, signals: ["SIGINT"] }
+    );
+
+    expect(result).toBe("S1");
+    expect(calls.logout).toEqual(["S1"]);
+    expect(process.listenerCount("SIGINT")).toBe(0);
+  });
+
+  it("logs out after failure", async () => {
+    const { client, calls } = fakeSessionClient();
+
+    await expect(
+      withSession(
+        credentials,
+        async (session) => {
+          await session.getSessionId();
+          throw new Error("fail");
+        },
+        { sessionClient: client }
+      )
+    ).rejects.toThrow("fail");
+    expect(calls.logout).toEqual(["S1"]);
+  });
+});
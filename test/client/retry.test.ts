@@ -0,0 +1,223 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeDelay,
+  isRetryable,
+  resolveRetryPolicy,
+  withRetry
+} from "../../src/client/retry.js";
+import { DataboxClient } from "../../src/client/databox.js";
+import { sendSoapRequest } from "../../src/client/soap.js";
+import {
+  DataboxError,
+  InvalidCredentialsError,
+  InvalidDateRangeError,
+  InvalidXmlError,
+  MaintenanceError,
+  NetworkError,
+  SessionExpiredError,
+  SoapFaultError
+} from "../../src/errors.js";
+
+function recordingPolicy(overrides: Parameters<typeof resolveRetryPolicy>[0] = {}) {
+  const delays: number[] = [];
+  const policy = resolveRetryPolicy({
+    maxAttempts: 3,
+    baseDelayMs: 100,
+    jitter: 0,
+    sleep: async (ms) => {
+      delays.push(ms);
+    },
+    ...overrides
+  });
+  return { policy, delays };
+}
+
+function failingOperation(errors: Error[], result = "ok") {
+  let calls = 0;
+  const operation = async () => {
+    const error = errors[calls];
+    calls += 1;
+    if (error) {
+      throw error;
+    }
+    return result;
+  };
+  return { operation, calls: () => calls };
+}
+
+describe("withRetry", () => {
+  it("retries network errors with exponential backoff", async () => {
+    const { policy, delays } = recordingPolicy();
+    const { operation, calls } = failingOperation([
+      new NetworkError("reset"),
+      new NetworkError("timeout")
+    ]);
+
+    await expect(withRetry(operation, policy)).resolves.toBe("ok");
+    expect(calls()).toBe(3);
+    expect(delays).toEqual([100, 200]);
+  });
+
+  it("stops after maxAttempts", async () => {
+    const { policy } = recordingPolicy({ maxAttempts: 2 });
+    const { operation, calls } = failingOperation([
+      new NetworkError("a"),
+      new NetworkError("b"),
+      new NetworkError("c")
+    ]);
+
+    await expect(withRetry(operation, policy)).rejects.toThrow("b");
+    expect(calls()).toBe(2);
+  });
+
+  it("does not retry client errors or non-retryable classes", async () => {
+    const { policy } = recordingPolicy();
+    const notFound = failingOperation([new NetworkError("404", undefined, 404)]);
+    const fault = failingOperation([new SoapFaultError("fault")]);
+
+    await expect(withRetry(notFound.operation, policy)).rejects.toBeInstanceOf(NetworkError);
+    await expect(withRetry(fault.operation, policy)).rejects.toBeInstanceOf(SoapFaultError);
+    expect(notFound.calls()).toBe(1);
+    expect(fault.calls()).toBe(1);
+  });
+
+  it("never retries invalid credentials even when configured", async () => {
+    const { policy } = recordingPolicy({ retryOn: [Error] });
+    const { operation, calls } = failingOperation([
+      new InvalidCredentialsError("bad", -4)
+    ]);
+
+    await expect(withRetry(operation, policy)).rejects.toBeInstanceOf(
+      InvalidCredentialsError
+    );
+    expect(calls()).toBe(1);
+  });
+
+  it("uses the maintenance schedule for maintenance errors", async () => {
+    const { policy, delays } = recordingPolicy({
+      maxAttempts: 1,
+      maintenance: { maxAttempts: 3, delayMs: 60_000 }
+    });
+    const { operation } = failingOperation([
+      new MaintenanceError("down"),
+      new MaintenanceError("down")
+    ]);
+
+    await expect(withRetry(operation, policy)).resolves.toBe("ok");
+    expect(delays).toEqual([60_000, 60_000]);
+  });
+
+  it("waits for the announced end of the maintenance window", async () => {
+    const now = new Date("2026-10-18T20:00:00Z");
+    const { policy, delays } = recordingPolicy({
+      maintenance: { maxAttempts: 2, delayMs: 60_000 },
+      now: () => now
+    });
+    const { operation } = failingOperation([
+      new MaintenanceError("down", { endsAt: new Date("2026-10-18T20:30:00Z") })
+    ]);
+
+    await expect(withRetry(operation, policy)).resolves.toBe("ok");
+    expect(delays).toEqual([30 * 60_000]);
+  });
+
+  it("throws maintenance errors by default", async () => {
+    const { policy } = recordingPolicy();
+    const { operation, calls } = failingOperation([new MaintenanceError("down")]);
+
+    await expect(withRetry(operation, policy)).rejects.toBeInstanceOf(MaintenanceError);
+    expect(calls()).toBe(1);
+  });
+});
+
+describe("retry helpers", () => {
+  it("caps and jitters delays", () => {
+    const policy = resolveRetryPolicy({
+      baseDelayMs: 1000,
+      maxDelayMs: 3000,
+      jitter: 0.5,
+      random: () => 1
+    });
+    expect(computeDelay(1, policy)).toBe(1500);
+    expect(computeDelay(5, policy)).toBe(4500);
+  });
+
+  it("treats 5xx, 408 and 429 as transient", () => {
+    const policy = resolveRetryPolicy();
+    expect(isRetryable(new NetworkError("x", undefined, 502), policy)).toBe(true);
+    expect(isRetryable(new NetworkError("x", undefined, 429), policy)).toBe(true);
+    expect(isRetryable(new NetworkError("x", undefined, 400), policy)).toBe(false);
+    expect(isRetryable(new InvalidXmlError("x"), policy)).toBe(false);
+  });
+
+  it("retries HTTP 5xx responses in sendSoapRequest", async () => {
+    let attempts = 0;
+    const fetcher = (async () => {
+      attempts += 1;
+      return attempts < 2
+        ? { ok: false, status: 503, text: async () => "busy" }
+        : {
+            ok: true,
+            status: 200,
+            text: async () =>
+              "<Envelope><Body><pingResponse><rc>0</rc></pingResponse></Body></Envelope>"
+          };
+    }) as unknown as typeof fetch;
+    const { policy } = recordingPolicy();
+
+    const result = await sendSoapRequest<{ rc: number }>({
+      url: "https://example.com",
+      action: "ping",
+      body: "<xml />",
+      timeoutMs: 1000,
+      fetcher,
+      retry: policy
+    });
+
+    expect(result.rc).toBe(0);
+    expect(attempts).toBe(2);
+  });
+
+  it("follows the return-code catalog for rc errors", () => {
+    const policy = resolveRetryPolicy({ retryOn: [NetworkError, DataboxError] });
+    expect(isRetryable(new DataboxError("technical", -3), resolveRetryPolicy())).toBe(true);
+    expect(isRetryable(new InvalidDateRangeError("too old", -4), policy)).toBe(false);
+    expect(isRetryable(new SessionExpiredError("expired", -1), policy)).toBe(false);
+    // Codes outside the catalog keep following retryOn.
+    expect(isRetryable(new DataboxError("unknown", 42), policy)).toBe(true);
+  });
+
+  it("retries rc=-3 responses from the DataBox", async () => {
+    const bodies = [-3, -3, 0].map(
+      (rc) =>
+        `<Envelope><Body><getDataboxResponse><rc>${rc}</rc>` +
+        `</getDataboxResponse></Body></Envelope>`
+    );
+    const fetcher = (async () => {
+      const body = bodies.shift() ?? "";
+      return { ok: true, status: 200, text: async () => body };
+    }) as unknown as typeof fetch;
+    const delays: number[] = [];
+    const databox = new DataboxClient({
+      fetcher,
+      retry: {
+        maxAttempts: 3,
+        baseDelayMs: 100,
+        jitter: 0,
+        sleep: async (ms) => {
+          delays.push(ms);
+        }
+      }
+    });
+
+    await expect(databox.getDatabox("SESSIONID", credentials, {})).resolves.toEqual([]);
+    expect(delays).toEqual([100, 200]);
+  });
+});
+
+const credentials = {
+  tid: "ABCDEF12",
+  benid: "WEBUSER",
+  pin: "secret",
+  herstellerid: "ATU12345678"
+};
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { DataboxClient } from "../../src/client/databox.js";
+import {
+  describeReturnCode,
+  explainError,
+  RETURN_CODES,
+  returnCodeError
+} from "../../src/client/return-codes.js";
+import { SessionClient } from "../../src/client/session.js";
+import {
+  DataboxError,
+  InvalidCredentialsError,
+  InvalidDateRangeError,
+  MaintenanceError,
+  NotAuthorizedError,
+  SessionError,
+  SessionExpiredError,
+  UserLockedError
+} from "../../src/errors.js";
+
+const credentials = {
+  tid: "ABCDEF12",
+  benid: "WEBUSER",
+  pin: "secret",
+  herstellerid: "ATU12345678"
+};
+
+function responseFetch(operation: string, rc: number, msg = ""): typeof fetch {
+  const body =
+    `<Envelope><Body><${operation}Response><rc>${rc}</rc>` +
+    `${msg ? `<msg>${msg}</msg>` : ""}</${operation}Response></Body></Envelope>`;
+  return (async () => ({ ok: true, status: 200, text: async () => body })) as typeof fetch;
+}
+
+describe("return code catalog", () => {
+  it("documents every entry in German and English", () => {
+    for (const info of RETURN_CODES) {
+      expect(info.de.length).toBeGreaterThan(0);
+      expect(info.en.length).toBeGreaterThan(0);
+      expect(info.action.length).toBeGreaterThan(0);
+    }
+    expect(describeReturnCode("session", -7)?.name).toBe("NOT_WEBSERVICE_USER");
+    expect(describeReturnCode("databox", -7)).toBeUndefined();
+  });
+
+  it("maps codes to typed errors", () => {
+    expect(returnCodeError("session", -4, "", "x")).toBeInstanceOf(InvalidCredentialsError);
+    expect(returnCodeError("session", -5, "", "x")).toBeInstanceOf(UserLockedError);
+    expect(returnCodeError("session", -8, "", "x")).toBeInstanceOf(NotAuthorizedError);
+    expect(returnCodeError("databox", -1, "", "x")).toBeInstanceOf(SessionExpiredError);
+    expect(returnCodeError("databox", -5, "", "x")).toBeInstanceOf(InvalidDateRangeError);
+
+    const unknown = returnCodeError("databox", 42, undefined, "Failed to list databox");
+    expect(unknown).toBeInstanceOf(DataboxError);
+    expect(unknown.message).toBe("Failed to list databox");
+  });
+
+  it("maps maintenance return codes to MaintenanceError", () => {
+    const error = returnCodeError("databox", -2, "Wartungsarbeiten", "x");
+    expect(error).toBeInstanceOf(MaintenanceError);
+    expect((error as MaintenanceError).returnCode).toBe(-2);
+    expect(explainError(error)?.name).toBe("MAINTENANCE");
+    expect(returnCodeError("session", -2, "", "x")).toBeInstanceOf(MaintenanceError);
+  });
+
+  it("prefers the server message and falls back to the catalog text", () => {
+    expect(returnCodeError("session", -6, "Benutzer gesperrt", "x").message).toBe(
+      "Benutzer gesperrt"
+    );
+    expect(returnCodeError("session", -6, undefined, "x").message).toBe("The user is locked.");
+  });
+
+  it("explains errors thrown by the clients", async () => {
+    const session = new SessionClient({ fetcher: responseFetch("login", -7) });
+    const loginError = await session.login(credentials).catch((error: unknown) => error);
+    expect(loginError).toBeInstanceOf(NotAuthorizedError);
+    expect(loginError).toBeInstanceOf(SessionError);
+    expect(explainError(loginError)?.retryable).toBe(false);
+
+    const databox = new DataboxClient({ fetcher: responseFetch("getDatabox", -4) });
+    const listError = await databox
+      .getDatabox("SESSIONID", credentials, {})
+      .catch((error: unknown) => error);
+    expect(listError).toBeInstanceOf(InvalidDateRangeError);
+    expect(explainError(listError)?.name).toBe("FROM_TOO_OLD");
+    expect(explainError(new Error("plain"))).toBeUndefined();
+  });
+
+  it("waits out rc=-2 on the maintenance schedule", async () => {
+    const bodies = [-2, 0].map(
+      (rc) =>
+        `<Envelope><Body><getDataboxResponse><rc>${rc}</rc>` +
+        `</getDataboxResponse></Body></Envelope>`
+    );
+    const fetcher = (async () => {
+      const body = bodies.shift() ?? "";
+      return { ok: true, status: 200, text: async () => body };
+    }) as unknown as typeof fetch;
+    const delays: number[] = [];
+    const databox = new DataboxClient({
+      fetcher,
+      retry: {
+        maintenance: { maxAttempts: 2, delayMs: 60_000 },
+        sleep: async (ms) => {
+          delays.push(ms);
+        }
+      }
+    });
+
+    await expect(databox.getDatabox("SESSIONID", credentials, {})).resolves.toEqual([]);
+    expect(delays).toEqual([60_000]);
+  });
+});
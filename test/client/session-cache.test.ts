@@ -0,0 +1,131 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { FinanzonlineSession } from "../../src/client/managed.js";
+import { SessionCache } from "../../src/client/session-cache.js";
+import { SessionClient } from "../../src/client/session.js";
+import { SessionExpiredError } from "../../src/errors.js";
+
+const credentials = {
+  tid: "ABCDEF12",
+  benid: "WEBUSER",
+  pin: "secret",
+  herstellerid: "ATU12345678"
+};
+
+function makeCache(clock: { now: number }, ttlSeconds = 600) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "finanzonline-cache-"));
+  return new SessionCache({
+    filePath: path.join(dir, "sessions.json"),
+    ttlSeconds,
+    now: () => new Date(clock.now)
+  });
+}
+
+function fakeSessionClient() {
+  const calls = { login: 0, logout: [] as string[] };
+  const client = {
+    login: async () => {
+      calls.login += 1;
+      return { sessionId: `S${calls.login}`, returnCode: 0, message: "OK" };
+    },
+    logout: async (sessionId: string) => {
+      calls.logout.push(sessionId);
+      return true;
+    }
+  } as unknown as SessionClient;
+  return { client, calls };
+}
+
+describe("SessionCache", () => {
+  it("stores sessions per tid/benid with 0600 permissions", () => {
+    const clock = { now: Date.parse("2024-01-01T10:00:00Z") };
+    const cache = makeCache(clock);
+
+    cache.store(credentials, "S1");
+    cache.store({ tid: "OTHER123", benid: "WEBUSER" }, "S2");
+
+    expect(cache.getFresh(credentials)).toBe("S1");
+    expect(cache.get({ tid: "OTHER123", benid: "WEBUSER" })?.sessionId).toBe("S2");
+    expect(fs.statSync(cache.filePath).mode & 0o777).toBe(0o600);
+  });
+
+  it("expires idle sessions and extends them on use", () => {
+    const clock = { now: Date.parse("2024-01-01T10:00:00Z") };
+    const cache = makeCache(clock, 60);
+    cache.store(credentials, "S1");
+
+    clock.now += 50_000;
+    cache.touch(credentials, "S1");
+    clock.now += 50_000;
+    expect(cache.getFresh(credentials)).toBe("S1");
+
+    clock.now += 61_000;
+    expect(cache.getFresh(credentials)).toBeUndefined();
+    expect(cache.get(credentials)?.sessionId).toBe("S1");
+  });
+
+  it("only removes the expected session", () => {
+    const clock = { now: Date.parse("2024-01-01T10:00:00Z") };
+    const cache = makeCache(clock);
+    cache.store(credentials, "S2");
+
+    cache.remove(credentials, "S1");
+    expect(cache.getFresh(credentials)).toBe("S2");
+    cache.remove(credentials);
+    expect(cache.get(credentials)).toBeUndefined();
+  });
+});
+
+describe("FinanzonlineSession with a cache", () => {
+  it("reuses a cached session across instances without logging out", async () => {
+    const clock = { now: Date.parse("2024-01-01T10:00:00Z") };
+    const cache = makeCache(clock);
+    const { client, calls } = fakeSessionClient();
+
+    const first = new FinanzonlineSession(credentials, { sessionClient: client, cache });
+    await first.run(async () => "listed");
+    await first.close();
+
+    const second = new FinanzonlineSession(credentials, { sessionClient: client, cache });
+    const seen = await second.run(async (sessionId) => sessionId);
+    await second.close();
+
+    expect(seen).toBe("S1");
+    expect(calls.login).toBe(1);
+    expect(calls.logout).toEqual([]);
+  });
+
+  it("logs in again when the cached session was expired by the server", async () => {
+    const clock = { now: Date.parse("2024-01-01T10:00:00Z") };
+    const cache = makeCache(clock);
+    cache.store(credentials, "OLD");
+    const { client, calls } = fakeSessionClient();
+
+    const session = new FinanzonlineSession(credentials, { sessionClient: client, cache });
+    const seen: string[] = [];
+    await session.run(async (sessionId) => {
+      seen.push(sessionId);
+      if (sessionId === "OLD") {
+        throw new SessionExpiredError("Session expired", -1);
+      }
+    });
+
+    expect(seen).toEqual(["OLD", "S1"]);
+    expect(calls.login).toBe(1);
+    expect(cache.getFresh(credentials)).toBe("S1");
+  });
+
+  it("logs out the cached session and forgets it", async () => {
+    const clock = { now: Date.parse("2024-01-01T10:00:00Z") };
+    const cache = makeCache(clock);
+    cache.store(credentials, "CACHED");
+    const { client, calls } = fakeSessionClient();
+
+    await new FinanzonlineSession(credentials, { sessionClient: client, cache }).logout();
+
+    expect(calls.logout).toEqual(["CACHED"]);
+    expect(cache.get(credentials)).toBeUndefined();
+  });
+});
@@ -7,6 +7,7 @@ import {
   InvalidXmlError,
   MaintenanceError,
   NetworkError,
+  ResponseValidationError,
   SessionError
 } from "../../src/errors.js";
 
@@ -47,6 +48,29 @@ describe("SessionClient", () => {
     expect(session.returnCode).toBe(0);
   });
 
+  it("reads numeric session ids as text", async () => {
+    const client = new SessionClient({
+      fetcher: mockFetch(
+        "<Envelope><Body><loginResponse><rc>0</rc><id>123456</id></loginResponse></Body></Envelope>"
+      ),
+      strict: true
+    });
+
+    const session = await client.login(credentials);
+    expect(session.sessionId).toBe("123456");
+  });
+
+  it("rejects a malformed login response in strict mode", async () => {
+    const client = new SessionClient({
+      fetcher: mockFetch(
+        "<Envelope><Body><loginResponse><rc>OK</rc><id>X</id></loginResponse></Body></Envelope>"
+      ),
+      strict: true
+    });
+
+    await expect(client.login(credentials)).rejects.toBeInstanceOf(ResponseValidationError);
+  });
+
   it("throws on invalid credentials", async () => {
     const client = new SessionClient({
       fetcher: mockFetch(readFixture("session-login-invalid.xml"))
@@ -59,7 +83,7 @@ describe("SessionClient", () => {
 
   it("throws on other login failures", async () => {
     const client = new SessionClient({
-      fetcher: mockFetch(readFixture("session-login-fail.xml"))
+      fetcher: mockFetch(readFixture("session-login-error.xml"))
     });
 
     await expect(client.login(credentials)).rejects.toBeInstanceOf(
@@ -67,6 +91,16 @@ describe("SessionClient", () => {
     );
   });
 
+  it("maps a login with rc=-2 to MaintenanceError", async () => {
+    const client = new SessionClient({
+      fetcher: mockFetch(readFixture("session-login-fail.xml"))
+    });
+
+    const error = await client.login(credentials).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(MaintenanceError);
+    expect(error).toMatchObject({ returnCode: -2 });
+  });
+
   it("throws when session id is missing", async () => {
     const client = new SessionClient({
       fetcher: mockFetch(readFixture("session-login-missing-id.xml"))
@@ -32,6 +32,18 @@ function mockFetch(body: string, ok = true, status = 200): typeof fetch {
   })) as typeof fetch;
 }
 
+function captureFault(parse: () => unknown): SoapFaultError {
+  try {
+    parse();
+  } catch (error) {
+    if (error instanceof SoapFaultError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error("Expected a SOAP fault");
+}
+
 describe("soap utils", () => {
   it("builds SOAP envelope", () => {
     const xml = buildSoapEnvelope("urn:test", "login", {
@@ -44,7 +56,7 @@ describe("soap utils", () => {
 
     expect(xml).toContain("<ns:loginRequest>");
     expect(xml).toContain("<ns:tid>ABC</ns:tid>");
-    expect(xml).toContain("2024-01-01T00:00:00.000Z");
+    expect(xml).toContain("2024-01-01T01:00:00+01:00");
   });
 
   it("detects maintenance mode", () => {
@@ -57,6 +69,49 @@ describe("soap utils", () => {
     );
   });
 
+  it("keeps the SOAP 1.1 fault detail and raw XML", () => {
+    const error = captureFault(() => parseSoapBody(readFixture("soap-fault-detail.xml")));
+
+    expect(error.message).toBe("Schema-Validierung fehlgeschlagen");
+    expect(error.faultCode).toBe("soapenv:Client");
+    expect(error.soapVersion).toBe("1.1");
+    expect(error.actor).toBe("https://finanzonline.bmf.gv.at/fon/ws/databox");
+    expect(error.detail).toEqual({
+      validationError: {
+        element: "ts_zust_von",
+        reason: "cvc-datatype-valid.1.2.1: '2024-13-01' is not a valid value for 'dateTime'."
+      }
+    });
+    expect(error.rawFault).toMatch(/^<soapenv:Fault>[\s\S]*<\/soapenv:Fault>$/);
+  });
+
+  it("parses SOAP 1.2 faults", () => {
+    const error = captureFault(() => parseSoapBody(readFixture("soap12-fault.xml")));
+
+    expect(error.message).toBe("Ungültige Anfrage");
+    expect(error.faultCode).toBe("env:Sender");
+    expect(error.subcodes).toEqual(["fon:InvalidRequest"]);
+    expect(error.soapVersion).toBe("1.2");
+    expect(error.detail).toEqual({ problem: { field: "herstellerid" } });
+    expect(error.rawFault).toContain("<env:Reason>");
+  });
+
+  it("picks the response element among several body children", () => {
+    const xml = readFixture("soap-multiple-body.xml");
+    expect(parseSoapBody(xml)).toEqual({ id: "SESSION123", rc: 0 });
+    expect(parseSoapBody(xml, "notice")).toBe("Scheduled maintenance on Sunday");
+  });
+
+  it("strips namespaces and attributes from payloads", () => {
+    expect(
+      parseSoapBody(readFixture("soap-namespaced-payload.xml"), "loginResponse")
+    ).toEqual({ id: "SESSION123", rc: 0 });
+  });
+
+  it("maps xsi:nil elements to null", () => {
+    expect(parseSoapBody(readFixture("soap-nil.xml"))).toEqual({ rc: -1, msg: null });
+  });
+
   it("rejects missing body", () => {
     const xml = "<?xml version=\"1.0\"?><Envelope></Envelope>";
     expect(() => parseSoapBody(xml)).toThrow(InvalidXmlError);
@@ -79,4 +134,21 @@ describe("soap utils", () => {
       })
     ).rejects.toBeInstanceOf(NetworkError);
   });
+
+  it("reports faults sent with an error status", async () => {
+    const error = await sendSoapRequest({
+      url: "https://example.com",
+      action: "getDatabox",
+      body: "<xml />",
+      timeoutMs: 1000,
+      fetcher: mockFetch(readFixture("soap-fault-detail.xml"), false, 500)
+    }).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(SoapFaultError);
+    expect((error as SoapFaultError).status).toBe(500);
+    expect((error as SoapFaultError).detail).toHaveProperty(
+      "validationError.element",
+      "ts_zust_von"
+    );
+  });
 });
@@ -0,0 +1,250 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { buffer } from "node:stream/consumers";
+import { describe, expect, it, vi } from "vitest";
+import { DataboxClient } from "../../src/client/databox.js";
+import { Base64ChunkDecoder, streamSoapResult } from "../../src/client/stream.js";
+import {
+  DataboxError,
+  InvalidXmlError,
+  MaintenanceError,
+  NetworkError,
+  SessionExpiredError
+} from "../../src/errors.js";
+import { writeStreamToFile } from "../../src/sync/files.js";
+
+const fixtures = path.join(
+  process.cwd(),
+  "test",
+  "fixtures",
+  "responses"
+);
+
+function readFixture(name: string) {
+  return fs.readFileSync(path.join(fixtures, name), "utf8");
+}
+
+function streamingFetch(body: string, chunkSize = 7, status = 200): typeof fetch {
+  return (async () => {
+    const bytes = new TextEncoder().encode(body);
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+          controller.enqueue(bytes.slice(offset, offset + chunkSize));
+        }
+        controller.close();
+      }
+    });
+    return new Response(stream, { status });
+  }) as typeof fetch;
+}
+
+function entryResponse(payload: string) {
+  return (
+    `<?xml version="1.0"?><soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/">` +
+    `<soapenv:Body><ns:getDataboxEntryResponse xmlns:ns="urn:x">` +
+    `<rc>0</rc><msg>OK</msg><ns:result>${payload}</ns:result>` +
+    `</ns:getDataboxEntryResponse></soapenv:Body></soapenv:Envelope>`
+  );
+}
+
+/** Sends `head` and then stalls like a large download; records when the body is cancelled. */
+function stallingFetch(head: string, status = 200) {
+  const state = { cancelled: false };
+  const fetcher = (async () => {
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(head));
+      },
+      cancel() {
+        state.cancelled = true;
+      }
+    });
+    return new Response(stream, { status });
+  }) as typeof fetch;
+  return { fetcher, state };
+}
+
+const credentials = {
+  tid: "ABCDEF12",
+  benid: "WEBUSER",
+  pin: "secret",
+  herstellerid: "ATU12345678"
+};
+
+describe("getDataboxEntryStream", () => {
+  it("decodes base64 across arbitrary chunk boundaries", async () => {
+    const document = Buffer.from(`%PDF-1.7\n${"x".repeat(5000)}\n%%EOF`);
+    const encoded = document.toString("base64").replace(/(.{76})/g, "$1\n");
+
+    for (const chunkSize of [1, 3, 64, 4096]) {
+      const client = new DataboxClient({
+        fetcher: streamingFetch(entryResponse(encoded), chunkSize)
+      });
+      const stream = await client.getDataboxEntryStream("S", credentials, "AAA111");
+      expect((await buffer(stream)).equals(document)).toBe(true);
+    }
+  });
+
+  it("matches the buffered download for fixtures without a body stream", async () => {
+    const fetcher = (async () => ({
+      ok: true,
+      status: 200,
+      text: async () => readFixture("databox-entry-success.xml")
+    })) as unknown as typeof fetch;
+    const client = new DataboxClient({ fetcher });
+
+    const streamed = await buffer(
+      await client.getDataboxEntryStream("S", credentials, "AAA111")
+    );
+    const buffered = await client.getDataboxEntry("S", credentials, "AAA111");
+    expect(streamed.equals(buffered)).toBe(true);
+  });
+
+  it("rejects before streaming on return codes", async () => {
+    const expired = new DataboxClient({
+      fetcher: streamingFetch(
+        readFixture("databox-list-session-expired.xml").replace(
+          "</msg>",
+          "</msg><result>AAAA</result>"
+        )
+      )
+    });
+    const failed = new DataboxClient({
+      fetcher: streamingFetch(readFixture("databox-entry-fail.xml"))
+    });
+    const missing = new DataboxClient({
+      fetcher: streamingFetch(readFixture("databox-entry-missing.xml"))
+    });
+
+    await expect(
+      expired.getDataboxEntryStream("S", credentials, "A")
+    ).rejects.toBeInstanceOf(SessionExpiredError);
+    await expect(failed.getDataboxEntryStream("S", credentials, "A")).rejects.toBeInstanceOf(
+      DataboxError
+    );
+    await expect(missing.getDataboxEntryStream("S", credentials, "A")).rejects.toThrow(
+      "Missing document content"
+    );
+  });
+
+  it("reads an empty or nil result to the end instead of waiting for </result>", async () => {
+    for (const result of ["<ns:result/>", "<result />", '<result xsi:nil="true"/>']) {
+      const client = new DataboxClient({
+        fetcher: streamingFetch(entryResponse("").replace("<ns:result></ns:result>", result))
+      });
+      await expect(client.getDataboxEntryStream("S", credentials, "A")).rejects.toThrow(
+        "Missing document content"
+      );
+    }
+  });
+
+  it("cancels the response body when the return code rejects the download", async () => {
+    const { fetcher, state } = stallingFetch(
+      entryResponse("JVBERi0x").replace("<rc>0</rc>", "<rc>-2</rc>").split("JVBERi0x")[0] ?? ""
+    );
+    const client = new DataboxClient({ fetcher });
+
+    await expect(client.getDataboxEntryStream("S", credentials, "A")).rejects.toBeInstanceOf(
+      MaintenanceError
+    );
+    await vi.waitFor(() => expect(state.cancelled).toBe(true));
+  });
+
+  it("fails the stream on invalid or truncated payloads", async () => {
+    const invalid = new DataboxClient({
+      fetcher: streamingFetch(readFixture("databox-entry-invalid.xml"))
+    });
+    const truncated = new DataboxClient({
+      fetcher: streamingFetch(entryResponse("QUJDQUJD").split("</ns:result>")[0] ?? "")
+    });
+
+    await expect(
+      buffer(await invalid.getDataboxEntryStream("S", credentials, "A"))
+    ).rejects.toBeInstanceOf(InvalidXmlError);
+    await expect(
+      buffer(await truncated.getDataboxEntryStream("S", credentials, "A"))
+    ).rejects.toThrow("ended inside result");
+  });
+});
+
+describe("streamSoapResult", () => {
+  const base = {
+    url: "https://example.com",
+    action: "getDataboxEntry",
+    body: "<x/>",
+    timeoutMs: 1000
+  };
+
+  it("detects maintenance and HTTP errors", async () => {
+    await expect(
+      streamSoapResult({ ...base, fetcher: streamingFetch(readFixture("maintenance.html")) })
+    ).rejects.toBeInstanceOf(MaintenanceError);
+    await expect(
+      streamSoapResult({ ...base, fetcher: streamingFetch("oops", 7, 502) })
+    ).rejects.toBeInstanceOf(NetworkError);
+  });
+
+  it("cancels the response body of a failed HTTP status", async () => {
+    const { fetcher, state } = stallingFetch(entryResponse("").split("</ns:result>")[0] ?? "", 500);
+
+    await expect(streamSoapResult({ ...base, fetcher })).rejects.toBeInstanceOf(NetworkError);
+    expect(state.cancelled).toBe(true);
+  });
+
+  it("wraps fetch failures", async () => {
+    const fetcher = (async () => {
+      throw new TypeError("fetch failed");
+    }) as typeof fetch;
+    await expect(streamSoapResult({ ...base, fetcher })).rejects.toBeInstanceOf(NetworkError);
+  });
+});
+
+describe("Base64ChunkDecoder", () => {
+  it("carries incomplete quads between pushes", () => {
+    const decoder = new Base64ChunkDecoder();
+    const parts = [
+      decoder.push("SGVs"),
+      decoder.push("bG8"),
+      decoder.push("=\n"),
+      decoder.flush()
+    ];
+    expect(Buffer.concat(parts).toString()).toBe("Hello");
+  });
+});
+
+describe("writeStreamToFile", () => {
+  it("writes through a temp file and reports size and hash", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "finanzonline-stream-"));
+    const target = path.join(dir, "nested", "doc.pdf");
+    const client = new DataboxClient({
+      fetcher: streamingFetch(entryResponse(Buffer.from("%PDF-1.4").toString("base64")))
+    });
+
+    const written = await writeStreamToFile(
+      await client.getDataboxEntryStream("S", credentials, "A"),
+      target
+    );
+
+    expect(fs.readFileSync(target, "utf8")).toBe("%PDF-1.4");
+    expect(written.bytes).toBe(8);
+    expect(written.sha256).toHaveLength(64);
+    expect(fs.readdirSync(path.dirname(target))).toEqual(["doc.pdf"]);
+  });
+
+  it("removes the temp file when the stream fails", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "finanzonline-stream-"));
+    const client = new DataboxClient({
+      fetcher: streamingFetch(readFixture("databox-entry-invalid.xml"))
+    });
+
+    await expect(
+      writeStreamToFile(
+        await client.getDataboxEntryStream("S", credentials, "A"),
+        path.join(dir, "a.pdf")
+      )
+    ).rejects.toBeInstanceOf(InvalidXmlError);
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+});
@@ -0,0 +1,138 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DataboxClient } from "../../src/client/databox.js";
+import {
+  checkLookback,
+  MAX_LOOKBACK_DAYS,
+  splitDateRange,
+  splitListRequest
+} from "../../src/client/windows.js";
+import { ConfigurationError } from "../../src/errors.js";
+
+function listResponse(applkeys: string[]) {
+  const results = applkeys
+    .map(
+      (applkey) =>
+        `<result><applkey>${applkey}</applkey><status>UNREAD</status>` +
+        `<ts_zust>2024-01-11T10:15:30Z</ts_zust></result>`
+    )
+    .join("");
+  return (
+    `<Envelope><Body><getDataboxResponse><rc>0</rc>${results}` +
+    `</getDataboxResponse></Body></Envelope>`
+  );
+}
+
+const credentials = {
+  tid: "ABCDEF12",
+  benid: "WEBUSER",
+  pin: "secret",
+  herstellerid: "ATU12345678"
+};
+
+describe("splitDateRange", () => {
+  it("splits long ranges into bounded windows", () => {
+    const windows = splitDateRange(
+      new Date("2024-01-01T00:00:00Z"),
+      new Date("2024-01-20T00:00:00Z"),
+      7
+    );
+    expect(windows.map((window) => window.from.toISOString().slice(0, 10))).toEqual([
+      "2024-01-01",
+      "2024-01-08",
+      "2024-01-15"
+    ]);
+    expect(windows[2]?.to.toISOString()).toBe("2024-01-20T00:00:00.000Z");
+  });
+
+  it("keeps short and empty ranges as one window", () => {
+    const day = new Date("2024-01-01T00:00:00Z");
+    expect(splitDateRange(day, day)).toEqual([{ from: day, to: day }]);
+  });
+
+  it("rejects inverted ranges and bad window sizes", () => {
+    const a = new Date("2024-01-02T00:00:00Z");
+    const b = new Date("2024-01-01T00:00:00Z");
+    expect(() => splitDateRange(a, b)).toThrow(ConfigurationError);
+    expect(() => splitDateRange(b, a, 0)).toThrow(ConfigurationError);
+  });
+});
+
+describe("splitListRequest", () => {
+  it("uses now as the open end and keeps other fields", () => {
+    const now = new Date("2024-01-10T00:00:00Z");
+    const requests = splitListRequest(
+      { erltyp: "B", ts_zust_von: new Date("2024-01-01T00:00:00Z") },
+      7,
+      now
+    );
+    expect(requests).toHaveLength(2);
+    expect(requests[1]).toEqual({
+      erltyp: "B",
+      ts_zust_von: new Date("2024-01-08T00:00:00Z"),
+      ts_zust_bis: now
+    });
+  });
+
+  it("does not split requests without a start", () => {
+    expect(splitListRequest({ erltyp: "B" })).toEqual([{ erltyp: "B" }]);
+  });
+
+  it("rejects a start further back than the DataBox allows before any request", () => {
+    const now = new Date("2024-03-15T12:00:00Z");
+    expect(() =>
+      splitListRequest({ ts_zust_von: new Date("2024-01-01T00:00:00Z") }, 7, now)
+    ).toThrow(ConfigurationError);
+    expect(() =>
+      splitListRequest({ ts_zust_von: new Date("2024-01-01T00:00:00Z") }, 7, now)
+    ).toThrow(/more than 31 days in the past/);
+  });
+});
+
+describe("checkLookback", () => {
+  const now = new Date("2024-03-15T12:00:00Z");
+
+  it("accepts --days 31 counted from the start of the Vienna day", () => {
+    // Vienna midnight 31 days before 15 March is 2024-02-13T00:00+01:00.
+    expect(MAX_LOOKBACK_DAYS).toBe(31);
+    expect(() => checkLookback(new Date("2024-02-12T23:00:00Z"), now)).not.toThrow();
+  });
+
+  it("names the limit and the earliest accepted start", () => {
+    expect(() => checkLookback(new Date("2024-02-12T22:59:59Z"), now)).toThrow(
+      "ts_zust_von 2024-02-12T23:59:59+01:00 is more than 31 days in the past; the DataBox " +
+        "only lists documents delivered since 2024-02-13T00:00:00+01:00. " +
+        "Use --days 31 or less, or a later --from date."
+    );
+  });
+});
+
+describe("DataboxClient.iterateDatabox", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("queries windows sequentially and de-duplicates by applkey", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2024-01-26T12:00:00Z"));
+    const bodies: string[] = [];
+    const responses = [listResponse(["A", "B"]), listResponse(["B", "C"])];
+    const fetcher = (async (_url: string, init: RequestInit) => {
+      bodies.push(String(init.body));
+      const body = responses.shift() ?? listResponse([]);
+      return { ok: true, status: 200, text: async () => body };
+    }) as unknown as typeof fetch;
+    const client = new DataboxClient({ fetcher, maxWindowDays: 10 });
+
+    const seen: string[] = [];
+    for await (const entry of client.iterateDatabox("S", credentials, {
+      ts_zust_von: new Date("2024-01-01T00:00:00Z"),
+      ts_zust_bis: new Date("2024-01-25T00:00:00Z")
+    })) {
+      seen.push(entry.applkey);
+    }
+
+    expect(seen).toEqual(["A", "B", "C"]);
+    expect(bodies).toHaveLength(3);
+    expect(bodies[1]).toContain("<ns:ts_zust_von>2024-01-11T01:00:00+01:00</ns:ts_zust_von>");
+  });
+});
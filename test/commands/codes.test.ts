@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { runCli } from "./harness.js";
+
+describe("codes", () => {
+  it("prints both catalogs or only the requested one", async () => {
+    const all = await runCli(["codes", "--format", "csv", "--fields", "kind,code"]);
+    expect(all.stdout).toContain("erltyp,B");
+    expect(all.stdout).toContain("anbringen,E1");
+
+    const erltyp = await runCli(["codes", "--kind", "erltyp", "--format", "json"]);
+    const records = JSON.parse(erltyp.stdout) as Record<string, string>[];
+    expect(records.every((record) => record.kind === "erltyp")).toBe(true);
+  });
+
+  it("rejects an unknown catalog", async () => {
+    const run = await runCli(["codes", "--kind", "stnr"]);
+
+    expect(run.exitCode).toBe(1);
+    expect(run.stderr).toContain("Allowed choices are erltyp, anbringen");
+  });
+});
@@ -0,0 +1,105 @@
+import fs from "node:fs";
+import path from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import { buildListRequest } from "../../src/client/finanzonline.js";
+import { checkLookback, MAX_LOOKBACK_DAYS } from "../../src/client/windows.js";
+import { deadlineFilter } from "../../src/commands/deadlines.js";
+import { DataboxEntry } from "../../src/models/types.js";
+import { SyncLedger } from "../../src/sync/ledger.js";
+import { fixtureFetch, readFixture, runCli, tempDir } from "./harness.js";
+
+function databox() {
+  return fixtureFetch({
+    login: ["session-login-success.xml"],
+    logout: ["session-logout-success.xml"],
+    getDatabox: ["databox-list-success.xml"]
+  });
+}
+
+/** An output dir where `sync` saved BBB222 as the ESt Bescheid fixture. */
+function syncedOutputDir(): string {
+  const dir = tempDir();
+  fs.writeFileSync(path.join(dir, "BBB222.xml"), readFixture("documents/bescheid-est-v1.xml"));
+  SyncLedger.open(dir).recordHash(
+    { applkey: "BBB222", fileart: "XML" } as unknown as DataboxEntry,
+    "BBB222.xml",
+    "hash"
+  );
+  return dir;
+}
+
+describe("deadlineFilter", () => {
+  it("defaults to every entry the DataBox still lists", () => {
+    const now = new Date("2024-03-31T21:30:00Z");
+    const filter = deadlineFilter({});
+
+    expect(filter).toEqual({ status: "ALL", days: MAX_LOOKBACK_DAYS });
+    const request = buildListRequest(filter, now);
+    expect(request.ts_zust_von).toBeDefined();
+    expect(() => checkLookback(request.ts_zust_von as Date, now)).not.toThrow();
+  });
+
+  it("clamps --days to the lookback limit with a note", () => {
+    const stderr = vi.spyOn(console, "error").mockImplementation(() => undefined);
+    try {
+      expect(deadlineFilter({ days: 90 }).days).toBe(MAX_LOOKBACK_DAYS);
+      expect(String(stderr.mock.calls[0]?.[0])).toContain("instead of 90");
+      expect(deadlineFilter({ days: 7 }).days).toBe(7);
+      expect(stderr).toHaveBeenCalledTimes(1);
+    } finally {
+      stderr.mockRestore();
+    }
+  });
+
+  it("keeps an explicit --from range without a default --days", () => {
+    const from = new Date("2024-03-01T00:00:00Z");
+    expect(deadlineFilter({ from, all: false })).toEqual({ status: "ALL", from });
+  });
+});
+
+describe("deadlines command", () => {
+  it("lists appeal and document payment deadlines and writes a calendar", async () => {
+    const dir = syncedOutputDir();
+    const ics = path.join(dir, "calendar", "deadlines.ics");
+    const run = await runCli(
+      [
+        "deadlines",
+        "--include-past",
+        "--output",
+        dir,
+        "--ics",
+        ics,
+        "--format",
+        "csv",
+        "--fields",
+        "date,kind,applkey,amount"
+      ],
+      { fetch: databox().fetcher }
+    );
+
+    expect(run.exitCode).toBe(0);
+    expect(run.stdout.split("\n")).toEqual([
+      "date,kind,applkey,amount",
+      "2024-02-12,appeal,AAA111,",
+      "2024-04-22,payment,BBB222,1321.40"
+    ]);
+    expect(run.stderr).toBe(`Wrote 2 deadline(s) to ${ics}`);
+    expect(fs.readFileSync(ics, "utf8")).toContain("UID:BBB222-payment@finanzonline-ts");
+  });
+
+  it("hides expired deadlines by default", async () => {
+    const run = await runCli(["deadlines", "--output", tempDir()], { fetch: databox().fetcher });
+
+    expect(run.stdout).toBe("No upcoming deadlines.");
+  });
+
+  it("warns about synced documents it cannot read", async () => {
+    const dir = syncedOutputDir();
+    fs.writeFileSync(path.join(dir, "BBB222.xml"), "<Bescheid><broken");
+    const run = await runCli(["deadlines", "--output", dir], { fetch: databox().fetcher });
+
+    expect(run.stderr).toContain(
+      `Warning: no due date for BBB222 from ${path.join(dir, "BBB222.xml")}`
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import fs from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { fixtureFetch, runCli, tempDir } from "./harness.js";
+
+function databox() {
+  return fixtureFetch({
+    login: ["session-login-success.xml"],
+    logout: ["session-logout-success.xml"],
+    getDatabox: ["databox-list-success.xml"],
+    getDataboxEntry: ["databox-entry-success.xml"]
+  });
+}
+
+describe("download", () => {
+  it("names the file with the template and reports the hash", async () => {
+    const dir = tempDir();
+    const run = await runCli(
+      ["--filename-template", "{applkey}.{ext}", "download", "AAA111", "--output", dir],
+      { fetch: databox().fetcher }
+    );
+
+    const target = path.join(dir, "AAA111.pdf");
+    expect(run.exitCode).toBe(0);
+    expect(run.stdout).toMatch(
+      new RegExp(`^Saved ${target} \\(application/pdf, sha256 \\w{64}\\)$`)
+    );
+    expect(fs.readFileSync(target, "latin1").startsWith("%PDF-1.4")).toBe(true);
+  });
+
+  it("falls back to the applkey for entries missing from the listing", async () => {
+    const dir = tempDir();
+    const run = await runCli(["download", "ZZZ999", "--output", dir, "--format", "json"], {
+      fetch: databox().fetcher
+    });
+
+    expect(run.stderr).toContain("ZZZ999 is not in the DataBox listing");
+    const [record] = JSON.parse(run.stdout) as Record<string, string>[];
+    expect(record).toMatchObject({
+      applkey: "ZZZ999",
+      path: path.join(dir, "ZZZ999.pdf"),
+      mime_type: "application/pdf"
+    });
+  });
+
+  it("keeps a different existing file with the skip policy", async () => {
+    const dir = tempDir();
+    fs.writeFileSync(path.join(dir, "AAA111.pdf"), "older");
+    const run = await runCli(
+      [
+        "--filename-template",
+        "{applkey}.{ext}",
+        "--collision-policy",
+        "skip",
+        "download",
+        "AAA111",
+        "--output",
+        dir
+      ],
+      { fetch: databox().fetcher }
+    );
+
+    expect(run.stdout).toBe(
+      `Skipped ${path.join(dir, "AAA111.pdf")}: a different file already exists`
+    );
+    expect(fs.readFileSync(path.join(dir, "AAA111.pdf"), "utf8")).toBe("older");
+  });
+});
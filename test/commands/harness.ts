@@ -0,0 +1,113 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { Command, CommanderError } from "commander";
+import { vi } from "vitest";
+import { createProgram } from "../../src/commands/program.js";
+import { formatError } from "../../src/commands/shared.js";
+
+export interface CliRun {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+export interface CliOptions {
+  /** Answers SOAP calls by SOAPAction and WSDL probes under `"wsdl"`. */
+  fetch?: typeof fetch;
+  /** Environment on top of the test credentials and an empty `HOME`; `undefined` unsets. */
+  env?: Record<string, string | undefined>;
+}
+
+const fixtures = path.join(process.cwd(), "test", "fixtures");
+
+export function readFixture(name: string): string {
+  return fs.readFileSync(path.join(fixtures, name), "utf8");
+}
+
+export function tempDir(prefix = "finanzonline-cli-"): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+}
+
+/**
+ * A fetch that replays response fixtures by SOAPAction (`"wsdl"` for status probes); the
+ * last fixture of a route repeats.
+ */
+export function fixtureFetch(routes: Record<string, string[]>) {
+  const calls: string[] = [];
+  const fetcher = (async (url: string, init: RequestInit) => {
+    const headers = (init.headers ?? {}) as Record<string, string>;
+    const action = String(url).endsWith("?wsdl") ? "wsdl" : (headers.SOAPAction ?? "");
+    calls.push(action);
+    const queue = routes[action] ?? [];
+    const name = queue.length > 1 ? queue.shift() : queue[0];
+    if (!name) {
+      throw new TypeError(`fetch failed: no fixture for ${action}`);
+    }
+    return new Response(readFixture(`responses/${name}`), { status: 200 });
+  }) as unknown as typeof fetch;
+  return { fetcher, calls };
+}
+
+/** Runs `finanzonline <args>` in-process the way `src/cli.ts` does and captures its output. */
+export async function runCli(args: string[], options: CliOptions = {}): Promise<CliRun> {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const log = vi.spyOn(console, "log").mockImplementation((line: unknown) => {
+    stdout.push(String(line));
+  });
+  const error = vi.spyOn(console, "error").mockImplementation((line: unknown) => {
+    stderr.push(String(line));
+  });
+
+  const env: Record<string, string | undefined> = {
+    HOME: tempDir(),
+    FINANZONLINE__TID: "ABCDEF12",
+    FINANZONLINE__BENID: "WEBUSER",
+    FINANZONLINE__PIN: "secret",
+    FINANZONLINE__HERSTELLERID: "ATU12345678",
+    FINANZONLINE__OUTPUT_DIR: tempDir(),
+    FINANZONLINE__RETRY_ATTEMPTS: "1",
+    ...options.env
+  };
+  for (const [key, value] of Object.entries(env)) {
+    vi.stubEnv(key, value);
+  }
+  vi.stubGlobal(
+    "fetch",
+    options.fetch ?? fixtureFetch({}).fetcher
+  );
+
+  const program = createProgram();
+  quiet(program, stdout, stderr);
+  let exitCode = 0;
+  try {
+    await program.parseAsync(args, { from: "user" });
+    exitCode = Number(process.exitCode ?? 0);
+  } catch (caught) {
+    if (caught instanceof CommanderError) {
+      exitCode = caught.exitCode;
+    } else {
+      stderr.push(`Error: ${formatError(caught)}`);
+      exitCode = 1;
+    }
+  } finally {
+    process.exitCode = undefined;
+    log.mockRestore();
+    error.mockRestore();
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  }
+
+  return { stdout: stdout.join("\n"), stderr: stderr.join("\n"), exitCode };
+}
+
+function quiet(command: Command, stdout: string[], stderr: string[]) {
+  command.exitOverride().configureOutput({
+    writeOut: (text) => stdout.push(text.trimEnd()),
+    writeErr: (text) => stderr.push(text.trimEnd())
+  });
+  for (const subcommand of command.commands) {
+    quiet(subcommand, stdout, stderr);
+  }
+}
@@ -0,0 +1,40 @@
+import fs from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { runCli, tempDir } from "./harness.js";
+
+const document = path.join(process.cwd(), "test", "fixtures", "documents", "bescheid-est-v1.xml");
+
+describe("inspect", () => {
+  it("prints the Bescheid as labelled rows", async () => {
+    const run = await runCli(["inspect", document]);
+
+    expect(run.exitCode).toBe(0);
+    expect(run.stdout.split("\n").slice(0, 6)).toEqual([
+      "Bescheid (schema 1.0)",
+      "Taxpayer:           Maria Muster, StNr 12 345/6789",
+      "Address:            Hauptstraße 1, 1010 Wien",
+      "Tax type:           Einkommensteuer",
+      "Period:             2023",
+      "Issued:             2024-03-15"
+    ]);
+    expect(run.stdout).toContain("Balance:            1321.40 EUR due");
+  });
+
+  it("prints Vienna calendar dates in JSON", async () => {
+    const run = await runCli(["inspect", document, "--format", "json"]);
+
+    expect(JSON.parse(run.stdout)).toMatchObject({ dueDate: "2024-04-22", balance: 1321.4 });
+  });
+
+  it("refuses files that are not XML", async () => {
+    const file = path.join(tempDir(), "document.pdf");
+    fs.writeFileSync(file, "%PDF-1.4\n");
+    const run = await runCli(["inspect", file]);
+
+    expect(run.exitCode).toBe(1);
+    expect(run.stderr).toBe(
+      `Error: ${file} is application/pdf; only XML Bescheide can be inspected`
+    );
+  });
+});
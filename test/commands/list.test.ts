@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { fixtureFetch, runCli } from "./harness.js";
+
+const session = {
+  login: ["session-login-success.xml"],
+  logout: ["session-logout-success.xml"]
+};
+
+describe("list", () => {
+  it("prints unread entries as a table and logs out", async () => {
+    const { fetcher, calls } = fixtureFetch({
+      ...session,
+      getDatabox: ["databox-list-success.xml"]
+    });
+    const run = await runCli(["list"], { fetch: fetcher });
+
+    expect(run.exitCode).toBe(0);
+    expect(run.stdout).toContain("AAA111");
+    expect(run.stdout).not.toContain("BBB222");
+    expect(calls).toEqual(["login", "getDatabox", "logout"]);
+  });
+
+  it("filters by status and erltyp and selects fields", async () => {
+    const { fetcher } = fixtureFetch({ ...session, getDatabox: ["databox-list-success.xml"] });
+    const run = await runCli(
+      ["list", "--read", "--format", "csv", "--fields", "applkey,erltyp"],
+      { fetch: fetcher }
+    );
+
+    expect(run.stdout.split("\n")).toEqual(["applkey,erltyp", "BBB222,M"]);
+  });
+
+  it("says so when nothing matches", async () => {
+    const { fetcher } = fixtureFetch({ ...session, getDatabox: ["databox-list-empty.xml"] });
+    const run = await runCli(["list", "--all"], { fetch: fetcher });
+
+    expect(run.stdout).toBe("No entries found.");
+  });
+
+  it("reports DataBox errors and exits 1", async () => {
+    const { fetcher } = fixtureFetch({ ...session, getDatabox: ["databox-list-fail.xml"] });
+    const run = await runCli(["list"], { fetch: fetcher });
+
+    expect(run.exitCode).toBe(1);
+    expect(run.stderr).toBe("Error: Failure");
+  });
+
+  it("rejects dates that do not exist before logging in", async () => {
+    const { fetcher, calls } = fixtureFetch(session);
+    const run = await runCli(["list", "--from", "2024-02-31"], { fetch: fetcher });
+
+    expect(run.exitCode).toBe(1);
+    expect(run.stderr).toContain("Error: Invalid date: 2024-02-31");
+    expect(calls).toEqual([]);
+  });
+
+  it("rejects unknown options before logging in", async () => {
+    const { fetcher, calls } = fixtureFetch(session);
+    const run = await runCli(["list", "--format", "xml"], { fetch: fetcher });
+
+    expect(run.exitCode).toBe(1);
+    expect(run.stderr).toContain("xml");
+    expect(calls).toEqual([]);
+  });
+});
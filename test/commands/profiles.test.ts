@@ -0,0 +1,49 @@
+import fs from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { runCli, tempDir } from "./harness.js";
+
+function homeWithProfiles(): string {
+  const home = tempDir();
+  fs.writeFileSync(
+    path.join(home, ".finanzonline.toml"),
+    [
+      "[finanzonline]",
+      "benid = 'USER01'",
+      "",
+      "[profiles.acme]",
+      "tid = 'ACME0001'",
+      "pin_file = '/run/secrets/acme'",
+      "",
+      "[profiles.bravo]",
+      "tid = 'BRAVO001'",
+      "pin_keystore = 'bravo'",
+      "",
+      "[profiles.charlie]",
+      "pin = 'charlie-pin'"
+    ].join("\n")
+  );
+  return home;
+}
+
+describe("profiles list", () => {
+  it("masks inline PINs and names the other PIN sources", async () => {
+    const run = await runCli(
+      ["--profile", "acme", "profiles", "list", "--format", "csv", "--fields", "name,active,pin"],
+      { env: { HOME: homeWithProfiles() } }
+    );
+
+    expect(run.stdout.split("\n")).toEqual([
+      "name,active,pin",
+      "acme,true,file:/run/secrets/acme",
+      "bravo,false,keystore:bravo",
+      "charlie,false,***"
+    ]);
+  });
+
+  it("says so when no profiles are configured", async () => {
+    const run = await runCli(["profiles", "list"]);
+
+    expect(run.stdout).toBe("No profiles configured.");
+  });
+});
@@ -0,0 +1,69 @@
+import fs from "node:fs";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { describe, expect, it, vi } from "vitest";
+import { Keystore } from "../../src/config/keystore.js";
+import { runCli, tempDir } from "./harness.js";
+
+const passphrase = { FINANZONLINE__KEYSTORE_PASSPHRASE: "correct horse" };
+
+async function withStdin<T>(input: string, fn: () => Promise<T>): Promise<T> {
+  const stdin = vi
+    .spyOn(process, "stdin", "get")
+    .mockReturnValue(Readable.from([Buffer.from(input)]) as unknown as typeof process.stdin);
+  try {
+    return await fn();
+  } finally {
+    stdin.mockRestore();
+  }
+}
+
+describe("secrets", () => {
+  it("stores, prints and removes a PIN in the keystore under HOME", async () => {
+    const home = tempDir();
+    const env = { HOME: home, ...passphrase };
+    const file = path.join(home, ".finanzonline-keystore.json");
+
+    const set = await withStdin("1234\nignored\n", () =>
+      runCli(["secrets", "set", "acme"], { env })
+    );
+    expect(set.stderr).toBe(`Stored "acme" in ${file}`);
+    expect(Keystore.open(file, passphrase.FINANZONLINE__KEYSTORE_PASSPHRASE).get("acme")).toBe(
+      "1234"
+    );
+
+    const get = await runCli(["secrets", "get", "acme"], { env });
+    expect(get.stdout).toBe("1234");
+
+    const rm = await runCli(["secrets", "rm", "acme"], { env });
+    expect(rm.stderr).toBe(`Removed "acme" from ${file}`);
+    const missing = await runCli(["secrets", "rm", "acme"], { env });
+    expect(missing.exitCode).toBe(1);
+    expect(missing.stderr).toBe(`Error: No secret "acme" in keystore ${file}`);
+  });
+
+  it("writes to --keystore and refuses an empty PIN", async () => {
+    const file = path.join(tempDir(), "store.json");
+    const env = { ...passphrase };
+
+    const empty = await withStdin("\n", () =>
+      runCli(["secrets", "--keystore", file, "set", "acme"], { env })
+    );
+    expect(empty.stderr).toBe("Error: Empty PIN, nothing stored");
+    expect(fs.existsSync(file)).toBe(false);
+
+    await withStdin("9876\n", () =>
+      runCli(["secrets", "--keystore", file, "set", "acme"], { env })
+    );
+    expect(Keystore.open(file, passphrase.FINANZONLINE__KEYSTORE_PASSPHRASE).names()).toEqual([
+      "acme"
+    ]);
+  });
+
+  it("needs the passphrase variable without a terminal", async () => {
+    const run = await withStdin("", () => runCli(["secrets", "get", "acme"]));
+
+    expect(run.exitCode).toBe(1);
+    expect(run.stderr).toContain("Set FINANZONLINE__KEYSTORE_PASSPHRASE");
+  });
+});
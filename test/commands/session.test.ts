@@ -0,0 +1,47 @@
+import fs from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { fixtureFetch, runCli, tempDir } from "./harness.js";
+
+function sessionService() {
+  return fixtureFetch({
+    login: ["session-login-success.xml"],
+    logout: ["session-logout-success.xml"]
+  });
+}
+
+describe("session", () => {
+  it("caches a login, reports it and removes it on logout", async () => {
+    const env = { FINANZONLINE__SESSION_CACHE_FILE: path.join(tempDir(), "sessions.json") };
+
+    const login = await runCli(["session", "login"], { fetch: sessionService().fetcher, env });
+    expect(login.stdout).toBe("Logged in as ABCDEF12/WEBUSER; session cached.");
+
+    const { fetcher, calls } = sessionService();
+    const status = await runCli(["session", "status"], { fetch: fetcher, env });
+    expect(status.stdout).toContain("Session for ABCDEF12/WEBUSER: fresh");
+    expect(status.stdout).toContain(`cache:     ${env.FINANZONLINE__SESSION_CACHE_FILE}`);
+    expect(calls).toEqual([]);
+
+    const logout = await runCli(["session", "logout"], { fetch: sessionService().fetcher, env });
+    expect(logout.stdout).toBe("Logged out ABCDEF12/WEBUSER.");
+
+    const after = await runCli(["session", "status"], { env });
+    expect(after.stdout).toBe("No cached session for ABCDEF12/WEBUSER.");
+  });
+
+  it("reports the cache without resolving the PIN", async () => {
+    const marker = path.join(tempDir(), "pin-command-ran");
+    const env = {
+      FINANZONLINE__PIN: undefined,
+      FINANZONLINE__PIN_COMMAND: `touch ${marker} && echo secret`,
+      FINANZONLINE__SESSION_CACHE_FILE: path.join(tempDir(), "sessions.json")
+    };
+
+    const status = await runCli(["session", "status"], { env });
+
+    expect(status.exitCode).toBe(0);
+    expect(status.stdout).toBe("No cached session for ABCDEF12/WEBUSER.");
+    expect(fs.existsSync(marker)).toBe(false);
+  });
+});
@@ -0,0 +1,235 @@
+import { Command } from "commander";
+import { describe, expect, it, vi } from "vitest";
+import {
+  abortOnSignals,
+  addOutputOptions,
+  addRangeOptions,
+  buildFilter,
+  formatEntryWarnings,
+  formatError,
+  parseFromDate,
+  parseNumber,
+  parseToDate,
+  resolveClientOptions,
+  resolveConfigOptions,
+  resolveOutput,
+  resolveOutputDir
+} from "../../src/commands/shared.js";
+import {
+  ConfigurationError,
+  InvalidDateRangeError,
+  SessionError,
+  SoapFaultError
+} from "../../src/errors.js";
+import { DataboxEntry } from "../../src/models/types.js";
+
+describe("date options", () => {
+  it("reads plain dates as Vienna midnight", () => {
+    expect(parseFromDate("2024-01-15").toISOString()).toBe("2024-01-14T23:00:00.000Z");
+  });
+
+  it("extends a plain --to date to the end of that Vienna day", () => {
+    expect(parseToDate("2024-01-15").toISOString()).toBe("2024-01-15T22:59:59.999Z");
+    // The clocks go forward on 31 March 2024, so the day ends at 23:59:59.999+02:00.
+    expect(parseToDate("2024-03-31").toISOString()).toBe("2024-03-31T21:59:59.999Z");
+  });
+
+  it("keeps timestamps as given", () => {
+    expect(parseToDate("2024-01-15T10:00:00Z").toISOString()).toBe("2024-01-15T10:00:00.000Z");
+    expect(parseFromDate("2024-07-01T08:30:00").toISOString()).toBe("2024-07-01T06:30:00.000Z");
+  });
+
+  it("rejects values that are not dates", () => {
+    expect(() => parseFromDate("15.01.2024")).toThrow("Invalid date: 15.01.2024");
+    expect(() => parseToDate("2024-13-45x")).toThrow("Invalid date");
+    expect(() => parseFromDate("2024-02-31")).toThrow(
+      "Invalid date: 2024-02-31 (expected an existing date"
+    );
+    expect(() => parseToDate("2023-02-29")).toThrow("Invalid date: 2023-02-29");
+  });
+});
+
+describe("parseNumber", () => {
+  it("accepts finite numbers only", () => {
+    expect(parseNumber("7")).toBe(7);
+    expect(() => parseNumber("seven")).toThrow("Invalid number: seven");
+  });
+});
+
+describe("buildFilter", () => {
+  it("defaults to unread documents without a range", () => {
+    expect(buildFilter({}, undefined)).toEqual({ status: "UNREAD" });
+  });
+
+  it("maps --all, --read, --erltyp and the range options", () => {
+    const from = new Date("2024-01-01T00:00:00Z");
+    const to = new Date("2024-01-07T00:00:00Z");
+
+    expect(buildFilter({ all: true, read: true, days: 5 }, "B")).toEqual({
+      status: "ALL",
+      erltyp: "B",
+      days: 5
+    });
+    expect(buildFilter({ read: true, from, to }, undefined)).toEqual({
+      status: "READ",
+      from,
+      to
+    });
+  });
+
+  it("ignores range values that were not parsed into dates", () => {
+    expect(buildFilter({ from: "2024-01-01", to: "" }, undefined)).toEqual({ status: "UNREAD" });
+  });
+});
+
+describe("resolveOutput", () => {
+  const fields = ["applkey", "path"] as const;
+
+  it("defaults to a table with the command's default fields", () => {
+    expect(resolveOutput({}, fields)).toEqual({ format: "table" });
+  });
+
+  it("parses the format and field list", () => {
+    expect(resolveOutput({ format: "CSV", fields: "path, applkey" }, fields)).toEqual({
+      format: "csv",
+      fields: ["path", "applkey"]
+    });
+  });
+
+  it("rejects unknown formats and fields", () => {
+    expect(() => resolveOutput({ format: "xml" }, fields)).toThrow(ConfigurationError);
+    expect(() => resolveOutput({ fields: "sha256" }, fields)).toThrow(/Unknown field\(s\) sha256/);
+  });
+});
+
+describe("command options", () => {
+  function parseCommand(args: string[]): Record<string, unknown> {
+    const program = new Command().exitOverride();
+    addOutputOptions(addRangeOptions(program), ["applkey"]);
+    program.parse(args, { from: "user" });
+    return program.opts();
+  }
+
+  it("parses the range options into numbers and dates", () => {
+    const options = parseCommand(["--days", "3", "--to", "2024-01-15"]);
+    expect(options.days).toBe(3);
+    expect((options.to as Date).toISOString()).toBe("2024-01-15T22:59:59.999Z");
+    expect(options.format).toBe("table");
+  });
+
+  it("rejects output formats outside the choices", () => {
+    expect(() => parseCommand(["--format", "xml"])).toThrow();
+  });
+});
+
+describe("global options", () => {
+  function program(args: string[]): Command {
+    const command = new Command()
+      .option("--profile <name>")
+      .option("--tid <tid>")
+      .option("--pin <pin>")
+      .option("--output-dir <dir>")
+      .option("--strict")
+      .option("--verbose");
+    return command.parse(args, { from: "user" });
+  }
+
+  it("passes the CLI flags as the highest config layer", () => {
+    const options = resolveConfigOptions(
+      program(["--profile", "mueller", "--tid", "123", "--output-dir", "/tmp/x", "--strict"])
+    );
+    expect(options.profile).toBe("mueller");
+    expect(options.cli).toMatchObject({ tid: "123", output_dir: "/tmp/x", strict_parsing: true });
+  });
+
+  it("warns once that --pin is visible in the process list", () => {
+    const stderr = vi.spyOn(console, "error").mockImplementation(() => undefined);
+    try {
+      resolveConfigOptions(program(["--pin", "secret"]));
+      resolveConfigOptions(program(["--pin", "secret"]));
+      expect(stderr).toHaveBeenCalledTimes(1);
+      expect(String(stderr.mock.calls[0]?.[0])).toContain("--pin is visible");
+    } finally {
+      stderr.mockRestore();
+    }
+  });
+
+  it("only installs interceptors for --verbose or --trace-file", () => {
+    expect(resolveClientOptions(program([]))).toEqual({});
+    expect(resolveClientOptions(program(["--verbose"])).interceptors).toBeDefined();
+  });
+
+  it("prefers --output over the configured output_dir", () => {
+    expect(resolveOutputDir({ output_dir: "/data" })).toBe("/data");
+    expect(resolveOutputDir({ output_dir: "/data" }, "./here")).toBe("./here");
+  });
+});
+
+describe("abortOnSignals", () => {
+  it("aborts on the first signal and leaves closing to a second one", () => {
+    const stderr = vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const before = process.listenerCount("SIGUSR2");
+    const controller = new AbortController();
+    const close = vi.fn(async () => undefined);
+    const release = abortOnSignals(controller, { close }, ["SIGUSR2"]);
+    try {
+      process.emit("SIGUSR2", "SIGUSR2");
+      expect(controller.signal.aborted).toBe(true);
+      expect(close).not.toHaveBeenCalled();
+      expect(String(stderr.mock.calls[0]?.[0])).toContain("Stopping");
+      expect(process.listenerCount("SIGUSR2")).toBe(before + 1);
+    } finally {
+      release();
+      stderr.mockRestore();
+    }
+    expect(process.listenerCount("SIGUSR2")).toBe(before);
+  });
+});
+
+describe("formatEntryWarnings", () => {
+  it("prefixes every warning with the applkey", () => {
+    const entry = { applkey: "", warnings: ["fileart: bad"] } as unknown as DataboxEntry;
+    expect(formatEntryWarnings(entry)).toEqual([
+      "Warning: unexpected data in entry (no applkey): fileart: bad"
+    ]);
+    expect(formatEntryWarnings({ applkey: "A1" } as unknown as DataboxEntry, ["x"])).toEqual([
+      "Warning: unexpected data in entry A1: x"
+    ]);
+  });
+});
+
+describe("formatError", () => {
+  it("prints plain errors and non-errors as their message", () => {
+    expect(formatError(new Error("boom"))).toBe("boom");
+    expect(formatError("plain")).toBe("plain");
+  });
+
+  it("adds the return-code name, description and hint", () => {
+    expect(formatError(new SessionError("Login gesperrt", -6))).toBe(
+      "Login gesperrt [rc=-6 USER_LOCKED] The user is locked. " +
+        "Hint: Ask the FinanzOnline supervisor of the participant to unlock the user."
+    );
+  });
+
+  it("does not repeat the description when it is the message", () => {
+    const error = new InvalidDateRangeError(
+      "ts_zust_von must not be more than 31 days in the past.",
+      -4
+    );
+    expect(formatError(error)).toBe(
+      "ts_zust_von must not be more than 31 days in the past. [rc=-4 FROM_TOO_OLD] " +
+        "Hint: Use a later --from date or --days 31 or less."
+    );
+  });
+
+  it("shows SOAP fault codes, status and detail", () => {
+    const error = new SoapFaultError("Server error", "soap:Server", {
+      subcodes: ["ns:Timeout"],
+      status: 500,
+      detail: { reason: "backend" }
+    });
+    expect(formatError(error)).toBe(
+      'Server error [SOAP fault soap:Server / ns:Timeout HTTP 500] Detail: {"reason":"backend"}'
+    );
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { fixtureFetch, runCli } from "./harness.js";
+
+describe("status", () => {
+  it("exits 0 when both services answer", async () => {
+    const { fetcher, calls } = fixtureFetch({ wsdl: ["session-logout-success.xml"] });
+    const run = await runCli(["status", "--format", "csv", "--fields", "service,state"], {
+      fetch: fetcher
+    });
+
+    expect(run.exitCode).toBe(0);
+    expect(run.stdout.split("\n")).toEqual(["service,state", "session,up", "databox,up"]);
+    expect(calls).toEqual(["wsdl", "wsdl"]);
+  });
+
+  it("exits 2 during maintenance and 1 when a service is unreachable", async () => {
+    const maintenance = await runCli(["status"], {
+      fetch: fixtureFetch({ wsdl: ["maintenance.html"] }).fetcher
+    });
+    expect(maintenance.exitCode).toBe(2);
+    expect(maintenance.stdout).toContain("maintenance");
+
+    const unreachable = await runCli(["status", "--format", "json"], {
+      fetch: fixtureFetch({}).fetcher
+    });
+    const records = JSON.parse(unreachable.stdout) as Record<string, string>[];
+    expect(unreachable.exitCode).toBe(1);
+    expect(records[0]).toMatchObject({ service: "session", state: "unreachable" });
+    expect(records[0]?.message).toContain("no fixture for wsdl");
+  });
+});
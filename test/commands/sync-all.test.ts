@@ -0,0 +1,69 @@
+import fs from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { fixtureFetch, runCli, tempDir } from "./harness.js";
+
+function databox() {
+  return fixtureFetch({
+    login: ["session-login-success.xml"],
+    logout: ["session-logout-success.xml"],
+    getDatabox: ["databox-list-success.xml"],
+    getDataboxEntry: ["databox-entry-success.xml"]
+  });
+}
+
+function manifest(participants: Record<string, unknown>[]): string {
+  const file = path.join(tempDir(), "participants.json");
+  fs.writeFileSync(file, JSON.stringify({ participants }));
+  return file;
+}
+
+describe("sync-all", () => {
+  it("syncs every participant into its own directory", async () => {
+    const outputDir = tempDir();
+    const run = await runCli(
+      ["sync-all", "--manifest", manifest([{ name: "alpha" }, { name: "bravo" }]), "--all"],
+      { fetch: databox().fetcher, env: { FINANZONLINE__OUTPUT_DIR: outputDir } }
+    );
+
+    expect(run.exitCode).toBe(0);
+    expect(run.stdout).toContain("Batch finished: ok.");
+    expect(fs.readdirSync(path.join(outputDir, "alpha")).length).toBeGreaterThan(0);
+    expect(fs.readdirSync(path.join(outputDir, "bravo")).length).toBeGreaterThan(0);
+  });
+
+  it("keeps going past a failing participant and exits 2", async () => {
+    const run = await runCli(
+      [
+        "sync-all",
+        "--manifest",
+        manifest([{ name: "alpha" }, { name: "bravo", session_timeout: -1 }]),
+        "--format",
+        "json"
+      ],
+      { fetch: databox().fetcher }
+    );
+
+    const report = JSON.parse(run.stdout) as {
+      status: string;
+      aborted: boolean;
+      participants: { name: string; status: string; error?: { errorClass: string } }[];
+    };
+    expect(run.exitCode).toBe(2);
+    expect(report.status).toBe("partial");
+    expect(report.aborted).toBe(false);
+    expect(report.participants.map(({ name, status }) => `${name}:${status}`)).toEqual([
+      "alpha:ok",
+      "bravo:failed"
+    ]);
+    expect(report.participants[1]?.error?.errorClass).toBe("ConfigurationError");
+    expect(run.stderr).toContain("[bravo] Failed: Invalid configuration");
+  });
+
+  it("requires a manifest", async () => {
+    const run = await runCli(["sync-all"]);
+
+    expect(run.exitCode).toBe(1);
+    expect(run.stderr).toContain("--manifest <file>");
+  });
+});
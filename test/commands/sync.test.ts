@@ -0,0 +1,66 @@
+import fs from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { fixtureFetch, runCli, tempDir } from "./harness.js";
+
+function databox(entry = "databox-entry-success.xml", list = "databox-list-success.xml") {
+  return fixtureFetch({
+    login: ["session-login-success.xml"],
+    logout: ["session-logout-success.xml"],
+    getDatabox: [list],
+    getDataboxEntry: [entry]
+  });
+}
+
+const args = (dir: string) => [
+  "--filename-template",
+  "{applkey}.{ext}",
+  "sync",
+  "--all",
+  "--no-progress",
+  "--output",
+  dir
+];
+
+describe("sync", () => {
+  it("saves new documents and skips them on the next run", async () => {
+    const dir = tempDir();
+    const first = await runCli(args(dir), { fetch: databox().fetcher });
+
+    expect(first.exitCode).toBe(0);
+    expect(first.stdout).toContain(`Saved ${path.join(dir, "AAA111.pdf")}`);
+    expect(first.stdout).toContain("Sync finished: 2 new, 0 skipped, 0 failed.");
+    expect(fs.existsSync(path.join(dir, "AAA111.pdf"))).toBe(true);
+
+    const second = await runCli(args(dir), { fetch: databox().fetcher });
+    expect(second.stdout).toBe("Sync finished: 0 new, 2 skipped, 0 failed.");
+  });
+
+  it("writes the saved documents as JSON and the summary to stderr", async () => {
+    const dir = tempDir();
+    const run = await runCli([...args(dir), "--format", "json"], { fetch: databox().fetcher });
+
+    const records = JSON.parse(run.stdout) as Record<string, string>[];
+    expect(records.map((record) => record.applkey)).toEqual(["AAA111", "BBB222"]);
+    expect(run.stderr).toContain("Sync finished: 2 new");
+  });
+
+  it("lists failed downloads and exits 1", async () => {
+    const run = await runCli(args(tempDir()), {
+      fetch: databox("databox-entry-fail.xml").fetcher
+    });
+
+    expect(run.exitCode).toBe(1);
+    expect(run.stdout).toContain("Sync finished: 0 new, 0 skipped, 2 failed.");
+    expect(run.stderr).toContain("Failed downloads (2):");
+    expect(run.stderr).toMatch(/ {2}AAA111: /);
+  });
+
+  it("says so when the DataBox is empty", async () => {
+    const run = await runCli(args(tempDir()), {
+      fetch: databox(undefined, "databox-list-empty.xml").fetcher
+    });
+
+    expect(run.stdout).toBe("No entries to sync.");
+  });
+});
@@ -2,7 +2,7 @@ import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
 import { describe, expect, it } from "vitest";
-import { loadConfig } from "../../src/config/loader.js";
+import { loadConfig, loadSettings } from "../../src/config/loader.js";
 import { ConfigurationError } from "../../src/errors.js";
 
 function makeTempDir() {
@@ -180,4 +180,53 @@ describe("loadConfig", () => {
     expect(config.tid).toBe("HOMENODOT");
     expect(sources.tomlPath).toBe(path.join(fakeHome, "finanzonline.toml"));
   });
+
+  it("loads filename_template from TOML and env", () => {
+    const root = makeTempDir();
+    fs.writeFileSync(
+      path.join(root, "finanzonline.toml"),
+      [
+        "[finanzonline]",
+        "tid = 'AAAAAA11'",
+        "benid = 'USER01'",
+        "pin = 'secret'",
+        "herstellerid = 'ATU11111111'",
+        "output_dir = '/tmp/output'",
+        "filename_template = '{stnr}/{applkey}.{ext}'"
+      ].join("\n")
+    );
+
+    expect(loadConfig({ startDir: root, env: {} }).config.filename_template).toBe(
+      "{stnr}/{applkey}.{ext}"
+    );
+    expect(
+      loadConfig({
+        startDir: root,
+        env: { FINANZONLINE__FILENAME_TEMPLATE: "{zrvon}/{applkey}.{ext}" }
+      }).config.filename_template
+    ).toBe("{zrvon}/{applkey}.{ext}");
+  });
+});
+
+describe("loadSettings", () => {
+  it("validates the configuration without running the pin_command", () => {
+    const root = makeTempDir();
+    const marker = path.join(root, "pin-command-ran");
+    fs.writeFileSync(
+      path.join(root, "finanzonline.toml"),
+      [
+        "[finanzonline]",
+        "tid = 'AAAAAA11'",
+        "benid = 'USER01'",
+        `pin_command = 'touch ${marker} && echo secret'`,
+        "herstellerid = 'ATU11111111'",
+        "output_dir = '/tmp/output'"
+      ].join("\n")
+    );
+
+    const settings = loadSettings({ startDir: root, env: {} });
+    expect(settings.tid).toBe("AAAAAA11");
+    expect(settings.pin).toBeUndefined();
+    expect(fs.existsSync(marker)).toBe(false);
+  });
 });
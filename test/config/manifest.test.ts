@@ -0,0 +1,95 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  loadParticipantManifest,
+  resolveParticipantConfig
+} from "../../src/config/manifest.js";
+import { ConfigurationError } from "../../src/errors.js";
+
+function makeTempDir() {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "finanzonline-manifest-"));
+}
+
+describe("participant manifest", () => {
+  it("loads TOML and JSON manifests", () => {
+    const dir = makeTempDir();
+    const tomlPath = path.join(dir, "participants.toml");
+    fs.writeFileSync(
+      tomlPath,
+      [
+        "[[participants]]",
+        "name = 'mueller'",
+        "profile = 'mueller'",
+        "",
+        "[[participants]]",
+        "name = 'huber'",
+        "tid = 'HUBER001'",
+        "output_dir = '/srv/huber'"
+      ].join("\n")
+    );
+    const jsonPath = path.join(dir, "participants.json");
+    fs.writeFileSync(jsonPath, JSON.stringify([{ name: "huber", tid: "HUBER001" }]));
+
+    expect(loadParticipantManifest(tomlPath)).toEqual([
+      { name: "mueller", profile: "mueller", config: {} },
+      { name: "huber", config: { tid: "HUBER001", output_dir: "/srv/huber" } }
+    ]);
+    expect(loadParticipantManifest(jsonPath)).toEqual([
+      { name: "huber", config: { tid: "HUBER001" } }
+    ]);
+  });
+
+  it("rejects invalid and duplicate participants", () => {
+    const dir = makeTempDir();
+    const invalid = path.join(dir, "invalid.json");
+    fs.writeFileSync(invalid, JSON.stringify({ participants: [{ name: "../escape" }] }));
+    const duplicate = path.join(dir, "duplicate.json");
+    fs.writeFileSync(duplicate, JSON.stringify([{ name: "a" }, { name: "A" }]));
+
+    expect(() => loadParticipantManifest(invalid)).toThrow(ConfigurationError);
+    expect(() => loadParticipantManifest(duplicate)).toThrow(/Duplicate participant/);
+  });
+
+  it("gives participants without their own output_dir a subdirectory", () => {
+    const dir = makeTempDir();
+    fs.writeFileSync(
+      path.join(dir, "finanzonline.toml"),
+      [
+        "[finanzonline]",
+        "benid = 'USER01'",
+        "pin = 'secret'",
+        "herstellerid = 'ATU11111111'",
+        "output_dir = '/srv/databox'",
+        "",
+        "[profiles.mueller]",
+        "tid = 'MUELLER1'",
+        "output_dir = '/srv/mueller'"
+      ].join("\n")
+    );
+    const options = { startDir: dir, env: {} };
+
+    const shared = resolveParticipantConfig(
+      { name: "huber", config: { tid: "HUBER001" } },
+      options
+    );
+    expect(shared.tid).toBe("HUBER001");
+    expect(shared.output_dir).toBe(path.join("/srv/databox", "huber"));
+
+    const profiled = resolveParticipantConfig(
+      { name: "mueller", profile: "mueller", config: {} },
+      options
+    );
+    expect(profiled.tid).toBe("MUELLER1");
+    expect(profiled.output_dir).toBe("/srv/mueller");
+
+    const inline = resolveParticipantConfig(
+      { name: "gruber", config: { tid: "GRUBER01", output_dir: "/srv/gruber" } },
+      { ...options, cli: { tid: "IGNORED1", query_timeout: 60 } }
+    );
+    expect(inline.tid).toBe("GRUBER01");
+    expect(inline.query_timeout).toBe(60);
+    expect(inline.output_dir).toBe("/srv/gruber");
+  });
+});
@@ -0,0 +1,94 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { listProfiles, loadConfig } from "../../src/config/loader.js";
+import { maskSecrets } from "../../src/config/profiles.js";
+import { ConfigurationError } from "../../src/errors.js";
+
+function writeProfilesConfig() {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "finanzonline-"));
+  fs.writeFileSync(
+    path.join(root, "finanzonline.toml"),
+    [
+      "[finanzonline]",
+      "benid = 'USER01'",
+      "pin = 'base-pin'",
+      "herstellerid = 'ATU11111111'",
+      "output_dir = '/tmp/base'",
+      "query_timeout = 45",
+      "",
+      "[profiles.acme]",
+      "tid = 'ACME0001'",
+      "pin = 'acme-pin'",
+      "output_dir = '/tmp/acme'",
+      "",
+      "[profiles.bravo]",
+      "tid = 'BRAVO001'"
+    ].join("\n")
+  );
+  return root;
+}
+
+describe("profiles", () => {
+  it("layers the selected profile over the base section", () => {
+    const root = writeProfilesConfig();
+
+    const { config, sources } = loadConfig({
+      startDir: root,
+      env: { FINANZONLINE__OUTPUT_DIR: "/tmp/from-env" },
+      profile: "acme"
+    });
+
+    expect(config.tid).toBe("ACME0001");
+    expect(config.pin).toBe("acme-pin");
+    expect(config.benid).toBe("USER01");
+    expect(config.output_dir).toBe("/tmp/from-env");
+    expect(sources.profile).toBe("acme");
+    expect(sources.values.tid).toEqual({ layer: "profile", profile: "acme" });
+    expect(sources.values.benid).toEqual({ layer: "toml" });
+    expect(sources.values.output_dir).toEqual({ layer: "env" });
+    expect(sources.values.query_timeout).toEqual({ layer: "toml" });
+    expect(sources.values.session_timeout).toEqual({ layer: "default" });
+  });
+
+  it("selects the profile from FINANZONLINE__PROFILE", () => {
+    const root = writeProfilesConfig();
+
+    const { config } = loadConfig({
+      startDir: root,
+      env: { FINANZONLINE__PROFILE: "bravo" }
+    });
+    expect(config.tid).toBe("BRAVO001");
+    expect(config.pin).toBe("base-pin");
+
+    expect(
+      loadConfig({ startDir: root, env: { FINANZONLINE__PROFILE: "bravo" }, profile: "acme" })
+        .config.tid
+    ).toBe("ACME0001");
+  });
+
+  it("rejects unknown profiles", () => {
+    const root = writeProfilesConfig();
+
+    expect(() => loadConfig({ startDir: root, env: {}, profile: "missing" })).toThrow(
+      ConfigurationError
+    );
+    expect(() => loadConfig({ startDir: root, env: {}, profile: "missing" })).toThrow(
+      /acme, bravo/
+    );
+  });
+
+  it("lists profiles with the active one marked", () => {
+    const root = writeProfilesConfig();
+
+    const profiles = listProfiles({ startDir: root, env: {}, profile: "bravo" });
+    expect(profiles.map((profile) => [profile.name, profile.active])).toEqual([
+      ["acme", false],
+      ["bravo", true]
+    ]);
+    expect(profiles[1]?.config.output_dir).toBe("/tmp/base");
+    expect(maskSecrets(profiles[0]?.config ?? {}).pin).toBe("***");
+    expect(maskSecrets({ tid: "ACME0001" })).toEqual({ tid: "ACME0001" });
+  });
+});
@@ -0,0 +1,179 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { Keystore, resolveKeystoreFile } from "../../src/config/keystore.js";
+import { loadConfig, resolveKeystorePath } from "../../src/config/loader.js";
+import { finanzonlineSchema } from "../../src/config/schema.js";
+import { ConfigurationError } from "../../src/errors.js";
+
+function makeTempDir() {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "finanzonline-secrets-"));
+}
+
+const base = {
+  tid: "AAAAAA11",
+  benid: "USER01",
+  herstellerid: "ATU11111111",
+  output_dir: "/tmp/out"
+};
+
+function writeConfig(dir: string, lines: string[]) {
+  fs.writeFileSync(
+    path.join(dir, "finanzonline.toml"),
+    [
+      "[finanzonline]",
+      "tid = 'AAAAAA11'",
+      "benid = 'USER01'",
+      "herstellerid = 'ATU11111111'",
+      "output_dir = '/tmp/out'",
+      ...lines
+    ].join("\n")
+  );
+}
+
+describe("PIN sources", () => {
+  it("requires exactly one PIN source", () => {
+    expect(finanzonlineSchema.safeParse(base).success).toBe(false);
+    expect(
+      finanzonlineSchema.safeParse({ ...base, pin: "secret", pin_file: "/tmp/pin" }).success
+    ).toBe(false);
+    expect(finanzonlineSchema.safeParse({ ...base, pin_command: "echo x" }).success).toBe(
+      true
+    );
+  });
+
+  it("reads the PIN from a file and from a command", () => {
+    const dir = makeTempDir();
+    const pinFile = path.join(dir, "pin.txt");
+    fs.writeFileSync(pinFile, "file-secret\n", { mode: 0o600 });
+
+    writeConfig(dir, [`pin_file = '${pinFile}'`]);
+    expect(loadConfig({ startDir: dir, env: {} }).config.pin).toBe("file-secret");
+
+    writeConfig(dir, ["pin_command = 'printf \"command-secret\\nurl: x\\n\"'"]);
+    expect(loadConfig({ startDir: dir, env: {} }).config.pin).toBe("command-secret");
+
+    writeConfig(dir, ["pin_command = 'exit 3'"]);
+    expect(() => loadConfig({ startDir: dir, env: {} })).toThrow(/pin_command failed/);
+  });
+
+  it("expands ~ in pin_file to the home directory", () => {
+    const dir = makeTempDir();
+    fs.writeFileSync(path.join(dir, ".fon-pin"), "home-secret\n", { mode: 0o600 });
+
+    writeConfig(dir, ["pin_file = '~/.fon-pin'"]);
+    expect(loadConfig({ startDir: dir, env: { HOME: dir } }).config.pin).toBe("home-secret");
+  });
+
+  it("lets a higher layer replace the PIN source", () => {
+    const dir = makeTempDir();
+    writeConfig(dir, ["pin_file = '/does/not/exist'"]);
+
+    const { config, sources } = loadConfig({
+      startDir: dir,
+      env: { FINANZONLINE__PIN: "env-secret" }
+    });
+    expect(config.pin).toBe("env-secret");
+    expect(config.pin_file).toBeUndefined();
+    expect(sources.values.pin).toEqual({ layer: "env" });
+  });
+
+  it("unlocks the PIN from the keystore", () => {
+    const dir = makeTempDir();
+    const keystoreFile = path.join(dir, "keystore.json");
+    Keystore.open(keystoreFile, "passphrase").set("mueller", "keystore-secret");
+    expect(fs.statSync(keystoreFile).mode & 0o777).toBe(0o600);
+    expect(fs.readFileSync(keystoreFile, "utf8")).not.toContain("keystore-secret");
+
+    writeConfig(dir, ["pin_keystore = 'mueller'", `keystore_file = '${keystoreFile}'`]);
+    expect(
+      loadConfig({
+        startDir: dir,
+        env: { FINANZONLINE__KEYSTORE_PASSPHRASE: "passphrase" }
+      }).config.pin
+    ).toBe("keystore-secret");
+    expect(() => loadConfig({ startDir: dir, env: {}, keystorePassphrase: "wrong" })).toThrow(
+      ConfigurationError
+    );
+  });
+});
+
+describe("keystore location", () => {
+  it("expands a leading ~ and falls back to the default file", () => {
+    const env = { HOME: "/home/anna" };
+    expect(resolveKeystoreFile("~/.fon/keys.json", env)).toBe("/home/anna/.fon/keys.json");
+    expect(resolveKeystoreFile("/etc/keys.json", env)).toBe("/etc/keys.json");
+    expect(resolveKeystoreFile("~other/keys.json", env)).toBe("~other/keys.json");
+    expect(resolveKeystoreFile(undefined, env)).toBe("/home/anna/.finanzonline-keystore.json");
+  });
+
+  it("resolves keystore_file through TOML, profile, .env and CLI without credentials", () => {
+    const dir = makeTempDir();
+    const home = makeTempDir();
+    fs.writeFileSync(
+      path.join(dir, "finanzonline.toml"),
+      [
+        "[finanzonline]",
+        "keystore_file = '/toml/keys.json'",
+        "[profiles.mueller]",
+        "keystore_file = '/profile/keys.json'"
+      ].join("\n")
+    );
+
+    expect(resolveKeystorePath({ startDir: dir, env: {} })).toBe("/toml/keys.json");
+    expect(resolveKeystorePath({ startDir: dir, env: {}, profile: "mueller" })).toBe(
+      "/profile/keys.json"
+    );
+
+    fs.writeFileSync(path.join(dir, ".env"), "FINANZONLINE__KEYSTORE_FILE=~/keys.json\n");
+    expect(resolveKeystorePath({ startDir: dir, env: { HOME: home } })).toBe(
+      path.join(home, "keys.json")
+    );
+    expect(
+      resolveKeystorePath({
+        startDir: dir,
+        env: { HOME: home },
+        cli: { keystore_file: "/cli/keys.json" }
+      })
+    ).toBe("/cli/keys.json");
+  });
+
+  it("opens a keystore_file from .env written with ~", () => {
+    const dir = makeTempDir();
+    const home = makeTempDir();
+    Keystore.open(path.join(home, "keys.json"), "passphrase").set("mueller", "home-secret");
+    writeConfig(dir, ["pin_keystore = 'mueller'"]);
+    fs.writeFileSync(path.join(dir, ".env"), "FINANZONLINE__KEYSTORE_FILE=~/keys.json\n");
+
+    expect(
+      loadConfig({ startDir: dir, env: { HOME: home }, keystorePassphrase: "passphrase" }).config
+        .pin
+    ).toBe("home-secret");
+  });
+});
+
+describe("Keystore", () => {
+  it("sets, gets and removes entries", () => {
+    const file = path.join(makeTempDir(), "keystore.json");
+    const keystore = Keystore.open(file, "passphrase");
+    keystore.set("a", "secret-a");
+    keystore.set("b", "secret-b");
+
+    const reopened = Keystore.open(file, "passphrase");
+    expect(reopened.names()).toEqual(["a", "b"]);
+    expect(reopened.get("b")).toBe("secret-b");
+    expect(reopened.remove("a")).toBe(true);
+    expect(reopened.remove("a")).toBe(false);
+    expect(Keystore.open(file, "passphrase").names()).toEqual(["b"]);
+  });
+
+  it("refuses to add entries with a different passphrase", () => {
+    const file = path.join(makeTempDir(), "keystore.json");
+    Keystore.open(file, "passphrase").set("a", "secret-a");
+
+    const wrong = Keystore.open(file, "other");
+    expect(() => wrong.get("a")).toThrow(/wrong passphrase/);
+    expect(() => wrong.set("b", "secret-b")).toThrow(ConfigurationError);
+  });
+});
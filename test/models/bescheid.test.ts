@@ -0,0 +1,104 @@
+import fs from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { InvalidXmlError } from "../../src/errors.js";
+import { parseAmount, parseBescheid } from "../../src/models/bescheid.js";
+import { formatXsdDate } from "../../src/models/dates.js";
+
+const fixtures = path.join(process.cwd(), "test", "fixtures", "documents");
+
+function readFixture(name: string) {
+  return fs.readFileSync(path.join(fixtures, name));
+}
+
+describe("parseBescheid", () => {
+  it("reads a namespaced income tax Bescheid", () => {
+    const bescheid = parseBescheid(readFixture("bescheid-est-v1.xml"));
+
+    expect(bescheid).toMatchObject({
+      documentType: "Bescheid",
+      schemaVersion: "1.0",
+      taxpayer: {
+        name: "Maria Muster",
+        stnr: "12 345/6789",
+        address: "Hauptstraße 1, 1010 Wien"
+      },
+      taxType: "Einkommensteuer",
+      period: { year: 2023 },
+      assessedAmounts: [
+        { label: "Einkommensteuer 2023", amount: 5321.4 },
+        { label: "Anrechenbare Lohnsteuer", amount: -1000 }
+      ],
+      assessedTotal: 4321.4,
+      previousPayments: 3000,
+      balance: 1321.4,
+      warnings: []
+    });
+    expect(formatXsdDate(bescheid.issuedAt as Date)).toBe("2024-03-15");
+    expect(formatXsdDate(bescheid.dueDate as Date)).toBe("2024-04-22");
+    expect(bescheid.rechtsmittelbelehrung).toMatch(
+      /^Gegen diesen Bescheid .*erhoben werden\.\n\nDie Beschwerde ist beim Finanzamt/
+    );
+  });
+
+  it("maps a later schema with renamed elements onto the same fields", () => {
+    const bescheid = parseBescheid(readFixture("bescheid-ust-v2.xml"));
+
+    expect(bescheid).toMatchObject({
+      documentType: "ErgebnisBescheid",
+      schemaVersion: "2.1",
+      taxpayer: { name: "Muster GmbH", stnr: "98-765/4321" },
+      taxType: "Umsatzsteuer",
+      assessedAmounts: [
+        { label: "Umsatzsteuer", amount: 12034.5 },
+        { label: "Vorsteuer", amount: -14534.5 }
+      ],
+      assessedTotal: -2500,
+      previousPayments: 0,
+      balance: -2500
+    });
+    expect(formatXsdDate(bescheid.period.from as Date)).toBe("2023-01-01");
+    expect(formatXsdDate(bescheid.period.to as Date)).toBe("2023-12-31");
+    expect(bescheid.dueDate).toBeUndefined();
+    expect(bescheid.warnings).toEqual(['dueDate: "nicht fällig" is not a date']);
+  });
+
+  it("treats a Gutschrift as a negative balance", () => {
+    const bescheid = parseBescheid(
+      "<Bescheid><Abgabenart>Einkommensteuer</Abgabenart>" +
+        "<Abgabengutschrift>250,00</Abgabengutschrift></Bescheid>"
+    );
+    expect(bescheid.balance).toBe(-250);
+  });
+
+  it("rejects malformed XML and documents that are no Bescheid", () => {
+    expect(() => parseBescheid("<Bescheid><open></Bescheid>")).toThrow(InvalidXmlError);
+    expect(() => parseBescheid("<Rechnung><Nummer>1</Nummer></Rechnung>")).toThrow(
+      /<Rechnung> is not a recognized Bescheid/
+    );
+  });
+});
+
+describe("parseAmount", () => {
+  it("reads Austrian and plain number formats", () => {
+    expect(parseAmount("1.234,56")).toBe(1234.56);
+    expect(parseAmount("€ 1.234,56-")).toBe(-1234.56);
+    expect(parseAmount("-12.50 EUR")).toBe(-12.5);
+    expect(parseAmount("n/a")).toBeUndefined();
+  });
+
+  it("takes the last separator as the decimal mark", () => {
+    expect(parseAmount("1.234,56")).toBe(1234.56);
+    expect(parseAmount("1,234.56")).toBe(1234.56);
+    expect(parseAmount("1234,5")).toBe(1234.5);
+    expect(parseAmount("1.234.567,89")).toBe(1234567.89);
+    expect(parseAmount("-1,234,567.89")).toBe(-1234567.89);
+  });
+
+  it("rejects mixed separators it cannot classify", () => {
+    expect(parseAmount("1,2.3,4")).toBeUndefined();
+    expect(parseAmount("12.34,5.6")).toBeUndefined();
+    expect(parseAmount("1.23,45")).toBeUndefined();
+    expect(parseAmount("1.234.56")).toBeUndefined();
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { ConfigurationError } from "../../src/errors.js";
+import {
+  ANBRINGEN_CATALOG,
+  ANBRINGEN_CODES,
+  describeAnbringen,
+  describeErltyp,
+  ERLTYP_CATALOG,
+  ERLTYP_CODES,
+  parseErltyp
+} from "../../src/models/codes.js";
+
+describe("code catalogs", () => {
+  it("describes every declared code exactly once", () => {
+    expect(ERLTYP_CATALOG.map((info) => info.code)).toEqual([...ERLTYP_CODES]);
+    expect(ANBRINGEN_CATALOG.map((info) => info.code)).toEqual([...ANBRINGEN_CODES]);
+  });
+
+  it("looks codes up ignoring case and blanks", () => {
+    expect(describeErltyp("b")?.de).toBe("Bescheid");
+    expect(describeAnbringen("E 1a")?.code).toBe("E1a");
+    expect(describeAnbringen("uva")?.category).toBe("vat");
+  });
+
+  it("returns undefined for codes it does not know", () => {
+    expect(describeErltyp("X")).toBeUndefined();
+    expect(describeAnbringen("FOO99")).toBeUndefined();
+  });
+});
+
+describe("parseErltyp", () => {
+  it("normalizes known types", () => {
+    expect(parseErltyp("eu")).toBe("EU");
+  });
+
+  it("lists the known types for unknown input", () => {
+    expect(() => parseErltyp("Z")).toThrow(ConfigurationError);
+    expect(() => parseErltyp("Z")).toThrow(/Use one of: B \(Decision\), M \(Notice\)/);
+  });
+});
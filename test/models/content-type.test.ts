@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import {
+  contentTypeWarning,
+  describeDocument,
+  detectContentType,
+  UNKNOWN_CONTENT_TYPE
+} from "../../src/models/content-type.js";
+
+function sniff(bytes: number[] | string) {
+  return detectContentType(typeof bytes === "string" ? Buffer.from(bytes) : Buffer.from(bytes));
+}
+
+describe("detectContentType", () => {
+  it("recognizes binary signatures", () => {
+    expect(sniff("%PDF-1.7\n")).toEqual({ mimeType: "application/pdf", extension: "pdf" });
+    expect(sniff([0x50, 0x4b, 0x03, 0x04, 0x14]).extension).toBe("zip");
+    expect(sniff([0x1f, 0x8b, 0x08]).extension).toBe("gz");
+    expect(sniff([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).mimeType).toBe("image/png");
+    expect(sniff([0xff, 0xd8, 0xff, 0xe0]).extension).toBe("jpg");
+  });
+
+  it("recognizes XML prologs and root elements after a byte order mark", () => {
+    expect(sniff('<?xml version="1.0"?><Bescheid/>').extension).toBe("xml");
+    expect(sniff("\n  <Bescheid/>").extension).toBe("xml");
+    expect(sniff([0xef, 0xbb, 0xbf, ...Buffer.from("<?xml version='1.0'?>")]).extension).toBe(
+      "xml"
+    );
+    expect(sniff([0xff, 0xfe, ...Buffer.from("<?xml ?>", "utf16le")]).extension).toBe("xml");
+  });
+
+  it("tells HTML error pages apart from XML", () => {
+    expect(sniff("<!DOCTYPE html><html><body>Fehler</body></html>").mimeType).toBe("text/html");
+    expect(sniff("<html>error</html>").mimeType).toBe("text/html");
+  });
+
+  it("falls back to application/octet-stream", () => {
+    expect(sniff("plain text")).toEqual(UNKNOWN_CONTENT_TYPE);
+    expect(sniff([])).toEqual(UNKNOWN_CONTENT_TYPE);
+  });
+});
+
+describe("describeDocument", () => {
+  it("warns when the content contradicts fileart", () => {
+    const zip = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x00]);
+    expect(describeDocument(zip, "PDF")).toEqual({
+      content: zip,
+      mimeType: "application/zip",
+      extension: "zip",
+      warnings: ["fileart: declared PDF but the content is application/zip (.zip)"]
+    });
+    expect(describeDocument(Buffer.from("%PDF-1.4"), "PDF").warnings).toBeUndefined();
+    expect(describeDocument(zip).warnings).toBeUndefined();
+  });
+
+  it("accepts matching XML", () => {
+    expect(contentTypeWarning("XML", sniff("<Bescheid/>"))).toBeUndefined();
+  });
+});
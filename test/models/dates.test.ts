@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatXsdDate,
+  formatXsdDateTime,
+  parseXsdDate,
+  parseXsdDateTime,
+  startOfViennaDay,
+  viennaOffsetMinutes
+} from "../../src/models/dates.js";
+
+describe("Vienna date helpers", () => {
+  it("reads offset-free timestamps as Austrian local time", () => {
+    expect(parseXsdDateTime("2024-01-11T10:15:30")?.toISOString()).toBe(
+      "2024-01-11T09:15:30.000Z"
+    );
+    expect(parseXsdDateTime("2024-07-11T10:15:30.250")?.toISOString()).toBe(
+      "2024-07-11T08:15:30.250Z"
+    );
+    expect(parseXsdDateTime("2024-07-11T10:15:30Z")?.toISOString()).toBe(
+      "2024-07-11T10:15:30.000Z"
+    );
+  });
+
+  it("parses dates as Vienna midnight", () => {
+    expect(parseXsdDate("2024-01-11")?.toISOString()).toBe("2024-01-10T23:00:00.000Z");
+    expect(parseXsdDate("2024-07-11")?.toISOString()).toBe("2024-07-10T22:00:00.000Z");
+    expect(parseXsdDate("2024-07-11T10:15:30+02:00")?.toISOString()).toBe(
+      "2024-07-11T08:15:30.000Z"
+    );
+  });
+
+  it("keeps the timezone offset of an xsd:date", () => {
+    expect(parseXsdDate("2024-01-11Z")?.toISOString()).toBe("2024-01-11T00:00:00.000Z");
+    expect(parseXsdDate("2024-01-11+01:00")?.toISOString()).toBe("2024-01-10T23:00:00.000Z");
+    expect(parseXsdDate("2024-01-11-05:30")?.toISOString()).toBe("2024-01-11T05:30:00.000Z");
+    expect(parseXsdDate("2024-01-11+15:00")).toBeNull();
+  });
+
+  it("returns null for missing or malformed values", () => {
+    expect(parseXsdDate(undefined)).toBeNull();
+    expect(parseXsdDate("")).toBeNull();
+    expect(parseXsdDateTime("11.01.2024")).toBeNull();
+  });
+
+  it("rejects dates and times that do not exist instead of rolling them over", () => {
+    expect(parseXsdDate("2024-02-31")).toBeNull();
+    expect(parseXsdDate("2023-02-29")).toBeNull();
+    expect(parseXsdDate("2024-13-01")).toBeNull();
+    expect(parseXsdDate("2024-00-10Z")).toBeNull();
+    expect(parseXsdDate("2024-02-29")?.toISOString()).toBe("2024-02-28T23:00:00.000Z");
+    expect(parseXsdDateTime("2024-04-31T10:00:00Z")).toBeNull();
+    expect(parseXsdDateTime("2024-04-30T24:30:00")).toBeNull();
+    expect(parseXsdDateTime("2024-04-30T10:60:00")).toBeNull();
+    expect(parseXsdDateTime("2024-04-30T10:00:00+01:75")).toBeNull();
+  });
+
+  it("handles the spring and autumn DST transitions", () => {
+    expect(viennaOffsetMinutes(new Date("2024-03-31T00:59:59Z"))).toBe(60);
+    expect(viennaOffsetMinutes(new Date("2024-03-31T01:00:00Z"))).toBe(120);
+    expect(parseXsdDateTime("2024-03-31T03:30:00")?.toISOString()).toBe(
+      "2024-03-31T01:30:00.000Z"
+    );
+    expect(parseXsdDateTime("2024-10-27T04:00:00")?.toISOString()).toBe(
+      "2024-10-27T03:00:00.000Z"
+    );
+    expect(formatXsdDateTime(new Date("2024-10-27T00:30:00Z"))).toBe(
+      "2024-10-27T02:30:00+02:00"
+    );
+    expect(formatXsdDateTime(new Date("2024-10-27T01:30:00Z"))).toBe(
+      "2024-10-27T02:30:00+01:00"
+    );
+  });
+
+  it("formats dates on the Vienna calendar day", () => {
+    expect(formatXsdDate(new Date("2024-01-10T23:30:00Z"))).toBe("2024-01-11");
+    expect(formatXsdDate(new Date("2024-07-10T21:59:59Z"))).toBe("2024-07-10");
+    expect(formatXsdDateTime(new Date("2024-01-01T00:00:00Z"))).toBe(
+      "2024-01-01T01:00:00+01:00"
+    );
+  });
+
+  it("computes day starts across DST changes", () => {
+    expect(startOfViennaDay(new Date("2024-03-31T12:00:00Z")).toISOString()).toBe(
+      "2024-03-30T23:00:00.000Z"
+    );
+    expect(startOfViennaDay(new Date("2024-03-31T12:00:00Z"), 1).toISOString()).toBe(
+      "2024-03-31T22:00:00.000Z"
+    );
+    expect(startOfViennaDay(new Date("2024-10-27T12:00:00Z"), 1).toISOString()).toBe(
+      "2024-10-27T23:00:00.000Z"
+    );
+  });
+});
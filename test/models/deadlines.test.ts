@@ -0,0 +1,175 @@
+import fs from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { parseBescheid } from "../../src/models/bescheid.js";
+import { formatXsdDate, parseXsdDate } from "../../src/models/dates.js";
+import {
+  addPeriodMonths,
+  austrianHolidays,
+  computeDeadlines,
+  daysUntil,
+  describeDeadline,
+  nonWorkingDayReason,
+  rollForward,
+  sortDeadlines
+} from "../../src/models/deadlines.js";
+import { DataboxEntry } from "../../src/models/types.js";
+
+function makeEntry(overrides: Partial<DataboxEntry> = {}): DataboxEntry {
+  return {
+    stnr: "123/4567",
+    name: "Muster",
+    anbringen: "E1",
+    zrvon: "2023",
+    zrbis: "2023",
+    datbesch: day("2024-03-15"),
+    erltyp: "B",
+    fileart: "XML",
+    ts_zust: new Date("2024-03-18T09:30:00Z"),
+    applkey: "AAA111",
+    filebez: "ESt Bescheid 2023",
+    status: "UNREAD",
+    ...overrides
+  };
+}
+
+function day(value: string): Date {
+  const parsed = parseXsdDate(value);
+  if (!parsed) {
+    throw new Error(`bad test date ${value}`);
+  }
+  return parsed;
+}
+
+describe("austrianHolidays", () => {
+  it("lists the fixed and Easter-based public holidays in order", () => {
+    const holidays = austrianHolidays(2024).map(
+      (holiday) => `${formatXsdDate(holiday.date)} ${holiday.name}`
+    );
+
+    expect(holidays).toHaveLength(13);
+    expect(holidays).toContain("2024-04-01 Ostermontag");
+    expect(holidays).toContain("2024-05-09 Christi Himmelfahrt");
+    expect(holidays).toContain("2024-05-20 Pfingstmontag");
+    expect(holidays).toContain("2024-05-30 Fronleichnam");
+    expect(holidays[0]).toBe("2024-01-01 Neujahr");
+    expect(holidays.at(-1)).toBe("2024-12-26 Stefanitag");
+  });
+
+  it("moves with Easter from year to year", () => {
+    const ostermontag = (year: number) =>
+      austrianHolidays(year).find((holiday) => holiday.name === "Ostermontag")?.date;
+    expect(formatXsdDate(ostermontag(2025) as Date)).toBe("2025-04-21");
+    expect(formatXsdDate(ostermontag(2026) as Date)).toBe("2026-04-06");
+  });
+});
+
+describe("nonWorkingDayReason", () => {
+  it("names weekends, holidays, Karfreitag and 24 December", () => {
+    expect(nonWorkingDayReason(day("2024-03-30"))).toBe("Samstag");
+    expect(nonWorkingDayReason(day("2024-03-31"))).toBe("Sonntag");
+    expect(nonWorkingDayReason(day("2024-03-29"))).toBe("Karfreitag");
+    expect(nonWorkingDayReason(day("2024-10-26"))).toBe("Samstag");
+    expect(nonWorkingDayReason(day("2023-10-26"))).toBe("Nationalfeiertag");
+    expect(nonWorkingDayReason(day("2024-12-24"))).toBe("Heiliger Abend");
+    expect(nonWorkingDayReason(day("2024-03-28"))).toBeUndefined();
+  });
+
+  it("uses the Vienna calendar day of the instant", () => {
+    // Friday 23:30 UTC is already Saturday in Vienna.
+    expect(nonWorkingDayReason(new Date("2024-06-07T23:30:00Z"))).toBe("Samstag");
+  });
+});
+
+describe("rollForward", () => {
+  it("keeps working days and skips over weekends and holidays", () => {
+    expect(formatXsdDate(rollForward(day("2024-03-28")))).toBe("2024-03-28");
+    expect(formatXsdDate(rollForward(day("2024-03-29")))).toBe("2024-04-02");
+    expect(formatXsdDate(rollForward(day("2024-12-24")))).toBe("2024-12-27");
+  });
+});
+
+describe("addPeriodMonths", () => {
+  it("ends on the same day number or the last day of a shorter month", () => {
+    expect(formatXsdDate(addPeriodMonths(day("2024-03-18"), 1))).toBe("2024-04-18");
+    expect(formatXsdDate(addPeriodMonths(day("2024-01-31"), 1))).toBe("2024-02-29");
+    expect(formatXsdDate(addPeriodMonths(day("2023-01-31"), 1))).toBe("2023-02-28");
+    expect(formatXsdDate(addPeriodMonths(day("2024-12-15"), 1))).toBe("2025-01-15");
+  });
+});
+
+describe("computeDeadlines", () => {
+  it("counts the Beschwerdefrist of a Bescheid from its delivery day", () => {
+    const [appeal, ...rest] = computeDeadlines(makeEntry());
+
+    expect(rest).toEqual([]);
+    expect(appeal).toMatchObject({ kind: "appeal", applkey: "AAA111", basis: "ts_zust" });
+    expect(formatXsdDate(appeal?.start as Date)).toBe("2024-03-18");
+    expect(formatXsdDate(appeal?.date as Date)).toBe("2024-04-18");
+    expect(appeal?.rolledFrom).toBeUndefined();
+    expect(appeal?.title).toBe("Beschwerdefrist: ESt Bescheid 2023");
+  });
+
+  it("rolls an end on a holiday forward and says why", () => {
+    // Delivered shortly after midnight Vienna time on 25 November.
+    const [appeal] = computeDeadlines(
+      makeEntry({ ts_zust: new Date("2024-11-24T23:30:00Z") })
+    );
+
+    expect(formatXsdDate(appeal?.start as Date)).toBe("2024-11-25");
+    expect(formatXsdDate(appeal?.rolledFrom as Date)).toBe("2024-12-25");
+    expect(formatXsdDate(appeal?.date as Date)).toBe("2024-12-27");
+    expect(describeDeadline(appeal!)).toBe(
+      "Appeal period of 1 month from delivery on 2024-11-25; moved from 2024-12-25 (Christtag)"
+    );
+  });
+
+  it("falls back to datbesch without a delivery time", () => {
+    const [appeal] = computeDeadlines(makeEntry({ ts_zust: null }));
+    expect(appeal?.basis).toBe("datbesch");
+    expect(formatXsdDate(appeal?.date as Date)).toBe("2024-04-15");
+  });
+
+  it("does not start an appeal period for other document types", () => {
+    expect(computeDeadlines(makeEntry({ erltyp: "M" }))).toEqual([]);
+    expect(computeDeadlines(makeEntry({ erltyp: "P" }))).toEqual([]);
+    expect(computeDeadlines(makeEntry({ ts_zust: null, datbesch: null }))).toEqual([]);
+  });
+
+  it("adds the payment due date of an outstanding balance", () => {
+    const bescheid = parseBescheid(
+      fs.readFileSync(path.join("test", "fixtures", "documents", "bescheid-est-v1.xml"))
+    );
+    const payment = computeDeadlines(makeEntry(), { bescheid }).find(
+      (deadline) => deadline.kind === "payment"
+    );
+
+    expect(payment).toMatchObject({ basis: "document", amount: 1321.4 });
+    expect(formatXsdDate(payment?.date as Date)).toBe("2024-04-22");
+    expect(describeDeadline(payment!)).toBe(
+      "Payment of 1321.40 EUR due as stated in the document"
+    );
+  });
+
+  it("skips the payment deadline for credits", () => {
+    const deadlines = computeDeadlines(makeEntry(), {
+      bescheid: { dueDate: day("2024-04-22"), balance: -50 }
+    });
+    expect(deadlines.map((deadline) => deadline.kind)).toEqual(["appeal"]);
+  });
+});
+
+describe("sortDeadlines and daysUntil", () => {
+  it("orders by date and counts Vienna calendar days", () => {
+    const deadlines = sortDeadlines([
+      ...computeDeadlines(makeEntry({ applkey: "LATE", ts_zust: day("2024-03-20") })),
+      ...computeDeadlines(makeEntry({ applkey: "EARLY", ts_zust: day("2024-03-04") }))
+    ]);
+
+    expect(deadlines.map((deadline) => deadline.applkey)).toEqual(["EARLY", "LATE"]);
+    const now = new Date("2024-04-17T22:30:00Z"); // 18 April in Vienna
+    // 20 April is a Saturday, so the later deadline ends on Monday 22 April.
+    expect(daysUntil(deadlines[1]!, now)).toBe(4);
+    expect(daysUntil(deadlines[0]!, now)).toBe(-14);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import {
+  ENTRY_FIELDS,
+  formatRecords,
+  parseFields,
+  parseOutputFormat,
+  serializeEntry,
+  serializeSaved
+} from "../../src/output/format.js";
+import { ConfigurationError } from "../../src/errors.js";
+import { DataboxEntry } from "../../src/models/types.js";
+
+const entry: DataboxEntry = {
+  stnr: "123",
+  name: "Bescheid, \"final\"",
+  anbringen: "E1",
+  zrvon: "2023",
+  zrbis: "2023",
+  datbesch: new Date("2024-01-10T00:00:00Z"),
+  erltyp: "B",
+  fileart: "PDF",
+  ts_zust: new Date("2024-01-11T10:15:30Z"),
+  applkey: "AAA111",
+  filebez: "ESt Bescheid",
+  status: "UNREAD"
+};
+
+describe("serializeEntry", () => {
+  it("uses stable field names and ISO dates", () => {
+    const record = serializeEntry(entry);
+    expect(Object.keys(record)).toEqual([...ENTRY_FIELDS]);
+    expect(record.datbesch).toBe("2024-01-10");
+    expect(record.ts_zust).toBe("2024-01-11T10:15:30.000Z");
+  });
+
+  it("describes known codes and passes unknown ones through", () => {
+    expect(serializeEntry(entry)).toMatchObject({
+      erltyp_description: "Decision",
+      anbringen_description: "Income tax return"
+    });
+    expect(serializeEntry({ ...entry, erltyp: "Q", anbringen: "X9" })).toMatchObject({
+      erltyp: "Q",
+      erltyp_description: "Q",
+      anbringen_description: "X9"
+    });
+  });
+});
+
+describe("formatRecords", () => {
+  const records = [serializeEntry(entry)];
+
+  it("renders the table layout", () => {
+    expect(formatRecords(records, { format: "table" })).toBe(
+      "2024-01-11T10:15:30.000Z | UNREAD | Decision | Income tax return | PDF | AAA111 | " +
+        "ESt Bescheid"
+    );
+  });
+
+  it("renders JSON and NDJSON with all fields", () => {
+    const json = JSON.parse(formatRecords(records, { format: "json" }));
+    expect(json).toEqual(records);
+    const ndjson = formatRecords([...records, ...records], { format: "ndjson" });
+    expect(ndjson.split("\n")).toHaveLength(2);
+  });
+
+  it("renders CSV with quoting and selected fields", () => {
+    expect(
+      formatRecords(records, { format: "csv", fields: ["applkey", "name"] })
+    ).toBe('applkey,name\nAAA111,"Bescheid, ""final"""');
+  });
+
+  it("includes path and hash for saved documents", () => {
+    const saved = serializeSaved(entry, "/tmp/a.pdf", "abc");
+    expect(formatRecords([saved], { format: "ndjson", fields: ["path", "sha256"] })).toBe(
+      '{"path":"/tmp/a.pdf","sha256":"abc"}'
+    );
+  });
+
+  it("prints only the header for empty CSV", () => {
+    expect(formatRecords([], { format: "csv" })).toBe(ENTRY_FIELDS.join(","));
+  });
+});
+
+describe("option parsing", () => {
+  it("validates formats and fields", () => {
+    expect(parseOutputFormat("JSON")).toBe("json");
+    expect(() => parseOutputFormat("xml")).toThrow(ConfigurationError);
+    expect(parseFields("applkey, status", ENTRY_FIELDS)).toEqual(["applkey", "status"]);
+    expect(() => parseFields("nope", ENTRY_FIELDS)).toThrow(ConfigurationError);
+    expect(() => parseFields(",", ENTRY_FIELDS)).toThrow(ConfigurationError);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { parseXsdDate } from "../../src/models/dates.js";
+import { computeDeadlines } from "../../src/models/deadlines.js";
+import { DataboxEntry } from "../../src/models/types.js";
+import { formatICalendar } from "../../src/output/ics.js";
+
+const entry: DataboxEntry = {
+  stnr: "123/4567",
+  name: "Muster",
+  anbringen: "E1",
+  zrvon: "2023",
+  zrbis: "2023",
+  datbesch: null,
+  erltyp: "B",
+  fileart: "PDF",
+  ts_zust: parseXsdDate("2024-11-25"),
+  applkey: "AAA111",
+  filebez: "Einkommensteuerbescheid 2023, Beschwerde; bitte prüfen und mit Beratung abstimmen",
+  status: "UNREAD"
+};
+
+const now = new Date("2024-11-26T08:00:00Z");
+
+describe("formatICalendar", () => {
+  it("writes all-day events with stable UIDs and CRLF line endings", () => {
+    const ics = formatICalendar(computeDeadlines(entry), { now });
+
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(ics.replace(/\r\n/g, "")).not.toContain("\n");
+    expect(ics).toContain("UID:AAA111-appeal@finanzonline-ts\r\n");
+    expect(ics).toContain("DTSTAMP:20241126T080000Z\r\n");
+    expect(ics).toContain("DTSTART;VALUE=DATE:20241227\r\n");
+    expect(ics).toContain("DTEND;VALUE=DATE:20241228\r\n");
+    expect(ics).toContain("TRIGGER:-P3D\r\n");
+  });
+
+  it("escapes text and folds lines at 75 octets", () => {
+    const ics = formatICalendar(computeDeadlines(entry), { now });
+    const lines = ics.split("\r\n");
+
+    for (const line of lines) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+    const unfolded = ics.replace(/\r\n /g, "");
+    expect(unfolded).toContain(
+      "SUMMARY:Beschwerdefrist: Einkommensteuerbescheid 2023\\, Beschwerde\\; bitte prüfen"
+    );
+    expect(unfolded).toContain(
+      "\\napplkey: AAA111\\nStNr: 123/4567\\nAnbringen: E1\\nZeitraum: 2023\r\n"
+    );
+  });
+
+  it("leaves out the reminder when alarmDays is 0", () => {
+    const ics = formatICalendar(computeDeadlines(entry), { now, alarmDays: 0 });
+    expect(ics).not.toContain("BEGIN:VALARM");
+  });
+
+  it("renders an empty calendar without events", () => {
+    const ics = formatICalendar([], { now });
+    expect(ics).not.toContain("BEGIN:VEVENT");
+    expect(ics).toContain("END:VCALENDAR");
+  });
+});
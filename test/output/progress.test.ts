@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatBytes,
+  formatDuration,
+  formatProgress,
+  ProgressReporter
+} from "../../src/output/progress.js";
+
+function recorder(isTTY: boolean) {
+  const chunks: string[] = [];
+  return { chunks, stream: { isTTY, write: (text: string) => chunks.push(text) } };
+}
+
+describe("formatProgress", () => {
+  it("shows the counter, bytes and ETA", () => {
+    expect(formatProgress({ total: 10, completed: 3, failed: 1, bytes: 1536 }, 8000)).toBe(
+      "4/10 documents, 1 failed, 1.5 KB, ETA 12s"
+    );
+    expect(formatProgress({ total: 2, completed: 2, failed: 0, bytes: 10 }, 125_000)).toBe(
+      "2/2 documents, 10 B, in 2m05s"
+    );
+    expect(formatBytes(5 * 1024 * 1024)).toBe("5.0 MB");
+    expect(formatDuration(3_900_000)).toBe("1h05m");
+  });
+});
+
+describe("ProgressReporter", () => {
+  it("redraws a status line on a TTY and keeps log lines above it", () => {
+    let now = 0;
+    const { chunks, stream } = recorder(true);
+    const reporter = new ProgressReporter(stream, { now: () => now });
+    const printed: string[] = [];
+
+    reporter.update({ total: 2, completed: 0, failed: 0, bytes: 0 });
+    reporter.log("Saved a.pdf", (line) => printed.push(line));
+    now += 1000;
+    reporter.update({ total: 2, completed: 2, failed: 0, bytes: 20 });
+    reporter.finish();
+
+    expect(printed).toEqual(["Saved a.pdf"]);
+    expect(chunks[0]).toBe("\r\x1b[2K0/2 documents, 0 B");
+    expect(chunks.at(-1)).toBe("\n");
+    expect(chunks).toContain("\r\x1b[2K2/2 documents, 20 B, in 1s");
+  });
+
+  it("falls back to occasional plain lines without a TTY", () => {
+    let now = 0;
+    const { chunks, stream } = recorder(false);
+    const reporter = new ProgressReporter(stream, { now: () => now, plainIntervalMs: 5000 });
+
+    reporter.update({ total: 3, completed: 0, failed: 0, bytes: 0 });
+    now += 1000;
+    reporter.update({ total: 3, completed: 1, failed: 0, bytes: 10 });
+    now += 5000;
+    reporter.update({ total: 3, completed: 2, failed: 0, bytes: 20 });
+    now += 1000;
+    reporter.update({ total: 3, completed: 3, failed: 0, bytes: 30 });
+    reporter.finish();
+
+    expect(chunks).toEqual([
+      "0/3 documents, 0 B\n",
+      "2/3 documents, 20 B, ETA 3s\n",
+      "3/3 documents, 30 B, in 7s\n"
+    ]);
+  });
+});
@@ -0,0 +1,224 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { describe, expect, it } from "vitest";
+import { DataboxError, InvalidCredentialsError, MaintenanceError } from "../../src/errors.js";
+import { DataboxEntry } from "../../src/models/types.js";
+import { runBatchSync, summarizeError } from "../../src/sync/batch.js";
+import { mapWithConcurrency } from "../../src/sync/concurrency.js";
+import { RateLimiter } from "../../src/sync/rate-limit.js";
+import { SyncClient, syncDatabox, SyncProgress, SyncResult } from "../../src/sync/run.js";
+
+function makeEntry(applkey: string): DataboxEntry {
+  return {
+    stnr: "123",
+    name: "Bescheid",
+    anbringen: "E1",
+    zrvon: "2023",
+    zrbis: "2023",
+    datbesch: new Date("2024-01-10T00:00:00Z"),
+    erltyp: "B",
+    fileart: "PDF",
+    ts_zust: new Date("2024-01-11T10:15:30Z"),
+    applkey,
+    filebez: "Bescheid",
+    status: "UNREAD"
+  };
+}
+
+function fakeClient(entries: DataboxEntry[], failing: string[] = []): SyncClient {
+  return {
+    list: async () => entries,
+    downloadStream: async (applkey) => {
+      if (failing.includes(applkey)) {
+        throw new DataboxError("Entry not available", -2);
+      }
+      return Readable.from([Buffer.from(`%PDF-${applkey}`)]);
+    }
+  };
+}
+
+function syncResult(saved: number, failures: number): SyncResult {
+  return {
+    listed: saved + failures,
+    skipped: 0,
+    saved: Array.from({ length: saved }, (_, index) => ({
+      entry: makeEntry(`S${index}`),
+      path: `/tmp/S${index}.pdf`,
+      sha256: "hash"
+    })),
+    failures: Array.from({ length: failures }, (_, index) => ({
+      entry: makeEntry(`F${index}`),
+      error: new DataboxError("Entry not available", -2)
+    })),
+    aborted: false
+  };
+}
+
+describe("syncDatabox", () => {
+  it("downloads new entries, skips ledger entries and collects failures", async () => {
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "finanzonline-sync-"));
+    const client = fakeClient([makeEntry("A1"), makeEntry("A2"), makeEntry("A3")], ["A3"]);
+
+    const first = await syncDatabox(client, { filter: {}, outputDir });
+    expect(first.saved.map((saved) => saved.entry.applkey)).toEqual(["A1", "A2"]);
+    expect(first.failures.map((failure) => failure.entry.applkey)).toEqual(["A3"]);
+    expect(fs.readFileSync(path.join(outputDir, "Bescheid_A1.pdf"), "utf8")).toBe("%PDF-A1");
+
+    const second = await syncDatabox(client, { filter: {}, outputDir });
+    expect(second.skipped).toBe(2);
+    expect(second.saved).toEqual([]);
+    expect(second.failures).toHaveLength(1);
+  });
+
+  it("downloads in parallel up to the concurrency limit and reports progress", async () => {
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "finanzonline-sync-"));
+    const entries = ["B1", "B2", "B3", "B4", "B5"].map(makeEntry);
+    let active = 0;
+    let peak = 0;
+    const client: SyncClient = {
+      list: async () => entries,
+      downloadStream: async (applkey) => {
+        active += 1;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active -= 1;
+        if (applkey === "B2") {
+          throw new DataboxError("Entry not available", -2);
+        }
+        return Readable.from([Buffer.from("%PDF-12345")]);
+      }
+    };
+    const progress: SyncProgress[] = [];
+
+    const result = await syncDatabox(client, {
+      filter: {},
+      outputDir,
+      concurrency: 2,
+      onProgress: (state) => progress.push(state)
+    });
+
+    expect(peak).toBe(2);
+    expect(result.saved).toHaveLength(4);
+    expect(result.failures.map((failure) => failure.entry.applkey)).toEqual(["B2"]);
+    expect(progress[0]).toEqual({ total: 5, completed: 0, failed: 0, bytes: 0 });
+    expect(progress.at(-1)).toEqual({ total: 5, completed: 4, failed: 1, bytes: 40 });
+  });
+});
+
+describe("RateLimiter", () => {
+  it("spaces request starts across all callers", async () => {
+    let now = 1000;
+    const waits: number[] = [];
+    const limiter = new RateLimiter(4, {
+      now: () => now,
+      sleep: async (ms) => {
+        waits.push(ms);
+      }
+    });
+
+    await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+    expect(waits).toEqual([250, 500]);
+
+    now += 2000;
+    await limiter.acquire();
+    expect(waits).toEqual([250, 500]);
+    await new RateLimiter(0).acquire();
+  });
+});
+
+describe("runBatchSync", () => {
+  it("keeps going when a participant fails and reports partial failure", async () => {
+    const report = await runBatchSync(
+      [{ name: "alpha", config: {} }, { name: "bravo", config: {} }, { name: "charlie", config: {} }],
+      {
+        concurrency: 2,
+        sync: async (participant) => {
+          if (participant.name === "bravo") {
+            throw new InvalidCredentialsError("Invalid credentials", -4);
+          }
+          return {
+            outputDir: `/tmp/${participant.name}`,
+            result: syncResult(2, participant.name === "charlie" ? 1 : 0)
+          };
+        }
+      }
+    );
+
+    expect(report.status).toBe("partial");
+    expect(report.participants.map((participant) => participant.status)).toEqual([
+      "ok",
+      "failed",
+      "partial"
+    ]);
+    expect(report.participants[1]?.error).toEqual({
+      errorClass: "InvalidCredentialsError",
+      message: "Invalid credentials",
+      returnCode: -4
+    });
+    expect(report.participants[2]?.failures).toEqual([
+      { applkey: "F0", errorClass: "DataboxError", message: "Entry not available", returnCode: -2 }
+    ]);
+  });
+
+  it("distinguishes all ok from total failure", async () => {
+    const participants = [{ name: "alpha", config: {} }, { name: "bravo", config: {} }];
+
+    const ok = await runBatchSync(participants, {
+      concurrency: 1,
+      sync: async () => ({ outputDir: "/tmp/out", result: syncResult(1, 0) })
+    });
+    expect(ok.status).toBe("ok");
+
+    const failed = await runBatchSync(participants, {
+      concurrency: 1,
+      sync: async () => {
+        throw new MaintenanceError("FinanzOnline is in maintenance mode.");
+      }
+    });
+    expect(failed.status).toBe("failed");
+    expect(summarizeError("boom")).toEqual({ errorClass: "Error", message: "boom" });
+  });
+
+  it("marks interrupted and unstarted participants as aborted", async () => {
+    const controller = new AbortController();
+    const report = await runBatchSync(
+      [{ name: "alpha", config: {} }, { name: "bravo", config: {} }],
+      {
+        concurrency: 1,
+        signal: controller.signal,
+        sync: async () => {
+          controller.abort();
+          return { outputDir: "/tmp/out", result: { ...syncResult(1, 0), aborted: true } };
+        }
+      }
+    );
+
+    expect(report.aborted).toBe(true);
+    expect(report.status).toBe("partial");
+    expect(report.participants.map(({ name, status, aborted, listed }) => (
+      { name, status, aborted, listed }
+    ))).toEqual([
+      { name: "alpha", status: "partial", aborted: true, listed: 1 },
+      { name: "bravo", status: "partial", aborted: true, listed: 0 }
+    ]);
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("never runs more than the limit at once and keeps order", async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (delay) => {
+      running += 1;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      running -= 1;
+      return delay * 2;
+    });
+
+    expect(results).toEqual([60, 20, 40, 10, 30]);
+    expect(peak).toBe(2);
+  });
+});
@@ -0,0 +1,151 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { describe, expect, it } from "vitest";
+import { DataboxError } from "../../src/errors.js";
+import { DataboxEntry } from "../../src/models/types.js";
+import { SyncClient, SyncEngine, SyncEventName } from "../../src/sync/engine.js";
+import { SyncLedger } from "../../src/sync/ledger.js";
+
+function makeEntry(applkey: string): DataboxEntry {
+  return {
+    stnr: "123",
+    name: "Bescheid",
+    anbringen: "E1",
+    zrvon: "2023",
+    zrbis: "2023",
+    datbesch: new Date("2024-01-10T00:00:00Z"),
+    erltyp: "B",
+    fileart: "PDF",
+    ts_zust: new Date("2024-01-11T10:15:30Z"),
+    applkey,
+    filebez: "Bescheid",
+    status: "UNREAD"
+  };
+}
+
+function makeOutputDir() {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "finanzonline-engine-"));
+}
+
+function fakeClient(entries: DataboxEntry[], failing: string[] = []): SyncClient {
+  return {
+    list: async () => entries,
+    downloadStream: async (applkey) => {
+      if (failing.includes(applkey)) {
+        throw new DataboxError("Entry not available", -2);
+      }
+      return Readable.from([Buffer.from(`%PDF-${applkey}`)]);
+    }
+  };
+}
+
+describe("SyncEngine", () => {
+  it("emits typed events for every stage of the run", async () => {
+    const outputDir = makeOutputDir();
+    const done = makeEntry("DONE");
+    SyncLedger.open(outputDir).record(done, path.join(outputDir, "done.pdf"), Buffer.from("x"));
+
+    const client = fakeClient([done, makeEntry("NEW"), makeEntry("BAD")], ["BAD"]);
+    const engine = new SyncEngine(client, { outputDir, concurrency: 1 });
+    const events: string[] = [];
+    const record = (name: SyncEventName, detail: string) => events.push(`${name}:${detail}`);
+    engine
+      .on("entryDiscovered", ({ entry }) => record("entryDiscovered", entry.applkey))
+      .on("entrySkipped", ({ entry, reason }) =>
+        record("entrySkipped", `${entry.applkey} ${reason}`)
+      )
+      .on("downloadStarted", ({ entry }) => record("downloadStarted", entry.applkey))
+      .on("downloadCompleted", ({ entry, bytes }) =>
+        record("downloadCompleted", `${entry.applkey} ${bytes}`)
+      )
+      .on("error", ({ entry }) => record("error", entry.applkey))
+      .on("finished", (result) => record("finished", String(result.saved.length)));
+
+    const result = await engine.run();
+
+    expect(events).toEqual([
+      "entryDiscovered:DONE",
+      "entrySkipped:DONE already-synced",
+      "entryDiscovered:NEW",
+      "entryDiscovered:BAD",
+      "downloadStarted:NEW",
+      "downloadCompleted:NEW 8",
+      "downloadStarted:BAD",
+      "error:BAD",
+      "finished:1"
+    ]);
+    expect(result).toMatchObject({ listed: 3, skipped: 1, aborted: false });
+    expect(result.failures[0]?.error).toBeInstanceOf(DataboxError);
+  });
+
+  it("accepts a naming function and keeps paths inside the output directory", async () => {
+    const outputDir = makeOutputDir();
+    const engine = new SyncEngine(fakeClient([makeEntry("A1")]), {
+      outputDir,
+      naming: (entry) => `../${entry.stnr}/${entry.applkey}.pdf`
+    });
+
+    const result = await engine.run();
+
+    expect(result.saved[0]?.path).toBe(path.join(outputDir, "_", "123", "A1.pdf"));
+  });
+
+  it("names files by their sniffed content and warns about a wrong fileart", async () => {
+    const outputDir = makeOutputDir();
+    const client: SyncClient = {
+      list: async () => [makeEntry("X1")],
+      downloadStream: async () => Readable.from([Buffer.from("<?xml version=\"1.0\"?><B/>")])
+    };
+
+    const result = await new SyncEngine(client, { outputDir }).run();
+
+    expect(result.saved[0]?.path).toBe(path.join(outputDir, "Bescheid_X1.xml"));
+    expect(result.saved[0]?.mimeType).toBe("application/xml");
+    expect(result.saved[0]?.warnings).toEqual([
+      "fileart: declared PDF but the content is application/xml (.xml)"
+    ]);
+  });
+
+  it("records files kept by the skip policy so they are not downloaded again", async () => {
+    const outputDir = makeOutputDir();
+    fs.writeFileSync(path.join(outputDir, "Bescheid_K1.pdf"), "%PDF-older");
+    const downloads: string[] = [];
+    const client: SyncClient = {
+      list: async () => [makeEntry("K1")],
+      downloadStream: async (applkey) => {
+        downloads.push(applkey);
+        return Readable.from([Buffer.from(`%PDF-${applkey}`)]);
+      }
+    };
+    const engine = () => new SyncEngine(client, { outputDir, collision: "skip" });
+
+    const first = await engine().run();
+    const second = await engine().run();
+
+    expect(first).toMatchObject({ skipped: 1, saved: [] });
+    expect(second).toMatchObject({ skipped: 1, saved: [] });
+    expect(downloads).toEqual(["K1"]);
+    expect(fs.readFileSync(path.join(outputDir, "Bescheid_K1.pdf"), "utf8")).toBe("%PDF-older");
+    expect(SyncLedger.open(outputDir).get("K1")?.path).toBe("Bescheid_K1.pdf");
+  });
+
+  it("stops starting downloads once the signal aborts", async () => {
+    const outputDir = makeOutputDir();
+    const controller = new AbortController();
+    const client = fakeClient([makeEntry("A1"), makeEntry("A2"), makeEntry("A3")]);
+    const engine = new SyncEngine(client, { outputDir, concurrency: 1 });
+    engine.on("downloadCompleted", () => controller.abort());
+    const listener = () => {
+      throw new Error("removed listeners must not run");
+    };
+    engine.on("error", listener).off("error", listener);
+
+    const result = await engine.run(controller.signal);
+
+    expect(result.aborted).toBe(true);
+    expect(result.saved.map((saved) => saved.entry.applkey)).toEqual(["A1"]);
+    expect(result.failures).toEqual([]);
+  });
+});
@@ -0,0 +1,109 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { describe, expect, it } from "vitest";
+import { DocumentIntegrityError, FileNameCollisionError } from "../../src/errors.js";
+import { hashFile, verifyDocument, writeStreamToFile } from "../../src/sync/files.js";
+
+function makeTempDir() {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "finanzonline-files-"));
+}
+
+function stream(text: string) {
+  return Readable.from([Buffer.from(text)]);
+}
+
+describe("writeStreamToFile", () => {
+  it("leaves the previous file and no temp file behind when the stream fails", async () => {
+    const dir = makeTempDir();
+    const target = path.join(dir, "doc.pdf");
+    fs.writeFileSync(target, "%PDF-old");
+
+    const failing = Readable.from(
+      (async function* () {
+        yield Buffer.from("%PDF-partial");
+        throw new Error("connection reset");
+      })()
+    );
+
+    await expect(
+      writeStreamToFile(failing, target, { collision: "overwrite" })
+    ).rejects.toThrow("connection reset");
+    expect(fs.readFileSync(target, "utf8")).toBe("%PDF-old");
+    expect(fs.readdirSync(dir)).toEqual(["doc.pdf"]);
+  });
+
+  it("verifies the PDF and XML signatures before saving", async () => {
+    const dir = makeTempDir();
+
+    await expect(
+      writeStreamToFile(stream("<html>error</html>"), path.join(dir, "a.pdf"), { verify: "PDF" })
+    ).rejects.toBeInstanceOf(DocumentIntegrityError);
+    await expect(
+      writeStreamToFile(stream("Service Unavailable"), path.join(dir, "b.xml"), { verify: "XML" })
+    ).rejects.toThrow(/does not start with an XML declaration or element/);
+    expect(fs.readdirSync(dir)).toEqual([]);
+
+    const written = await writeStreamToFile(stream("<Bescheid/>"), path.join(dir, "c.xml"), {
+      verify: "XML"
+    });
+    expect(written.sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(() => verifyDocument(written.path, "XML")).not.toThrow();
+    expect(() => verifyDocument(written.path, "PDF")).toThrow(/does not start with a %PDF- header/);
+  });
+
+  it("hashes files in chunks and checks only their first bytes", () => {
+    const dir = makeTempDir();
+    const file = path.join(dir, "large.pdf");
+    const content = Buffer.concat([Buffer.from("%PDF-1.7\n"), crypto.randomBytes(200_000)]);
+    fs.writeFileSync(file, content);
+
+    expect(hashFile(file)).toBe(crypto.createHash("sha256").update(content).digest("hex"));
+    expect(() => verifyDocument(file, "PDF")).not.toThrow();
+  });
+
+  it("keeps archives labelled as PDF and gives them their real extension", async () => {
+    const dir = makeTempDir();
+    const zip = Readable.from([Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x0a, 0x00])]);
+
+    const written = await writeStreamToFile(zip, path.join(dir, "a.pdf"), {
+      verify: "PDF",
+      detectExtension: true
+    });
+    expect(written.path).toBe(path.join(dir, "a.zip"));
+    expect(written.mimeType).toBe("application/zip");
+    expect(fs.readdirSync(dir)).toEqual(["a.zip"]);
+
+    const xml = await writeStreamToFile(stream("<Bescheid/>"), path.join(dir, "b.pdf"), {
+      verify: "PDF",
+      detectExtension: true
+    });
+    expect(xml.path).toBe(path.join(dir, "b.xml"));
+  });
+
+  it("applies the collision policy only when the content differs", async () => {
+    const dir = makeTempDir();
+    const target = path.join(dir, "doc.pdf");
+    fs.writeFileSync(target, "%PDF-existing");
+
+    await expect(writeStreamToFile(stream("%PDF-new"), target)).rejects.toBeInstanceOf(
+      FileNameCollisionError
+    );
+    const same = await writeStreamToFile(stream("%PDF-existing"), target);
+    expect(same).toMatchObject({ path: target, skipped: false });
+
+    const skipped = await writeStreamToFile(stream("%PDF-new"), target, { collision: "skip" });
+    expect(skipped.skipped).toBe(true);
+    expect(fs.readFileSync(target, "utf8")).toBe("%PDF-existing");
+
+    const suffixed = await writeStreamToFile(stream("%PDF-new"), target, { collision: "suffix" });
+    expect(suffixed.path).toBe(path.join(dir, "doc-2.pdf"));
+    const again = await writeStreamToFile(stream("%PDF-newer"), target, { collision: "suffix" });
+    expect(again.path).toBe(path.join(dir, "doc-3.pdf"));
+
+    await writeStreamToFile(stream("%PDF-new"), target, { collision: "overwrite" });
+    expect(fs.readFileSync(target, "utf8")).toBe("%PDF-new");
+  });
+});
@@ -0,0 +1,78 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  LEDGER_FILE_NAME,
+  readLedger,
+  sha256,
+  SyncLedger
+} from "../../src/sync/ledger.js";
+import { DataboxEntry } from "../../src/models/types.js";
+
+function makeTempDir() {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "finanzonline-ledger-"));
+}
+
+function makeEntry(applkey: string): DataboxEntry {
+  return {
+    stnr: "123",
+    name: "Bescheid",
+    anbringen: "E1",
+    zrvon: "2023",
+    zrbis: "2023",
+    datbesch: new Date("2024-01-10T00:00:00Z"),
+    erltyp: "B",
+    fileart: "PDF",
+    ts_zust: new Date("2024-01-11T10:15:30Z"),
+    applkey,
+    filebez: "ESt Bescheid",
+    status: "UNREAD"
+  };
+}
+
+describe("SyncLedger", () => {
+  it("returns an empty ledger for a fresh directory", () => {
+    const dir = makeTempDir();
+    expect(readLedger(dir)).toEqual([]);
+    expect(SyncLedger.open(dir).size).toBe(0);
+  });
+
+  it("records downloads and reads them back", () => {
+    const dir = makeTempDir();
+    const ledger = SyncLedger.open(dir);
+    const content = Buffer.from("%PDF-1.4");
+    const downloadedAt = new Date("2024-02-01T12:00:00Z");
+
+    const record = ledger.record(
+      makeEntry("AAA111"),
+      path.join(dir, "sub", "a.pdf"),
+      content,
+      downloadedAt
+    );
+
+    expect(record.path).toBe(path.join("sub", "a.pdf"));
+    expect(record.sha256).toBe(sha256(content));
+    expect(ledger.has("AAA111")).toBe(true);
+
+    const [restored] = readLedger(dir);
+    expect(restored?.entry.ts_zust).toEqual(new Date("2024-01-11T10:15:30Z"));
+    expect(restored?.downloadedAt).toEqual(downloadedAt);
+    expect(SyncLedger.open(dir).get("AAA111")?.sha256).toBe(record.sha256);
+  });
+
+  it("tolerates a truncated trailing line from an interrupted run", () => {
+    const dir = makeTempDir();
+    SyncLedger.open(dir).record(makeEntry("AAA111"), "a.pdf", Buffer.from("a"));
+    fs.appendFileSync(path.join(dir, LEDGER_FILE_NAME), '{"applkey":"BBB');
+
+    const ledger = SyncLedger.open(dir);
+    expect(ledger.list().map((record) => record.applkey)).toEqual(["AAA111"]);
+
+    ledger.record(makeEntry("CCC333"), "c.pdf", Buffer.from("c"));
+    expect(readLedger(dir).map((record) => record.applkey)).toEqual([
+      "AAA111",
+      "CCC333"
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  formatDate,
+  planFileNames,
+  renderFileName,
+  sanitizeSegment,
+  validateFileNameTemplate
+} from "../../src/sync/naming.js";
+import { ConfigurationError, FileNameCollisionError } from "../../src/errors.js";
+import { DataboxEntry } from "../../src/models/types.js";
+
+function makeEntry(overrides: Partial<DataboxEntry> = {}): DataboxEntry {
+  return {
+    stnr: "12 345/6789",
+    name: "Bescheid",
+    anbringen: "E1",
+    zrvon: "2023",
+    zrbis: "2023",
+    datbesch: new Date("2024-01-10T00:00:00Z"),
+    erltyp: "B",
+    fileart: "PDF",
+    ts_zust: new Date("2024-01-11T10:15:30Z"),
+    applkey: "AAA111",
+    filebez: "ESt Bescheid",
+    status: "UNREAD",
+    ...overrides
+  };
+}
+
+describe("renderFileName", () => {
+  it("keeps the legacy layout by default", () => {
+    expect(renderFileName(makeEntry())).toBe("ESt_Bescheid_AAA111.pdf");
+    expect(renderFileName(makeEntry({ filebez: "", fileart: "XML" }))).toBe(
+      "Bescheid_AAA111.xml"
+    );
+  });
+
+  it("creates subdirectories and sanitizes each segment", () => {
+    const fileName = renderFileName(
+      makeEntry(),
+      "{stnr}/{zrvon}/{datbesch:YYYY-MM-DD}_{anbringen}_{applkey}.{ext}"
+    );
+    expect(fileName).toBe(
+      path.join("12_345_6789", "2023", "2024-01-10_E1_AAA111.pdf")
+    );
+  });
+
+  it("neutralizes traversal segments", () => {
+    const fileName = renderFileName(makeEntry({ stnr: ".." }), "{stnr}/{applkey}");
+    expect(fileName).toBe(path.join("_", "AAA111"));
+  });
+
+  it("falls back to the applkey when everything renders empty", () => {
+    expect(renderFileName(makeEntry({ erltyp: "" }), "{erltyp}/")).toBe("AAA111");
+  });
+
+  it("rejects unknown placeholders", () => {
+    expect(() => validateFileNameTemplate("{nope}.pdf")).toThrow(ConfigurationError);
+    expect(() => validateFileNameTemplate("  ")).toThrow(ConfigurationError);
+  });
+});
+
+describe("planFileNames", () => {
+  it("detects colliding target paths", () => {
+    const entries = [makeEntry(), makeEntry({ applkey: "BBB222" })];
+
+    expect(() => planFileNames(entries, "{stnr}.{ext}")).toThrow(
+      FileNameCollisionError
+    );
+    expect(planFileNames(entries).get("BBB222")).toBe("ESt_Bescheid_BBB222.pdf");
+    expect(planFileNames(entries, "{stnr}.{ext}", "suffix").get("BBB222")).toBe(
+      "12_345_6789.pdf"
+    );
+  });
+});
+
+describe("helpers", () => {
+  it("formats dates with tokens", () => {
+    expect(formatDate(new Date("2024-01-11T10:15:30Z"), "YYYYMMDD-HHmmss")).toBe(
+      "20240111-111530"
+    );
+  });
+
+  it("sanitizes segments", () => {
+    expect(sanitizeSegment("a b/c")).toBe("a_b_c");
+    expect(sanitizeSegment("")).toBe("_");
+  });
+});